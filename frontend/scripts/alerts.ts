@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createPublicClient, defineChain, http } from 'viem';
+import {
+  AlertThrottle,
+  AlertWatcher,
+  DEFAULT_ALERT_RULES,
+  MetaIndexClient,
+  parseAlertRules,
+  parseDeployment,
+  type Alert,
+} from '../src/sdk';
+
+// Watches the protocol for pauses, cap and manager changes, strategy changes,
+// price feed updates, rebalances and threshold breaches (TVL near cap,
+// allocation drift), and delivers each alert to every configured sink.
+//
+// Usage: npm run alerts -- [--deployment <file>] [--rpc-url <url>] [--config <file>]
+//          [--webhook <url>] [--file <path>] [--from-block <n>] [--poll-interval <ms>] [--once]
+//
+// The config file is JSON, every field optional:
+//   {
+//     "rules": [{ "id": "vault-paused", "type": "event", "events": ["Paused"], "severity": "critical" },
+//               { "id": "tvl", "type": "tvl-near-cap", "thresholdBps": 9500, "severity": "warning" }],
+//     "sinks": [{ "type": "stdout" }, { "type": "file", "path": "alerts.jsonl" },
+//               { "type": "webhook", "url": "https://hooks.example.com/..." }],
+//     "dedupWindowSeconds": 3600,
+//     "rateLimit": { "max": 20, "windowSeconds": 60 }
+//   }
+// Without sinks from the config or flags, alerts go to stdout as JSON lines.
+// Service messages go to stderr.
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DEPLOYMENT = path.resolve(__dirname, '../../deployments/latest.json');
+const DEFAULT_RPC_URL = 'http://127.0.0.1:8545';
+
+type SinkConfig = { type: 'stdout' } | { type: 'file'; path: string } | { type: 'webhook'; url: string };
+
+interface AlertConfig {
+  rules?: unknown;
+  sinks?: SinkConfig[];
+  dedupWindowSeconds?: number;
+  rateLimit?: { max: number; windowSeconds: number };
+}
+
+interface Sink {
+  name: string;
+  deliver: (alert: Alert, chainId: number) => Promise<void>;
+}
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = readOption(name);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`--${name} must be a non-negative integer`);
+  return parsed;
+}
+
+function log(event: string, fields: Record<string, unknown> = {}) {
+  console.error(JSON.stringify({ time: new Date().toISOString(), event, ...fields }));
+}
+
+const alertJson = (alert: Alert, chainId: number) => ({
+  time: new Date().toISOString(),
+  chainId,
+  ...alert,
+  blockNumber: alert.blockNumber.toString(),
+});
+
+function createSink(config: SinkConfig): Sink {
+  switch (config.type) {
+    case 'stdout':
+      return {
+        name: 'stdout',
+        deliver: async (alert, chainId) => {
+          console.log(JSON.stringify(alertJson(alert, chainId)));
+        },
+      };
+    case 'file': {
+      const file = path.resolve(config.path);
+      return {
+        name: `file:${file}`,
+        deliver: (alert, chainId) => fs.promises.appendFile(file, `${JSON.stringify(alertJson(alert, chainId))}\n`),
+      };
+    }
+    case 'webhook':
+      return {
+        name: `webhook:${new URL(config.url).host}`,
+        deliver: async (alert, chainId) => {
+          const response = await fetch(config.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            // `text` lets Slack- and Discord-style incoming webhooks show the alert as is
+            body: JSON.stringify({
+              text: `[${alert.severity}] ${alert.title}: ${alert.message}`,
+              ...alertJson(alert, chainId),
+            }),
+          });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        },
+      };
+    default:
+      throw new Error(`Unknown sink type "${(config as { type: unknown }).type}"`);
+  }
+}
+
+async function main() {
+  const deploymentFile = path.resolve(readOption('deployment') ?? DEFAULT_DEPLOYMENT);
+  const rpcUrl = readOption('rpc-url') ?? process.env.RPC_URL ?? DEFAULT_RPC_URL;
+  const configFile = readOption('config');
+  const config: AlertConfig = configFile ? JSON.parse(fs.readFileSync(path.resolve(configFile), 'utf-8')) : {};
+
+  const rules = config.rules === undefined ? DEFAULT_ALERT_RULES : parseAlertRules(config.rules, configFile);
+  const sinkConfigs: SinkConfig[] = [...(config.sinks ?? [])];
+  const webhook = readOption('webhook') ?? process.env.ALERT_WEBHOOK_URL;
+  if (webhook) sinkConfigs.push({ type: 'webhook', url: webhook });
+  const file = readOption('file');
+  if (file) sinkConfigs.push({ type: 'file', path: file });
+  if (sinkConfigs.length === 0) sinkConfigs.push({ type: 'stdout' });
+  const sinks = sinkConfigs.map(createSink);
+
+  const throttle = new AlertThrottle({
+    ...(config.dedupWindowSeconds !== undefined && { dedupWindowMs: config.dedupWindowSeconds * 1000 }),
+    ...(config.rateLimit && { maxPerWindow: config.rateLimit.max, rateWindowMs: config.rateLimit.windowSeconds * 1000 }),
+  });
+
+  const deployment = parseDeployment(
+    JSON.parse(fs.readFileSync(deploymentFile, 'utf-8')),
+    path.relative(process.cwd(), deploymentFile),
+  );
+  const chain = defineChain({
+    id: deployment.chainId,
+    name: `chain-${deployment.chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+  const publicClient = createPublicClient({ chain, transport: http(rpcUrl) });
+
+  const chainId = await publicClient.getChainId();
+  if (chainId !== deployment.chainId) {
+    throw new Error(`RPC is on chain ${chainId} but the deployment is for chain ${deployment.chainId}`);
+  }
+
+  const sdk = MetaIndexClient.fromDeployment(deployment, { publicClient });
+  const fromBlock = readOption('from-block');
+  const watcher = new AlertWatcher(sdk, {
+    rules,
+    throttle,
+    fromBlock: fromBlock === undefined ? undefined : BigInt(readInteger('from-block', 0)),
+  });
+
+  log('alerts-started', { chainId, vault: deployment.vault, rules: rules.map((r) => r.id), sinks: sinks.map((s) => s.name) });
+
+  // A failing sink is logged and does not stop delivery to the others
+  const deliver = (alerts: Alert[]) =>
+    Promise.all(
+      alerts.flatMap((alert) =>
+        sinks.map((sink) =>
+          sink.deliver(alert, chainId).catch((error: Error) => log('sink-failed', { sink: sink.name, key: alert.key, error: error.message })),
+        ),
+      ),
+    );
+
+  const poll = async () => {
+    const dropped = throttle.dropped;
+    await deliver(await watcher.poll());
+    if (throttle.dropped > dropped) log('rate-limited', { dropped: throttle.dropped - dropped });
+  };
+
+  if (hasFlag('once')) {
+    await poll();
+    return;
+  }
+
+  // Blocks that arrive during a poll are covered by the next one
+  let current: Promise<void> | undefined;
+  const unwatch = publicClient.watchBlockNumber({
+    emitOnBegin: true,
+    pollingInterval: readInteger('poll-interval', 4_000),
+    onBlockNumber: () => {
+      if (current) return;
+      current = poll()
+        .catch((error) => log('poll-failed', { error: error instanceof Error ? error.message : String(error) }))
+        .finally(() => {
+          current = undefined;
+        });
+    },
+    onError: (error) => log('watch-failed', { error: error.message }),
+  });
+
+  const shutdown = async (signal: string) => {
+    log('alerts-stopping', { signal });
+    unwatch();
+    await current;
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('❌ Alert service failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
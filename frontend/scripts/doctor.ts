@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createPublicClient, http } from 'viem';
+import { parseDeployment } from '../src/contracts/deployments';
+import { formatDoctorReport, runDeploymentChecks } from '../src/lib/deploymentDoctor';
+
+// Verifies that the contracts in a deployment file have code and are wired to
+// each other: vault <-> manager, strategies, allocations, oracle feeds and roles.
+// Exits non-zero when any check fails.
+//
+// Usage: npm run doctor -- [--deployment <file>] [--rpc-url <url>] [--json]
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DEPLOYMENT = path.resolve(__dirname, '../../deployments/latest.json');
+const DEFAULT_RPC_URL = 'http://127.0.0.1:8545';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const deploymentFile = path.resolve(readOption('deployment') ?? DEFAULT_DEPLOYMENT);
+  const rpcUrl = readOption('rpc-url') ?? process.env.RPC_URL ?? DEFAULT_RPC_URL;
+  const json = process.argv.includes('--json');
+
+  const deployment = parseDeployment(
+    JSON.parse(fs.readFileSync(deploymentFile, 'utf-8')),
+    path.relative(process.cwd(), deploymentFile),
+  );
+  const client = createPublicClient({ transport: http(rpcUrl) });
+
+  const chainId = await client.getChainId();
+  if (chainId !== deployment.chainId) {
+    throw new Error(`RPC is on chain ${chainId} but the deployment is for chain ${deployment.chainId}`);
+  }
+
+  const report = await runDeploymentChecks(client, deployment);
+
+  if (json) {
+    console.log(JSON.stringify({ deployment: path.relative(process.cwd(), deploymentFile), ...report }, null, 2));
+  } else {
+    console.log(`🩺 Checking ${path.relative(process.cwd(), deploymentFile)} against ${rpcUrl}\n`);
+    console.log(formatDoctorReport(report));
+  }
+
+  if (!report.passed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('❌ Deployment check failed to run:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
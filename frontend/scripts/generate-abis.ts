@@ -13,12 +13,33 @@ const ABIS_DIR = path.join(__dirname, '../src/contracts/abis');
 const CONTRACTS = [
   'MetaIndexVault',
   'StrategyManager',
+  'PriceOracle',
+  'AggregatorV3Interface',
+  'BaseStrategy',
+  'IStrategy',
+  'IStrategyManager',
+  'ISwapRouter',
   'MockERC20',
   'MockPriceOracle',
   'MockSwapRouter',
   'MockStrategy',
+  'RebalanceLib',
 ];
 
+// Contracts declared in another contract's source file
+const SOURCE_FILES: Record<string, string> = {
+  AggregatorV3Interface: 'PriceOracle.sol',
+};
+
+// MetaIndexVault -> metaIndexVaultAbi, IStrategy -> iStrategyAbi
+function abiExportName(contractName: string): string {
+  return `${contractName.charAt(0).toLowerCase()}${contractName.slice(1)}Abi`;
+}
+
+function header(source: string): string {
+  return `// Auto-generated by scripts/generate-abis.ts from ${source}. Do not edit.\n`;
+}
+
 async function generateABIs() {
   console.log('🔨 Generating ABIs...');
   console.log(`   Reading from: ${OUT_DIR}`);
@@ -29,12 +50,14 @@ async function generateABIs() {
     fs.mkdirSync(ABIS_DIR, { recursive: true });
   }
 
+  const generated: string[] = [];
+
   for (const contractName of CONTRACTS) {
     try {
       // Read the compiled contract artifact
       const artifactPath = path.join(
         OUT_DIR,
-        `${contractName}.sol`,
+        SOURCE_FILES[contractName] ?? `${contractName}.sol`,
         `${contractName}.json`
       );
 
@@ -48,16 +71,40 @@ async function generateABIs() {
       // Extract the ABI
       const abi = artifact.abi;
 
-      // Write ABI to file
-      const abiPath = path.join(ABIS_DIR, `${contractName}.json`);
-      fs.writeFileSync(abiPath, JSON.stringify(abi, null, 2));
+      // Write the ABI as a const-asserted module so viem can infer
+      // function names, arguments and return types from it
+      const source = path.relative(ROOT_DIR, artifactPath);
+      const abiPath = path.join(ABIS_DIR, `${contractName}.ts`);
+      fs.writeFileSync(
+        abiPath,
+        `${header(source)}\nexport const ${abiExportName(contractName)} = ${JSON.stringify(abi, null, 2)} as const;\n`
+      );
 
+      generated.push(contractName);
       console.log(`   ✅ ${contractName}`);
     } catch (error) {
       console.error(`   ❌ ${contractName}:`, error);
     }
   }
 
+  // Barrel module with a name -> ABI map covering every generated contract
+  const indexContent = [
+    header('out/'),
+    ...generated.map((name) => `import { ${abiExportName(name)} } from './${name}';`),
+    '',
+    'export {',
+    ...generated.map((name) => `  ${abiExportName(name)},`),
+    '};',
+    '',
+    'export const abis = {',
+    ...generated.map((name) => `  ${name}: ${abiExportName(name)},`),
+    '} as const;',
+    '',
+    'export type ContractName = keyof typeof abis;',
+    '',
+  ].join('\n');
+  fs.writeFileSync(path.join(ABIS_DIR, 'index.ts'), indexContent);
+
   console.log('✨ Done!');
 }
 
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createPublicClient, createWalletClient, defineChain, http as httpTransport, isAddress, parseGwei, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  MetaIndexClient,
+  RebalanceKeeper,
+  formatKeeperMetrics,
+  parseDeployment,
+  type KeeperLogLevel,
+  type KeeperLogger,
+} from '../src/sdk';
+
+// Watches new blocks and calls StrategyManager.rebalance() when it is needed,
+// the cooldown has passed and the simulation succeeds. Logs one JSON object per
+// line and serves Prometheus metrics on /metrics.
+//
+// Usage: npm run keeper -- [--deployment <file>] [--rpc-url <url>] [--dry-run] [--once]
+//          [--cooldown <seconds>] [--max-gas <units>] [--max-fee-gwei <gwei>]
+//          [--replace-after <blocks>] [--poll-interval <ms>] [--metrics-port <port>]
+//          [--log-level debug|info|warn|error] [--from <address>]
+//
+// The signing key is read from KEEPER_PRIVATE_KEY (or PRIVATE_KEY) and needs
+// MANAGER_ROLE on the strategy manager. --dry-run accepts --from instead.
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DEPLOYMENT = path.resolve(__dirname, '../../deployments/latest.json');
+const DEFAULT_RPC_URL = 'http://127.0.0.1:8545';
+const LOG_LEVELS: KeeperLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = readOption(name);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`--${name} must be a non-negative integer`);
+  return parsed;
+}
+
+function createLogger(minLevel: KeeperLogLevel): KeeperLogger {
+  const threshold = LOG_LEVELS.indexOf(minLevel);
+  return (level, event, fields = {}) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) return;
+    const entry = { time: new Date().toISOString(), level, event, ...fields };
+    console.log(JSON.stringify(entry, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
+  };
+}
+
+async function main() {
+  const logLevel = (readOption('log-level') ?? 'info') as KeeperLogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) throw new Error(`--log-level must be one of ${LOG_LEVELS.join(', ')}`);
+  const log = createLogger(logLevel);
+
+  const deploymentFile = path.resolve(readOption('deployment') ?? DEFAULT_DEPLOYMENT);
+  const rpcUrl = readOption('rpc-url') ?? process.env.RPC_URL ?? DEFAULT_RPC_URL;
+  const dryRun = hasFlag('dry-run');
+  const maxFeeGwei = readOption('max-fee-gwei');
+  const options = {
+    dryRun,
+    cooldown: readInteger('cooldown', 3600),
+    maxGas: BigInt(readInteger('max-gas', 3_000_000)),
+    maxFeePerGas: maxFeeGwei === undefined ? undefined : parseGwei(maxFeeGwei),
+    replaceAfterBlocks: readInteger('replace-after', 5),
+  };
+
+  const deployment = parseDeployment(
+    JSON.parse(fs.readFileSync(deploymentFile, 'utf-8')),
+    path.relative(process.cwd(), deploymentFile),
+  );
+  const chain = defineChain({
+    id: deployment.chainId,
+    name: `chain-${deployment.chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+  const publicClient = createPublicClient({ chain, transport: httpTransport(rpcUrl) });
+
+  const chainId = await publicClient.getChainId();
+  if (chainId !== deployment.chainId) {
+    throw new Error(`RPC is on chain ${chainId} but the deployment is for chain ${deployment.chainId}`);
+  }
+
+  const privateKey = process.env.KEEPER_PRIVATE_KEY ?? process.env.PRIVATE_KEY;
+  const from = readOption('from');
+  let account;
+  if (privateKey) {
+    account = privateKeyToAccount(privateKey as Hex);
+  } else if (dryRun && from && isAddress(from)) {
+    // JSON-RPC account: enough to simulate, never used to sign
+    account = from;
+  } else {
+    throw new Error('Set KEEPER_PRIVATE_KEY, or pass --dry-run --from <address>');
+  }
+  const walletClient = createWalletClient({ account, chain, transport: httpTransport(rpcUrl) });
+
+  const sdk = MetaIndexClient.fromDeployment(deployment, { publicClient, walletClient });
+  const keeper = new RebalanceKeeper(sdk, options, log);
+
+  log('info', 'keeper-started', {
+    chainId,
+    strategyManager: deployment.strategyManager,
+    account: sdk.signerAddress,
+    ...options,
+  });
+
+  if (hasFlag('once')) {
+    const outcome = await keeper.tick(await publicClient.getBlockNumber());
+    log('info', 'tick', { ...outcome });
+    return;
+  }
+
+  const metricsPort = readInteger('metrics-port', 9464);
+  const server =
+    metricsPort === 0
+      ? undefined
+      : http
+          .createServer((req, res) => {
+            if (req.url === '/metrics') {
+              res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+              res.end(formatKeeperMetrics(keeper.metrics));
+            } else {
+              res.writeHead(404).end();
+            }
+          })
+          .listen(metricsPort, () => log('info', 'metrics-listening', { port: metricsPort }));
+
+  // Blocks that arrive while a tick is still running are skipped, not queued
+  let current: Promise<void> | undefined;
+  const unwatch = publicClient.watchBlockNumber({
+    emitOnBegin: true,
+    pollingInterval: readInteger('poll-interval', 4_000),
+    onBlockNumber: (blockNumber) => {
+      if (current) {
+        log('debug', 'block-skipped', { block: blockNumber });
+        return;
+      }
+      current = keeper
+        .tick(blockNumber)
+        .then((outcome) => {
+          if (outcome.action !== 'skipped') log('info', 'tick', { block: blockNumber, ...outcome });
+        })
+        // Already logged and counted by the keeper; keep watching
+        .catch(() => {})
+        .finally(() => {
+          current = undefined;
+        });
+    },
+    onError: (error) => log('error', 'watch-failed', { error: error.message }),
+  });
+
+  const shutdown = async (signal: string) => {
+    log('info', 'keeper-stopping', { signal });
+    unwatch();
+    server?.close();
+    await current;
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('❌ Keeper failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
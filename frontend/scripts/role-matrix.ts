@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createPublicClient, http } from 'viem';
+import { parseDeployment } from '../src/contracts/deployments';
+import { loadRoleReport, roleReportToJson } from '../src/lib/accessControl';
+
+// Prints the role membership of the vault, strategy manager and price oracle as
+// JSON, rebuilt from RoleGranted/RoleRevoked logs.
+//
+// Usage: npm run role-matrix -- [--deployment <file>] [--rpc-url <url>]
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DEPLOYMENT = path.resolve(__dirname, '../../deployments/latest.json');
+const DEFAULT_RPC_URL = 'http://127.0.0.1:8545';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const deploymentFile = path.resolve(readOption('deployment') ?? DEFAULT_DEPLOYMENT);
+  const rpcUrl = readOption('rpc-url') ?? process.env.RPC_URL ?? DEFAULT_RPC_URL;
+
+  const deployment = parseDeployment(
+    JSON.parse(fs.readFileSync(deploymentFile, 'utf-8')),
+    path.relative(process.cwd(), deploymentFile),
+  );
+  const client = createPublicClient({ transport: http(rpcUrl) });
+
+  const chainId = await client.getChainId();
+  if (chainId !== deployment.chainId) {
+    throw new Error(`RPC is on chain ${chainId} but the deployment is for chain ${deployment.chainId}`);
+  }
+
+  const report = await loadRoleReport(
+    client,
+    [
+      { name: 'MetaIndexVault', address: deployment.vault },
+      { name: 'StrategyManager', address: deployment.strategyManager },
+      { name: 'PriceOracle', address: deployment.priceOracle },
+    ],
+    { vault: deployment.vault, strategyManager: deployment.strategyManager },
+    BigInt(deployment.startBlock ?? 0),
+  );
+
+  console.log(JSON.stringify({ chainId, ...roleReportToJson(report) }, null, 2));
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to build role matrix:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
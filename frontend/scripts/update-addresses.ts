@@ -1,54 +1,85 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { parseDeployment, type Deployment } from '../src/contracts/deployments';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const ROOT_DIR = path.resolve(__dirname, '../..');
-const DEPLOYMENTS_FILE = path.join(ROOT_DIR, 'deployments/latest.json');
-const ENV_FILE = path.join(__dirname, '../.env.local');
+const DEPLOYMENTS_DIR = path.join(ROOT_DIR, 'deployments');
+const REGISTRY_FILE = path.join(__dirname, '../src/contracts/deployments.generated.ts');
+
+// Per-chain deployment files are named after their chain id, e.g. 31337.json
+const DEPLOYMENT_FILE_PATTERN = /^(\d+)\.json$/;
 
 async function updateAddresses() {
-  console.log('📝 Updating contract addresses...');
+  console.log('📝 Updating deployment registry...');
+  console.log(`   Reading from: ${DEPLOYMENTS_DIR}`);
 
-  // Read deployment addresses
-  if (!fs.existsSync(DEPLOYMENTS_FILE)) {
-    console.error('❌ Deployment file not found. Run deployment script first.');
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    console.error('❌ Deployments directory not found. Run deployment script first.');
     process.exit(1);
   }
 
-  const deployment = JSON.parse(fs.readFileSync(DEPLOYMENTS_FILE, 'utf-8'));
+  const deployments: Deployment[] = [];
+  let failed = false;
+
+  for (const file of fs.readdirSync(DEPLOYMENTS_DIR).sort()) {
+    const match = DEPLOYMENT_FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(DEPLOYMENTS_DIR, file), 'utf-8'));
+      const deployment = parseDeployment(raw, `deployments/${file}`);
+
+      if (deployment.chainId !== Number(match[1])) {
+        throw new Error(`deployments/${file}: chainId ${deployment.chainId} does not match file name`);
+      }
+
+      deployments.push(deployment);
+      console.log(`   ✅ ${file}`);
+    } catch (error) {
+      console.error(`   ❌ ${error instanceof Error ? error.message : error}`);
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    console.error('❌ Registry not updated: fix the invalid deployment files above.');
+    process.exit(1);
+  }
 
-  // Create or update .env.local
-  const envContent = `# Auto-generated from deployments/latest.json
-# Chain Configuration
-VITE_CHAIN_ID=31337
+  if (deployments.length === 0) {
+    console.error('❌ No deployments/<chainId>.json files found. Run deployment script first.');
+    process.exit(1);
+  }
 
-# Contract Addresses
-VITE_VAULT_ADDRESS=${deployment.vault}
-VITE_STRATEGY_MANAGER_ADDRESS=${deployment.strategyManager}
-VITE_USDC_ADDRESS=${deployment.usdc}
-VITE_PRICE_ORACLE_ADDRESS=${deployment.priceOracle}
-VITE_SWAP_ROUTER_ADDRESS=${deployment.swapRouter}
+  const entries = deployments
+    .map((deployment) => {
+      const body = JSON.stringify(deployment, null, 2).split('\n').join('\n  ');
+      return `  ${deployment.chainId}: ${body},`;
+    })
+    .join('\n');
 
-# Strategy Addresses
-VITE_STRATEGY1_ADDRESS=${deployment.strategy1}
-VITE_STRATEGY2_ADDRESS=${deployment.strategy2}
+  const registryContent = `// Auto-generated by scripts/update-addresses.ts from deployments/<chainId>.json. Do not edit.
 
-# WalletConnect Project ID (get from https://cloud.walletconnect.com)
-VITE_WALLETCONNECT_PROJECT_ID=your_project_id_here
+export const deployments = {
+${entries}
+} as const;
 `;
 
-  fs.writeFileSync(ENV_FILE, envContent);
+  fs.writeFileSync(REGISTRY_FILE, registryContent);
 
-  console.log('✅ Contract addresses updated in .env.local');
-  console.log('\nDeployed addresses:');
-  console.log(`   Vault:            ${deployment.vault}`);
-  console.log(`   Strategy Manager: ${deployment.strategyManager}`);
-  console.log(`   USDC:             ${deployment.usdc}`);
-  console.log(`   Price Oracle:     ${deployment.priceOracle}`);
-  console.log(`   Swap Router:      ${deployment.swapRouter}`);
+  console.log(`✅ Deployment registry updated in ${path.relative(ROOT_DIR, REGISTRY_FILE)}`);
+  for (const deployment of deployments) {
+    console.log(`\nChain ${deployment.chainId}:`);
+    console.log(`   Vault:            ${deployment.vault}`);
+    console.log(`   Strategy Manager: ${deployment.strategyManager}`);
+    console.log(`   USDC:             ${deployment.usdc}`);
+    console.log(`   Price Oracle:     ${deployment.priceOracle}`);
+    console.log(`   Swap Router:      ${deployment.swapRouter}`);
+  }
 }
 
 updateAddresses().catch(console.error);
@@ -1,11 +1,19 @@
 import { useAccount } from 'wagmi'
+import { AlertCenter } from './components/alerts/AlertCenter'
 import { ConnectWallet } from './components/wallet/ConnectWallet'
 import { VaultDashboard } from './components/vault/VaultDashboard'
+import { UnsupportedNetwork } from './components/network/UnsupportedNetwork'
+import { WrongNetworkBanner } from './components/network/WrongNetworkBanner'
+import { StrategyDetail } from './components/strategies/StrategyDetail'
+import { useActiveDeployment } from './hooks/useContracts'
+import { useHashRoute } from './hooks/useHashRoute'
 import { getActiveChain } from './lib/wagmi'
 
 function App() {
-  const { isConnected } = useAccount()
-  const chain = getActiveChain()
+  const { isConnected, chain: walletChain } = useAccount()
+  const { chainId, deployment } = useActiveDeployment()
+  const route = useHashRoute()
+  const chainName = walletChain?.name ?? (isConnected ? `Chain ${chainId}` : getActiveChain().name)
 
   return (
     <div className="min-h-screen bg-dark-900">
@@ -22,7 +30,10 @@ function App() {
                 <p className="text-xs text-gray-400">Diversified DeFi Portfolios</p>
               </div>
             </div>
-            <ConnectWallet />
+            <div className="flex items-center gap-3">
+              {isConnected && deployment && <AlertCenter key={chainId} />}
+              <ConnectWallet />
+            </div>
           </div>
         </div>
       </header>
@@ -32,13 +43,19 @@ function App() {
         {/* Network Badge */}
         <div className="mb-8">
           <div className="inline-flex items-center gap-2 px-4 py-2 bg-dark-800 border border-dark-700 rounded-lg">
-            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-            <span className="text-sm font-medium">{chain.name}</span>
+            <div className={`w-2 h-2 rounded-full animate-pulse ${deployment ? 'bg-green-500' : 'bg-red-500'}`} />
+            <span className="text-sm font-medium">{chainName}</span>
           </div>
         </div>
 
-        {isConnected ? (
-          <VaultDashboard />
+        <WrongNetworkBanner />
+
+        {isConnected && deployment && route.page === 'strategy' ? (
+          <StrategyDetail key={`${chainId}-${route.address}`} address={route.address} />
+        ) : isConnected && deployment ? (
+          <VaultDashboard key={chainId} />
+        ) : isConnected ? (
+          <UnsupportedNetwork chainId={chainId} />
         ) : (
           <div className="max-w-md mx-auto text-center">
             <div className="w-20 h-20 bg-primary-500/10 rounded-full flex items-center justify-center mx-auto mb-6">
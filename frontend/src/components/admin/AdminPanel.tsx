@@ -0,0 +1,355 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { decodeContractError } from '../../lib/errors'
+import { useAdmin, useProtocolSettings } from '../../hooks/useAdmin'
+import { useRoles } from '../../hooks/useRoles'
+import { useAssetDecimals } from '../../hooks/useProtocolSnapshot'
+import { useStrategies, useStrategyAllocations } from '../../hooks/useStrategies'
+import { AllocationEditor } from './AllocationEditor'
+import {
+  allocationSumWarning,
+  validateAddStrategy,
+  validateAddress,
+  validateDeviationThreshold,
+  validateRemoveStrategy,
+  validateUpdateAllocation,
+} from '../../lib/validation'
+import { formatUsd, parseAmount, tokenAmount } from '../../lib/amount'
+
+const shortAddress = (address: string) => `${address.slice(0, 10)}...${address.slice(-8)}`
+
+// Inputs are parsed strictly; undefined means "not a valid number"
+const parseBps = (value: string) => (/^\d+$/.test(value.trim()) ? BigInt(value.trim()) : undefined)
+
+interface ParamFormProps {
+  label: string
+  current: string
+  placeholder: string
+  validate: (value: string) => string | undefined
+  onSubmit: (value: string) => Promise<unknown>
+  disabled: boolean
+}
+
+function ParamForm({ label, current, placeholder, validate, onSubmit, disabled }: ParamFormProps) {
+  const [value, setValue] = useState('')
+  const [submitError, setSubmitError] = useState<string>()
+  const error = value ? validate(value) : undefined
+
+  const handleSubmit = () => {
+    setSubmitError(undefined)
+    onSubmit(value)
+      .then(() => setValue(''))
+      .catch((err) => setSubmitError(decodeContractError(err)))
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-2">
+        <label className="font-medium">{label}</label>
+        <span className="text-gray-400">Current: {current}</span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={placeholder}
+          className="flex-1 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || !value || !!error}
+          className="btn btn-primary"
+        >
+          Update
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400 mt-1">{error}</p>}
+      {!error && submitError && <p className="text-sm text-red-400 mt-1">{submitError}</p>}
+    </div>
+  )
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="border-t border-dark-700 pt-6">
+      <h4 className="font-medium mb-4">{title}</h4>
+      <div className="space-y-4">{children}</div>
+    </div>
+  )
+}
+
+export function AdminPanel() {
+  const [newStrategy, setNewStrategy] = useState('')
+  const [newAllocation, setNewAllocation] = useState('')
+  const [selectedStrategy, setSelectedStrategy] = useState('')
+  const [updatedAllocation, setUpdatedAllocation] = useState('')
+
+  const queryClient = useQueryClient()
+  const { roles, hasAnyRole } = useRoles()
+  const settings = useProtocolSettings()
+  const { strategies: strategyAddresses } = useStrategies()
+  const { strategies } = useStrategyAllocations(strategyAddresses)
+  const admin = useAdmin()
+  const decimals = useAssetDecimals()
+
+  const { isConfirmed, reset } = admin
+  const busy = admin.isPending || admin.isConfirming
+
+  useEffect(() => {
+    if (isConfirmed) {
+      toast.success('Transaction confirmed')
+      queryClient.invalidateQueries()
+      reset()
+    }
+  }, [isConfirmed, reset, queryClient])
+
+  // Wrap every action with the same error reporting
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error('Admin action error:', error)
+      toast.error(decodeContractError(error))
+      throw error
+    }
+  }
+
+  if (!hasAnyRole) return null
+
+  const addBps = parseBps(newAllocation)
+  const addError = newStrategy || newAllocation
+    ? addBps === undefined
+      ? 'Allocation must be a whole number of basis points'
+      : validateAddStrategy(newStrategy, addBps, strategies)
+    : undefined
+
+  const updateBps = parseBps(updatedAllocation)
+  const updateError = selectedStrategy && updatedAllocation
+    ? updateBps === undefined
+      ? 'Allocation must be a whole number of basis points'
+      : validateUpdateAllocation(selectedStrategy, updateBps, strategies)
+    : undefined
+
+  const sumWarning = allocationSumWarning(strategies.map((s) => s.allocation))
+
+  const parseUsdc = (value: string) => (decimals === undefined ? undefined : parseAmount(value.trim(), decimals))
+  const formatUsdc = (value: bigint | undefined) => formatUsd(tokenAmount(value, decimals))
+
+  return (
+    <div className="card space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-xl font-bold">Admin</h3>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {roles.vaultAdmin && <span className="px-2 py-1 bg-primary-500/10 text-primary-400 rounded">Vault admin</span>}
+          {roles.vaultManager && <span className="px-2 py-1 bg-primary-500/10 text-primary-400 rounded">Vault manager</span>}
+          {roles.guardian && <span className="px-2 py-1 bg-primary-500/10 text-primary-400 rounded">Guardian</span>}
+          {roles.managerAdmin && <span className="px-2 py-1 bg-primary-500/10 text-primary-400 rounded">Strategy admin</span>}
+          {roles.strategyManager && <span className="px-2 py-1 bg-primary-500/10 text-primary-400 rounded">Strategy manager</span>}
+        </div>
+      </div>
+
+      {roles.managerAdmin && (
+        <Section title="Strategies">
+          {strategies.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-dark-700">
+                  <th className="py-2 font-medium">Strategy</th>
+                  <th className="py-2 font-medium text-right">Allocation</th>
+                  <th className="py-2 font-medium text-right">Value</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {strategies.map((s) => {
+                  const removeError = validateRemoveStrategy(s.address, strategies)
+                  return (
+                    <tr key={s.address} className="border-b border-dark-700/50">
+                      <td className="py-2 font-mono text-xs text-gray-400">{shortAddress(s.address)}</td>
+                      <td className="py-2 text-right">{s.allocation.toString()} bps</td>
+                      <td className="py-2 text-right">{formatUsdc(s.totalValue)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => run(() => admin.removeStrategy(s.address)).catch(() => {})}
+                          disabled={busy || !!removeError}
+                          title={removeError}
+                          className="text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+          {sumWarning && <p className="text-sm text-yellow-500">⚠️ {sumWarning}</p>}
+
+          {/* Add strategy */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Add strategy</label>
+            <div className="flex gap-2">
+              <input
+                value={newStrategy}
+                onChange={(e) => setNewStrategy(e.target.value)}
+                placeholder="0x... strategy address"
+                className="flex-1 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg font-mono text-sm focus:outline-none focus:border-primary-500"
+              />
+              <input
+                value={newAllocation}
+                onChange={(e) => setNewAllocation(e.target.value)}
+                placeholder="bps"
+                className="w-24 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+              />
+              <button
+                onClick={() =>
+                  run(() => admin.addStrategy(newStrategy as `0x${string}`, addBps!))
+                    .then(() => {
+                      setNewStrategy('')
+                      setNewAllocation('')
+                    })
+                    .catch(() => {})
+                }
+                disabled={busy || !newStrategy || !newAllocation || !!addError}
+                className="btn btn-primary"
+              >
+                Add
+              </button>
+            </div>
+            {addError && <p className="text-sm text-red-400 mt-1">{addError}</p>}
+          </div>
+
+          {/* Update allocation */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Update allocation</label>
+            <div className="flex gap-2">
+              <select
+                value={selectedStrategy}
+                onChange={(e) => setSelectedStrategy(e.target.value)}
+                className="flex-1 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg font-mono text-sm focus:outline-none focus:border-primary-500"
+              >
+                <option value="">Select strategy</option>
+                {strategies.map((s) => (
+                  <option key={s.address} value={s.address}>
+                    {shortAddress(s.address)} ({s.allocation.toString()} bps)
+                  </option>
+                ))}
+              </select>
+              <input
+                value={updatedAllocation}
+                onChange={(e) => setUpdatedAllocation(e.target.value)}
+                placeholder="bps"
+                className="w-24 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+              />
+              <button
+                onClick={() =>
+                  run(() => admin.updateAllocation(selectedStrategy as `0x${string}`, updateBps!))
+                    .then(() => setUpdatedAllocation(''))
+                    .catch(() => {})
+                }
+                disabled={busy || !selectedStrategy || !updatedAllocation || !!updateError}
+                className="btn btn-primary"
+              >
+                Update
+              </button>
+            </div>
+            {updateError && <p className="text-sm text-red-400 mt-1">{updateError}</p>}
+          </div>
+        </Section>
+      )}
+
+      {roles.managerAdmin && strategies.length > 0 && (
+        <Section title="Reweight portfolio">
+          <AllocationEditor strategies={strategies} />
+        </Section>
+      )}
+
+      {roles.managerAdmin && (
+        <Section title="Rebalancing parameters">
+          <ParamForm
+            label="Deviation threshold (bps)"
+            current={settings.deviationThreshold !== undefined ? `${settings.deviationThreshold} bps` : '—'}
+            placeholder="500"
+            validate={(value) => {
+              const bps = parseBps(value)
+              return bps === undefined ? 'Must be a whole number of basis points' : validateDeviationThreshold(bps)
+            }}
+            onSubmit={(value) => run(() => admin.setDeviationThreshold(parseBps(value)!))}
+            disabled={busy}
+          />
+          <ParamForm
+            label="Minimum rebalance amount (USDC)"
+            current={formatUsdc(settings.minRebalanceAmount)}
+            placeholder="100"
+            validate={(value) => (parseUsdc(value) === undefined ? 'Must be a USDC amount' : undefined)}
+            onSubmit={(value) => run(() => admin.setMinRebalanceAmount(parseUsdc(value)!))}
+            disabled={busy}
+          />
+          <ParamForm
+            label="Price oracle"
+            current={settings.priceOracle ? shortAddress(settings.priceOracle) : '—'}
+            placeholder="0x..."
+            // setPriceOracle accepts the zero address to disable USD valuation
+            validate={(value) => (/^0x0{40}$/i.test(value) ? undefined : validateAddress(value))}
+            onSubmit={(value) => run(() => admin.setPriceOracle(value as `0x${string}`))}
+            disabled={busy}
+          />
+        </Section>
+      )}
+
+      {(roles.vaultAdmin || roles.guardian) && (
+        <Section title="Vault">
+          {roles.vaultAdmin && (
+            <>
+              <ParamForm
+                label="TVL cap (USDC)"
+                current={formatUsdc(settings.tvlCap)}
+                placeholder="10000"
+                validate={(value) => (parseUsdc(value) === undefined ? 'Must be a USDC amount' : undefined)}
+                onSubmit={(value) => run(() => admin.updateTVLCap(parseUsdc(value)!))}
+                disabled={busy}
+              />
+              <ParamForm
+                label="Strategy manager"
+                current={settings.strategyManager ? shortAddress(settings.strategyManager) : '—'}
+                placeholder="0x..."
+                validate={validateAddress}
+                onSubmit={(value) => run(() => admin.setStrategyManager(value as `0x${string}`))}
+                disabled={busy}
+              />
+            </>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">
+              Status:{' '}
+              <span className={settings.paused ? 'text-red-400' : 'text-green-400'}>
+                {settings.paused ? 'Paused' : 'Active'}
+              </span>
+            </span>
+            {settings.paused
+              ? roles.vaultAdmin && (
+                  <button onClick={() => run(admin.unpause).catch(() => {})} disabled={busy} className="btn btn-primary">
+                    Unpause
+                  </button>
+                )
+              : roles.guardian && (
+                  <button
+                    onClick={() => run(admin.pause).catch(() => {})}
+                    disabled={busy}
+                    className="btn bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Pause
+                  </button>
+                )}
+          </div>
+        </Section>
+      )}
+
+      {busy && <p className="text-sm text-gray-400">⏳ Waiting for transaction...</p>}
+      {!busy && admin.error && <p className="text-sm text-red-400">❌ {decodeContractError(admin.error, decimals)}</p>}
+    </div>
+  )
+}
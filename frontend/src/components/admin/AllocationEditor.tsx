@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { useAllocationBatch, type BatchStepStatus } from '../../hooks/useAllocationBatch'
+import { useAssetDecimals } from '../../hooks/useProtocolSnapshot'
+import { formatBps, formatUsd, tokenAmount } from '../../lib/amount'
+import { BPS_DENOMINATOR } from '../../lib/rebalance'
+import { diffAllocations, estimateCapitalMovement, totalAllocation } from '../../lib/allocationPlan'
+import type { StrategyAllocation } from '../../lib/validation'
+
+interface AllocationEditorProps {
+  strategies: StrategyAllocation[]
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const STATUS_LABELS: Record<BatchStepStatus, string> = {
+  pending: '⏸ Pending',
+  submitting: '✍️ Awaiting signature',
+  confirming: '⏳ Confirming',
+  confirmed: '✅ Confirmed',
+  failed: '❌ Failed',
+}
+
+export function AllocationEditor({ strategies }: AllocationEditorProps) {
+  // Only edited strategies are stored; the rest keep their on-chain value
+  const [targets, setTargets] = useState<Record<`0x${string}`, bigint>>({})
+  const queryClient = useQueryClient()
+  const batch = useAllocationBatch()
+  const decimals = useAssetDecimals()
+  const formatUsdc = (value: bigint) => formatUsd(tokenAmount(value, decimals))
+
+  const fullTargets = Object.fromEntries(
+    strategies.map((s) => [s.address, targets[s.address] ?? s.allocation]),
+  ) as Record<`0x${string}`, bigint>
+  const total = totalAllocation(fullTargets)
+  const changes = diffAllocations(strategies, fullTargets)
+  const { movements, moved } = estimateCapitalMovement(strategies, fullTargets)
+
+  const setTarget = (strategy: `0x${string}`, value: string) => {
+    if (!/^\d*$/.test(value)) return
+    const bps = value === '' ? 0n : BigInt(value)
+    setTargets((prev) => ({ ...prev, [strategy]: bps > BPS_DENOMINATOR ? BPS_DENOMINATOR : bps }))
+  }
+
+  const finish = (success: boolean, message: string) => {
+    queryClient.invalidateQueries()
+    if (success) {
+      toast.success(message)
+      setTargets({})
+    } else {
+      toast.error('An allocation update failed — resume or roll back')
+    }
+  }
+
+  const handleApply = async () => finish(await batch.apply(changes), 'Allocations updated')
+  const handleResume = async () =>
+    finish(await batch.resume(), batch.mode === 'rollback' ? 'Allocations restored' : 'Allocations updated')
+  const handleRollback = async () => finish(await batch.rollback(), 'Allocations restored')
+
+  const blockedReason = batch.isRunning
+    ? 'A batch is in progress'
+    : batch.failed
+      ? 'Resume or roll back the failed batch first'
+      : changes.length === 0
+        ? 'No changes'
+        : total !== BPS_DENOMINATOR
+          ? `Allocations must total 10000 bps (currently ${total})`
+          : undefined
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {strategies.map((s, i) => {
+          const target = fullTargets[s.address]
+          const change = target - s.allocation
+          const movement = movements[i]
+          return (
+            <div key={s.address} className="p-3 bg-dark-700/50 rounded-lg">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-mono text-xs text-gray-400">{shortAddress(s.address)}</span>
+                <span>
+                  {formatBps(s.allocation)}% →{' '}
+                  <span className={change === 0n ? '' : change > 0n ? 'text-green-400' : 'text-red-400'}>
+                    {formatBps(target)}%
+                  </span>
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={0}
+                  max={Number(BPS_DENOMINATOR)}
+                  step={50}
+                  value={Number(target)}
+                  onChange={(e) => setTarget(s.address, e.target.value)}
+                  disabled={batch.isRunning}
+                  className="flex-1 accent-primary-500"
+                />
+                <input
+                  value={target.toString()}
+                  onChange={(e) => setTarget(s.address, e.target.value)}
+                  disabled={batch.isRunning}
+                  className="w-20 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-right text-sm focus:outline-none focus:border-primary-500"
+                />
+              </div>
+              <div className="flex justify-between text-xs text-gray-400 mt-2">
+                <span>
+                  {formatUsdc(movement.currentValue)} → {formatUsdc(movement.targetValue)}
+                </span>
+                {movement.delta !== 0n && (
+                  <span className={movement.delta > 0n ? 'text-green-400' : 'text-red-400'}>
+                    {movement.delta > 0n ? '+' : '-'}
+                    {formatUsdc(movement.delta > 0n ? movement.delta : -movement.delta)}
+                  </span>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap justify-between text-sm">
+        <span className={total === BPS_DENOMINATOR ? 'text-gray-400' : 'text-red-400'}>
+          Total: {total.toString()} / 10000 bps
+        </span>
+        <span className="text-gray-400">Estimated capital movement on next rebalance: {formatUsdc(moved)}</span>
+      </div>
+
+      {batch.steps.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{batch.mode === 'rollback' ? 'Rollback' : 'Update'} sequence</p>
+          {batch.steps.map((step, i) => (
+            <div key={`${step.strategy}-${i}`} className="flex justify-between items-center text-sm p-2 bg-dark-700/50 rounded">
+              <span>
+                {i + 1}. <span className="font-mono text-xs">{shortAddress(step.strategy)}</span>{' '}
+                {step.from.toString()} → {step.to.toString()} bps
+              </span>
+              <span className="text-right">
+                {STATUS_LABELS[step.status]}
+                {step.error && <span className="block text-xs text-red-400">{step.error}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {batch.failed && !batch.isRunning ? (
+          <>
+            <button onClick={handleResume} className="btn btn-primary">
+              Resume
+            </button>
+            {batch.mode === 'apply' && batch.steps.some((s) => s.status === 'confirmed') && (
+              <button onClick={handleRollback} className="btn btn-secondary">
+                Roll back
+              </button>
+            )}
+            <button onClick={batch.clear} className="btn btn-secondary">
+              Dismiss
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={handleApply} disabled={!!blockedReason} title={blockedReason} className="btn btn-primary">
+              {batch.isRunning ? '⏳ Applying...' : `Apply ${changes.length} update${changes.length === 1 ? '' : 's'}`}
+            </button>
+            <button onClick={() => setTargets({})} disabled={batch.isRunning || changes.length === 0} className="btn btn-secondary">
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+      {blockedReason && !batch.failed && changes.length > 0 && (
+        <p className="text-sm text-yellow-500">⚠️ {blockedReason}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { useRoleReport } from '../../hooks/useRoles'
+import { useBlockTimestamps } from '../../hooks/useTransactionHistory'
+import { byPosition } from '../../lib/eventIndexer'
+import { roleName } from '../../lib/roles'
+import type { RoleRisk } from '../../lib/accessControl'
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const SEVERITY_STYLES: Record<RoleRisk['severity'], string> = {
+  high: 'bg-red-500/10 text-red-400',
+  medium: 'bg-yellow-500/10 text-yellow-500',
+  low: 'bg-dark-700 text-gray-400',
+}
+
+export function RoleExplorer() {
+  const [showTimeline, setShowTimeline] = useState(false)
+  const { report, isLoading, error } = useRoleReport()
+
+  const timeline = report ? report.contracts.flatMap((c) => c.timeline).sort(byPosition).reverse() : []
+  const timestamps = useBlockTimestamps(showTimeline ? timeline.map((e) => e.blockNumber) : [])
+
+  // Matrix columns: every (contract, role) pair that has at least one member
+  const columns = report
+    ? report.contracts.flatMap((contract) =>
+        Object.keys(contract.roles).map((role) => ({ contract, role: role as `0x${string}` })),
+      )
+    : []
+  const accounts = report ? Object.keys(report.accountTypes) as `0x${string}`[] : []
+  const labels = report
+    ? Object.fromEntries(report.contracts.map((c) => [c.address.toLowerCase(), c.name]))
+    : {}
+  const accountLabel = (account: string) => labels[account.toLowerCase()] ?? shortAddress(account)
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold">Permissions</h3>
+        <button onClick={() => setShowTimeline(!showTimeline)} className="btn btn-secondary text-sm">
+          {showTimeline ? 'Show matrix' : 'Show timeline'}
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-center py-8 text-red-400">Failed to load role events</p>
+      ) : isLoading || !report ? (
+        <p className="text-center py-8 text-gray-400">⏳ Loading roles...</p>
+      ) : (
+        <div className="space-y-6">
+          {report.risks.length > 0 && (
+            <div className="space-y-2">
+              {report.risks.map((risk) => (
+                <div key={`${risk.id}-${risk.contract}-${risk.account}`} className={`p-3 rounded-lg text-sm ${SEVERITY_STYLES[risk.severity]}`}>
+                  <span className="uppercase text-xs font-bold mr-2">{risk.severity}</span>
+                  {risk.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showTimeline ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-dark-700">
+                  <th className="py-2 font-medium">Time</th>
+                  <th className="py-2 font-medium">Contract</th>
+                  <th className="py-2 font-medium">Change</th>
+                  <th className="py-2 font-medium">Account</th>
+                  <th className="py-2 font-medium">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timeline.map((event) => (
+                  <tr key={`${event.transactionHash}-${event.logIndex}`} className="border-b border-dark-700/50">
+                    <td className="py-2 text-gray-400">
+                      {timestamps.has(event.blockNumber)
+                        ? new Date(timestamps.get(event.blockNumber)! * 1000).toLocaleString()
+                        : `#${event.blockNumber}`}
+                    </td>
+                    <td className="py-2">{accountLabel(event.contract)}</td>
+                    <td className="py-2">
+                      <span className={event.eventName === 'RoleGranted' ? 'text-green-400' : 'text-red-400'}>
+                        {event.eventName === 'RoleGranted' ? 'Granted' : 'Revoked'}
+                      </span>{' '}
+                      {roleName(event.args.role)}
+                    </td>
+                    <td className="py-2 font-mono text-xs">{accountLabel(event.args.account)}</td>
+                    <td className="py-2 font-mono text-xs text-gray-400">{accountLabel(event.args.sender)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-dark-700">
+                    <th className="py-2 font-medium">Account</th>
+                    {columns.map(({ contract, role }) => (
+                      <th key={`${contract.address}-${role}`} className="py-2 px-2 font-medium text-center">
+                        <span className="block">{contract.name}</span>
+                        <span className="block text-xs font-normal">{roleName(role).replace('_ROLE', '')}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map((account) => (
+                    <tr key={account} className="border-b border-dark-700/50">
+                      <td className="py-2">
+                        <span className="font-mono text-xs">{accountLabel(account)}</span>
+                        <span className="ml-2 text-xs text-gray-500">{report.accountTypes[account] === 'eoa' ? 'EOA' : 'contract'}</span>
+                      </td>
+                      {columns.map(({ contract, role }) => (
+                        <td key={`${contract.address}-${role}`} className="py-2 text-center">
+                          {contract.roles[role].some((m) => m.account === account) ? '✅' : ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.contracts
+                .filter((c) => !c.accessControlled)
+                .map((c) => (
+                  <p key={c.address} className="text-xs text-gray-500 mt-3">
+                    {c.name} ({shortAddress(c.address)}) does not implement AccessControl
+                  </p>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { useProtocolAlerts } from '../../hooks/useProtocolAlerts'
+import type { AlertSeverity } from '../../lib/alerts'
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  critical: '🚨',
+  warning: '⚠️',
+  info: 'ℹ️',
+}
+
+// Bell in the header with the session's protocol alerts
+export function AlertCenter() {
+  const [isOpen, setIsOpen] = useState(false)
+  const { alerts, unread, markRead, clear, browserNotifications } = useProtocolAlerts()
+
+  const toggle = () => {
+    if (!isOpen) markRead()
+    setIsOpen((open) => !open)
+  }
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        onClick={toggle}
+        title="Protocol alerts"
+        className="relative px-3 py-2 bg-dark-800 hover:bg-dark-700 border border-dark-700 rounded-lg text-sm transition-colors"
+      >
+        🔔
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 rounded-full text-xs font-medium flex items-center justify-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-96 p-3 bg-dark-800 border border-dark-700 rounded-lg shadow-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Protocol alerts</h3>
+            {alerts.length > 0 && (
+              <button onClick={clear} className="text-xs text-gray-400 hover:text-gray-300">
+                Clear
+              </button>
+            )}
+          </div>
+
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-400">No alerts since this page was opened</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto space-y-2">
+              {/* Threshold alerts keep their rule id as the dedup key and can fire again, so the block tells them apart */}
+              {alerts.map((alert) => (
+                <li key={`${alert.key}:${alert.blockNumber}`} className="p-2 bg-dark-700/50 rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{SEVERITY_ICONS[alert.severity]}</span>
+                    <span className="flex-1 font-medium">{alert.title}</span>
+                    <span className="text-xs text-gray-400">#{alert.blockNumber.toString()}</span>
+                  </div>
+                  <p className="mt-1 text-gray-400 break-words">{alert.message}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {browserNotifications.supported && (
+            <label className="flex items-center gap-2 pt-2 border-t border-dark-700 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={browserNotifications.enabled}
+                onChange={(e) => void browserNotifications.setEnabled(e.target.checked)}
+              />
+              Browser notifications while this tab is in the background
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+export interface ChartPoint {
+  x: number
+  y: number
+}
+
+export interface ChartSeries {
+  label: string
+  color: string
+  points: ChartPoint[]
+}
+
+interface LineChartProps {
+  series: ChartSeries[]
+  formatX: (x: number) => string
+  formatY: (y: number) => string
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = { top: 10, right: 10, bottom: 24, left: 70 }
+
+export function LineChart({ series, formatX, formatY, height = 220 }: LineChartProps) {
+  const points = series.flatMap((s) => s.points)
+  if (points.length === 0) {
+    return <div className="text-center py-12 text-gray-400">No data for this range</div>
+  }
+
+  const minX = Math.min(...points.map((p) => p.x))
+  const maxX = Math.max(...points.map((p) => p.x))
+  let minY = Math.min(...points.map((p) => p.y))
+  let maxY = Math.max(...points.map((p) => p.y))
+  // Keep flat series (e.g. a share price that has not moved) in the middle
+  if (minY === maxY) {
+    minY -= Math.abs(minY) * 0.01 || 1
+    maxY += Math.abs(maxY) * 0.01 || 1
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const scaleX = (x: number) => PADDING.left + (maxX === minX ? plotWidth / 2 : ((x - minX) / (maxX - minX)) * plotWidth)
+  const scaleY = (y: number) => PADDING.top + plotHeight - ((y - minY) / (maxY - minY)) * plotHeight
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {/* Axes labels */}
+        <text x={PADDING.left - 8} y={PADDING.top + 10} textAnchor="end" className="fill-gray-400 text-[10px]">
+          {formatY(maxY)}
+        </text>
+        <text x={PADDING.left - 8} y={PADDING.top + plotHeight} textAnchor="end" className="fill-gray-400 text-[10px]">
+          {formatY(minY)}
+        </text>
+        <text x={PADDING.left} y={height - 6} className="fill-gray-400 text-[10px]">
+          {formatX(minX)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" className="fill-gray-400 text-[10px]">
+          {formatX(maxX)}
+        </text>
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={PADDING.top + plotHeight}
+          y2={PADDING.top + plotHeight}
+          className="stroke-dark-600"
+        />
+
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              points={s.points.map((p) => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')}
+            />
+            {s.points.map((p) => (
+              <circle key={p.x} cx={scaleX(p.x)} cy={scaleY(p.y)} r={3} fill={s.color} fillOpacity={0}>
+                <title>{`${s.label}: ${formatY(p.y)} · ${formatX(p.x)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-2">
+              <span className="w-3 h-0.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { useProtocolSnapshot } from '../../hooks/useProtocolSnapshot'
+import { useBlockTimestamps, useTransactionHistory } from '../../hooks/useTransactionHistory'
+import { formatAmount, formatUsd, tokenAmount } from '../../lib/amount'
+import type { LedgerEntryType } from '../../lib/ledger'
+
+const PAGE_SIZE = 10
+
+const ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdraw',
+  transferIn: 'Transfer in',
+  transferOut: 'Transfer out',
+}
+
+interface ActivityRow {
+  id: string
+  blockNumber: bigint
+  transactionHash: `0x${string}`
+  label: string
+  detail: string
+  amount?: bigint
+  pnl?: bigint
+}
+
+const pnlClass = (value: bigint) => (value > 0n ? 'text-green-400' : value < 0n ? 'text-red-400' : '')
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`
+
+export function ActivityTable() {
+  const [view, setView] = useState<'mine' | 'protocol'>('mine')
+  const [page, setPage] = useState(0)
+
+  const { address } = useAccount()
+  const { vaultEvents, managerEvents, ledger, currentValue, unrealizedPnl, isLoading, error } =
+    useTransactionHistory(address)
+  const vault = useProtocolSnapshot().data?.vault
+  const assetDecimals = vault?.assetDecimals
+  const shareDecimals = vault?.decimals
+
+  const formatAsset = (value: bigint) => formatUsd(tokenAmount(value, assetDecimals))
+  const formatPnl = (value: bigint) => (value > 0n ? `+${formatAsset(value)}` : formatAsset(value))
+
+  const rows = useMemo<ActivityRow[]>(() => {
+    if (view === 'mine') {
+      return (ledger?.entries ?? []).map((entry) => ({
+        id: `${entry.transactionHash}-${entry.logIndex}`,
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+        label: ENTRY_LABELS[entry.type],
+        // Prices are per 1e18 share units, i.e. per whole share
+        detail: `${formatAmount(tokenAmount(entry.shares, shareDecimals), { maximumFractionDigits: 4 })} shares @ ${formatUsd(tokenAmount(entry.pricePerShare, assetDecimals))}`,
+        amount: entry.assets,
+        pnl: entry.type === 'withdraw' ? entry.realizedPnl : undefined,
+      }))
+    }
+
+    const protocolRows: (ActivityRow & { logIndex: number })[] = []
+    for (const event of vaultEvents) {
+      if (event.eventName === 'Transfer') continue
+      protocolRows.push({
+        id: `${event.transactionHash}-${event.logIndex}`,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        label: event.eventName,
+        detail: `${event.args.user.slice(0, 6)}...${event.args.user.slice(-4)}`,
+        amount: event.args.assets,
+      })
+    }
+    for (const event of managerEvents) {
+      protocolRows.push({
+        id: `${event.transactionHash}-${event.logIndex}`,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        label: event.eventName,
+        detail: event.eventName === 'Rebalanced'
+          ? 'Portfolio rebalanced'
+          : `${event.args.strategy.slice(0, 6)}...${event.args.strategy.slice(-4)}`,
+        amount: event.eventName === 'Rebalanced' ? event.args.totalValue : event.args.amount,
+      })
+    }
+    return protocolRows.sort((a, b) =>
+      a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+    )
+  }, [view, ledger, vaultEvents, managerEvents, assetDecimals, shareDecimals])
+
+  // Newest first
+  const ordered = useMemo(() => [...rows].reverse(), [rows])
+  const pageCount = Math.max(1, Math.ceil(ordered.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageRows = ordered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+  const timestamps = useBlockTimestamps(pageRows.map((row) => row.blockNumber))
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold">Activity</h3>
+        <div className="flex gap-2">
+          {(['mine', 'protocol'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setView(option)
+                setPage(0)
+              }}
+              className={`btn ${view === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
+            >
+              {option === 'mine' ? 'Your activity' : 'Protocol'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Position P&L */}
+      {view === 'mine' && ledger && (
+        <div className="grid md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Cost Basis</p>
+            <p className="text-lg font-bold">{formatAsset(ledger.costBasis)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Current Value</p>
+            <p className="text-lg font-bold">{currentValue !== undefined ? formatAsset(currentValue) : '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Unrealized P&L</p>
+            <p className={`text-lg font-bold ${unrealizedPnl !== undefined ? pnlClass(unrealizedPnl) : ''}`}>
+              {unrealizedPnl !== undefined ? formatPnl(unrealizedPnl) : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Realized P&L</p>
+            <p className={`text-lg font-bold ${pnlClass(ledger.realizedPnl)}`}>{formatPnl(ledger.realizedPnl)}</p>
+          </div>
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-center py-8 text-red-400">Failed to load activity</p>
+      ) : isLoading ? (
+        <p className="text-center py-8 text-gray-400">⏳ Scanning event logs...</p>
+      ) : pageRows.length === 0 ? (
+        <p className="text-center py-8 text-gray-400">No activity yet</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-dark-700">
+                  <th className="py-2 font-medium">Type</th>
+                  <th className="py-2 font-medium">Details</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium text-right">P&L</th>
+                  <th className="py-2 font-medium text-right">Time</th>
+                  <th className="py-2 font-medium text-right">Tx</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((row) => {
+                  const timestamp = timestamps.get(row.blockNumber)
+                  return (
+                    <tr key={row.id} className="border-b border-dark-700/50">
+                      <td className="py-3 font-medium">{row.label}</td>
+                      <td className="py-3 text-gray-400">{row.detail}</td>
+                      <td className="py-3 text-right">{row.amount !== undefined ? formatAsset(row.amount) : ''}</td>
+                      <td className={`py-3 text-right ${row.pnl !== undefined ? pnlClass(row.pnl) : ''}`}>
+                        {row.pnl !== undefined ? formatPnl(row.pnl) : ''}
+                      </td>
+                      <td className="py-3 text-right text-gray-400">
+                        {timestamp ? new Date(timestamp * 1000).toLocaleString() : `#${row.blockNumber}`}
+                      </td>
+                      <td className="py-3 text-right font-mono text-xs text-gray-400">{shortHash(row.transactionHash)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <span className="text-gray-400">
+              Page {currentPage + 1} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="btn btn-secondary"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="btn btn-secondary"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
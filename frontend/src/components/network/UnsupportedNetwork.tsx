@@ -0,0 +1,39 @@
+import { useSwitchChain } from 'wagmi'
+import toast from 'react-hot-toast'
+import { getDeployedChainIds } from '../../contracts/deployments'
+import { decodeContractError } from '../../lib/errors'
+import { chainName, chains } from '../../lib/wagmi'
+
+export function UnsupportedNetwork({ chainId }: { chainId: number }) {
+  const supported = getDeployedChainIds()
+  const { switchChain, isPending } = useSwitchChain()
+
+  return (
+    <div className="max-w-md mx-auto text-center card">
+      <h2 className="text-2xl font-bold mb-4">Unsupported network</h2>
+      <p className="text-gray-400 mb-6">
+        Meta Index is not deployed on {chainName(chainId)}. Switch your wallet to one of the
+        supported networks to continue.
+      </p>
+      <ul className="space-y-2">
+        {supported.map((id) => (
+          <li key={id} className="flex items-center justify-between px-4 py-2 bg-dark-700 rounded-lg text-sm">
+            <span>
+              {chainName(id)} <span className="text-gray-400">({id})</span>
+            </span>
+            {/* The wallet can only be asked to switch to chains wagmi is configured for */}
+            {chains.some((c) => c.id === id) && (
+              <button
+                onClick={() => switchChain({ chainId: id }, { onError: (error) => toast.error(decodeContractError(error)) })}
+                disabled={isPending}
+                className="btn btn-secondary text-xs"
+              >
+                Switch
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { useAccount, useSwitchChain } from 'wagmi'
+import toast from 'react-hot-toast'
+import { decodeContractError } from '../../lib/errors'
+import { chainName, getActiveChain } from '../../lib/wagmi'
+
+// Shown while the wallet is on another chain than the one this build targets
+// (VITE_CHAIN_ID). Reads still follow the wallet's chain; this only offers the switch.
+export function WrongNetworkBanner() {
+  const { isConnected, chainId } = useAccount()
+  const { switchChain, isPending } = useSwitchChain()
+  const target = getActiveChain()
+
+  if (!isConnected || chainId === undefined || chainId === target.id) return null
+
+  const handleSwitch = () =>
+    switchChain({ chainId: target.id }, { onError: (error) => toast.error(decodeContractError(error)) })
+
+  return (
+    <div className="mb-8 flex flex-wrap items-center justify-between gap-4 px-4 py-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+      <p className="text-sm text-yellow-500">
+        ⚠️ Your wallet is on {chainName(chainId)}, but this app is configured for {target.name}.
+      </p>
+      <button onClick={handleSwitch} disabled={isPending} className="btn btn-primary text-sm">
+        {isPending ? '⏳ Switching...' : `Switch to ${target.name}`}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { decodeContractError } from '../../lib/errors'
+import { useOracleHealth, useSetMockPrice } from '../../hooks/useOracle'
+import { useActiveDeployment } from '../../hooks/useContracts'
+import { useAssetDecimals } from '../../hooks/useProtocolSnapshot'
+import { formatAmount, formatBps, formatUsd, parseAmount, percentBps, tokenAmount } from '../../lib/amount'
+import { BPS_DENOMINATOR } from '../../lib/rebalance'
+import { PRICE_DECIMALS, type FeedStatus } from '../../lib/oracleHealth'
+
+const ANVIL_CHAIN_ID = 31337
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const STATUS_STYLES: Record<FeedStatus, string> = {
+  healthy: 'bg-green-500/10 text-green-400',
+  stale: 'bg-yellow-500/10 text-yellow-500',
+  invalid: 'bg-red-500/10 text-red-400',
+  unavailable: 'bg-red-500/10 text-red-400',
+}
+
+const formatAge = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`
+  return `${(seconds / 86400).toFixed(1)}d`
+}
+
+function MockPriceForm({ oracle, asset }: { oracle: `0x${string}`; asset: `0x${string}` }) {
+  const [price, setPrice] = useState('')
+  const queryClient = useQueryClient()
+  const { setPrice: submit, isPending, isConfirming, isConfirmed } = useSetMockPrice(oracle)
+
+  // Prices feed totalValueUSD and the health checks, so refresh everything
+  useEffect(() => {
+    if (isConfirmed) {
+      toast.success('Mock price updated')
+      queryClient.invalidateQueries()
+    }
+  }, [isConfirmed, queryClient])
+
+  const parsedPrice = parseAmount(price, PRICE_DECIMALS)
+
+  const handleSubmit = async () => {
+    if (parsedPrice === undefined) return
+    try {
+      await submit(asset, parsedPrice)
+      setPrice('')
+    } catch (error) {
+      console.error('Set price error:', error)
+      toast.error(decodeContractError(error))
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <input
+        value={price}
+        onChange={(e) => setPrice(e.target.value)}
+        placeholder="USD"
+        className="w-24 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-sm focus:outline-none focus:border-primary-500"
+      />
+      <button
+        onClick={handleSubmit}
+        disabled={parsedPrice === undefined || isPending || isConfirming}
+        className="btn btn-secondary text-sm"
+      >
+        {isPending || isConfirming ? '⏳' : 'Set'}
+      </button>
+    </div>
+  )
+}
+
+export function OracleHealthPanel() {
+  const { chainId } = useActiveDeployment()
+  const { oracle, health, totalValue, totalValueUSD, totalValueUSDError, isLoading, error } = useOracleHealth()
+
+  const decimals = useAssetDecimals()
+
+  const canSetPrices = chainId === ANVIL_CHAIN_ID && health?.isMock && !!oracle
+
+  // totalValueUSD has PRICE_DECIMALS, totalValue the asset's decimals; percentBps rescales
+  const native = tokenAmount(totalValue, decimals)
+  const usd = tokenAmount(totalValueUSD, PRICE_DECIMALS)
+  const ratioBps = native && usd ? percentBps(usd, native) : undefined
+  const driftBps = ratioBps !== undefined ? ratioBps - BPS_DENOMINATOR : undefined
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold">Price Oracle</h3>
+          {oracle && (
+            <p className="text-sm text-gray-400 font-mono">
+              {shortAddress(oracle)}
+              {health?.isMock && <span className="ml-2 font-sans">(mock)</span>}
+            </p>
+          )}
+        </div>
+        {health && !health.isMock && (
+          <span className="text-sm text-gray-400">Staleness threshold: {formatAge(health.stalenessThreshold)}</span>
+        )}
+      </div>
+
+      {/* USD valuation vs native accounting */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 bg-dark-700/50 rounded-lg">
+          <p className="text-sm text-gray-400 mb-1">totalValue()</p>
+          <p className="text-lg font-bold">
+            {native ? `${formatAmount(native)} USDC` : '—'}
+          </p>
+        </div>
+        <div className="p-4 bg-dark-700/50 rounded-lg">
+          <p className="text-sm text-gray-400 mb-1">totalValueUSD()</p>
+          <p className={`text-lg font-bold ${totalValueUSDError ? 'text-red-400' : ''}`}>
+            {totalValueUSDError
+              ? `Reverts: ${totalValueUSDError}`
+              : formatUsd(usd)}
+          </p>
+        </div>
+        <div className="p-4 bg-dark-700/50 rounded-lg">
+          <p className="text-sm text-gray-400 mb-1">USD drift</p>
+          <p className={`text-lg font-bold ${driftBps !== undefined && driftBps !== 0n ? 'text-yellow-500' : ''}`}>
+            {driftBps !== undefined ? `${formatBps(driftBps)}%` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {!oracle || error ? (
+        <p className="text-center py-8 text-gray-400">{error ? 'Failed to check oracle' : 'No price oracle configured'}</p>
+      ) : isLoading || !health ? (
+        <p className="text-center py-8 text-gray-400">⏳ Checking feeds...</p>
+      ) : health.assets.length === 0 ? (
+        <p className="text-center py-8 text-gray-400">No assets have a price feed</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-dark-700">
+              <th className="py-2 font-medium">Asset</th>
+              <th className="py-2 font-medium text-right">Price</th>
+              <th className="py-2 font-medium">Feed</th>
+              <th className="py-2 font-medium text-right">Age</th>
+              <th className="py-2 font-medium text-right">Decimals</th>
+              <th className="py-2 font-medium text-right">Status</th>
+              {canSetPrices && <th className="py-2" />}
+            </tr>
+          </thead>
+          <tbody>
+            {health.assets.map((asset) => (
+              <tr key={asset.asset} className="border-b border-dark-700/50">
+                <td className="py-2">
+                  {asset.symbol ?? <span className="font-mono text-xs">{shortAddress(asset.asset)}</span>}
+                </td>
+                <td className="py-2 text-right">
+                  {formatUsd(tokenAmount(asset.price, PRICE_DECIMALS), { maximumFractionDigits: PRICE_DECIMALS })}
+                </td>
+                <td className="py-2 font-mono text-xs text-gray-400">{asset.feed ? shortAddress(asset.feed) : '—'}</td>
+                <td className="py-2 text-right">{asset.round ? formatAge(asset.round.age) : '—'}</td>
+                <td className="py-2 text-right">{asset.round?.decimals ?? '—'}</td>
+                <td className="py-2 text-right">
+                  <span className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[asset.status]}`} title={asset.reason}>
+                    {asset.status}
+                  </span>
+                </td>
+                {canSetPrices && (
+                  <td className="py-2 pl-4">
+                    <MockPriceForm oracle={oracle} asset={asset.asset} />
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { useAccount } from 'wagmi'
+import toast from 'react-hot-toast'
+import { usePlayground, useRouterSettings } from '../../hooks/usePlayground'
+import { useMetaIndexClient } from '../../hooks/useMetaIndexClient'
+import { useAssetDecimals } from '../../hooks/useProtocolSnapshot'
+import { useStrategies } from '../../hooks/useStrategies'
+import { formatAmount, formatUsd, parseAmount, tokenAmount } from '../../lib/amount'
+import { decodeContractError } from '../../lib/errors'
+import { PRICE_DECIMALS } from '../../lib/oracleHealth'
+import { validateAddress } from '../../lib/validation'
+
+// MockSwapRouter rates are tokenOut per tokenIn, scaled by 1e18
+const RATE_DECIMALS = 18
+
+const TIME_STEPS = [
+  { label: '+1 hour', seconds: 3600 },
+  { label: '+1 day', seconds: 86_400 },
+  { label: '+7 days', seconds: 7 * 86_400 },
+]
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Inputs are parsed strictly; undefined means "not a valid number"
+const parseBps = (value: string) => (/^\d+$/.test(value.trim()) ? BigInt(value.trim()) : undefined)
+
+const asAddress = (value: string) => (validateAddress(value) ? undefined : (value as `0x${string}`))
+
+const inputClass =
+  'px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg text-sm focus:outline-none focus:border-primary-500'
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="border-t border-dark-700 pt-6">
+      <h4 className="font-medium mb-4">{title}</h4>
+      <div className="space-y-3">{children}</div>
+    </div>
+  )
+}
+
+// Dev-only controls for the anvil mocks; VaultDashboard renders it on chain 31337 only
+export function PlaygroundPanel() {
+  const { address } = useAccount()
+  const sdk = useMetaIndexClient()
+  const decimals = useAssetDecimals()
+  const { details: strategies } = useStrategies()
+  const playground = usePlayground()
+  const usdc = sdk.contracts.usdc.address
+
+  const [faucetTo, setFaucetTo] = useState('')
+  const [faucetAmount, setFaucetAmount] = useState('10000')
+  const [strategy, setStrategy] = useState('')
+  const [yieldAmount, setYieldAmount] = useState('')
+  const [priceAsset, setPriceAsset] = useState('')
+  const [price, setPrice] = useState('')
+  const [tokenIn, setTokenIn] = useState('')
+  const [tokenOut, setTokenOut] = useState('')
+  const [rate, setRate] = useState('')
+  const [slippage, setSlippage] = useState('')
+  const [blocks, setBlocks] = useState('1')
+
+  const { isConfirmed } = playground
+  const busy = playground.isPending || playground.isConfirming || playground.isTraveling
+
+  useEffect(() => {
+    if (isConfirmed) toast.success('Transaction confirmed')
+  }, [isConfirmed])
+
+  // Empty address fields fall back to the connected account / USDC
+  const faucetTarget = faucetTo ? asAddress(faucetTo) : address
+  const priceTarget = priceAsset ? asAddress(priceAsset) : usdc
+  const pairIn = asAddress(tokenIn)
+  const pairOut = asAddress(tokenOut)
+  const router = useRouterSettings(pairIn, pairOut)
+
+  const parsedFaucet = decimals === undefined ? undefined : parseAmount(faucetAmount, decimals)
+  const parsedYield = decimals === undefined ? undefined : parseAmount(yieldAmount, decimals)
+  const parsedPrice = parseAmount(price, PRICE_DECIMALS)
+  const parsedRate = parseAmount(rate, RATE_DECIMALS)
+  const parsedSlippage = parseBps(slippage)
+  const parsedBlocks = parseBps(blocks)
+  const selected = strategies.find((s) => s.address === strategy)
+
+  // Wrap every action with the same error reporting
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error('Playground error:', error)
+      toast.error(decodeContractError(error, decimals))
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold">Local playground</h3>
+          <p className="text-sm text-gray-400">Drives the anvil mocks. Nothing here exists on a real network.</p>
+        </div>
+        <span className="px-2 py-1 text-xs rounded bg-yellow-500/10 text-yellow-500">anvil only</span>
+      </div>
+
+      <div className="space-y-6">
+        <Section title="USDC faucet">
+          <div className="flex gap-2">
+            <input
+              value={faucetTo}
+              onChange={(e) => setFaucetTo(e.target.value)}
+              placeholder={address ? `${shortAddress(address)} (you)` : '0x... recipient'}
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+            <input
+              value={faucetAmount}
+              onChange={(e) => setFaucetAmount(e.target.value)}
+              inputMode="decimal"
+              placeholder="USDC"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.mintAsset(faucetTarget!, parsedFaucet!))}
+              disabled={busy || !faucetTarget || !parsedFaucet}
+              className="btn btn-primary"
+            >
+              Mint
+            </button>
+          </div>
+          {faucetTo && !faucetTarget && <p className="text-sm text-red-400">{validateAddress(faucetTo)}</p>}
+        </Section>
+
+        <Section title="Simulated yield">
+          <div className="flex gap-2">
+            <select value={strategy} onChange={(e) => setStrategy(e.target.value)} className={`flex-1 font-mono ${inputClass}`}>
+              <option value="">Select strategy</option>
+              {strategies.map((s) => (
+                <option key={s.address} value={s.address}>
+                  {s.name} {shortAddress(s.address)}
+                </option>
+              ))}
+            </select>
+            <input
+              value={yieldAmount}
+              onChange={(e) => setYieldAmount(e.target.value)}
+              inputMode="decimal"
+              placeholder="USDC"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.adjustStrategyValue(selected!.address, parsedYield!))}
+              disabled={busy || !selected || !parsedYield}
+              className="btn btn-primary"
+            >
+              Gain
+            </button>
+            <button
+              onClick={() => run(() => playground.adjustStrategyValue(selected!.address, -parsedYield!))}
+              disabled={busy || !selected || !parsedYield || parsedYield > selected.totalValue}
+              className="btn btn-secondary"
+            >
+              Loss
+            </button>
+          </div>
+          {selected && (
+            <p className="text-sm text-gray-400">
+              Current value: {formatUsd(tokenAmount(selected.totalValue, decimals))}
+            </p>
+          )}
+        </Section>
+
+        <Section title="Oracle price">
+          <div className="flex gap-2">
+            <input
+              value={priceAsset}
+              onChange={(e) => setPriceAsset(e.target.value)}
+              placeholder={`${shortAddress(usdc)} (USDC)`}
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+            <input
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              inputMode="decimal"
+              placeholder="USD"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.setPrice(priceTarget!, parsedPrice!))}
+              disabled={busy || !priceTarget || !parsedPrice}
+              className="btn btn-primary"
+            >
+              Set
+            </button>
+          </div>
+          {priceAsset && !priceTarget && <p className="text-sm text-red-400">{validateAddress(priceAsset)}</p>}
+        </Section>
+
+        <Section title="Swap router">
+          <div className="flex gap-2">
+            <input
+              value={tokenIn}
+              onChange={(e) => setTokenIn(e.target.value)}
+              placeholder="0x... token in"
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+            <input
+              value={tokenOut}
+              onChange={(e) => setTokenOut(e.target.value)}
+              placeholder="0x... token out"
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+            <input
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              inputMode="decimal"
+              placeholder="out per in"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.setExchangeRate(pairIn!, pairOut!, parsedRate!))}
+              disabled={busy || !pairIn || !pairOut || parsedRate === undefined}
+              className="btn btn-primary"
+            >
+              Set rate
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+              placeholder="bps"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.setSlippage(parsedSlippage!))}
+              disabled={busy || parsedSlippage === undefined || parsedSlippage > 10_000n}
+              className="btn btn-secondary"
+            >
+              Set slippage
+            </button>
+          </div>
+          {router && (
+            <p className="text-sm text-gray-400">
+              Current rate: {formatAmount(tokenAmount(router.rate, RATE_DECIMALS), { maximumFractionDigits: 6 })} · slippage{' '}
+              {router.slippage.toString()} bps
+            </p>
+          )}
+        </Section>
+
+        <Section title="Time travel">
+          <p className="text-sm text-gray-400">
+            Chain time:{' '}
+            {playground.chainTime === undefined ? '—' : new Date(Number(playground.chainTime) * 1000).toLocaleString()}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {TIME_STEPS.map((step) => (
+              <button
+                key={step.seconds}
+                onClick={() => run(() => playground.increaseTime(step.seconds))}
+                disabled={busy}
+                className="btn btn-secondary text-sm"
+              >
+                {step.label}
+              </button>
+            ))}
+            <input
+              value={blocks}
+              onChange={(e) => setBlocks(e.target.value)}
+              placeholder="blocks"
+              className={`w-24 ${inputClass}`}
+            />
+            <button
+              onClick={() => run(() => playground.mine(Number(parsedBlocks)))}
+              disabled={busy || !parsedBlocks}
+              className="btn btn-secondary text-sm"
+            >
+              Mine blocks
+            </button>
+          </div>
+        </Section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { decodeContractError } from '../../lib/errors'
+import { useAllocationStates, useRebalance } from '../../hooks/useRebalance'
+import { formatBps, formatUsd, percentBps, tokenAmount } from '../../lib/amount'
+import { BPS_DENOMINATOR, absDeviation, type RebalanceAction } from '../../lib/rebalance'
+
+const shortAddress = (address: `0x${string}`) => `${address.slice(0, 10)}...${address.slice(-8)}`
+
+export function PlanStep({
+  index,
+  action,
+  kind,
+  decimals,
+}: {
+  index: number
+  action: RebalanceAction
+  kind: 'Withdraw' | 'Deposit'
+  decimals: number | undefined
+}) {
+  return (
+    <li className="flex items-center justify-between px-3 py-2 bg-dark-700 rounded-lg text-sm">
+      <span className="flex items-center gap-3">
+        <span className="text-gray-400">{index}.</span>
+        <span className={kind === 'Withdraw' ? 'text-red-400' : 'text-green-400'}>{kind}</span>
+        <span className="font-mono text-xs text-gray-400">{shortAddress(action.strategy)}</span>
+      </span>
+      <span className="font-medium">{formatUsd(tokenAmount(action.amount, decimals))}</span>
+    </li>
+  )
+}
+
+export function RebalancePanel() {
+  const {
+    states,
+    deviationThreshold,
+    minRebalanceAmount,
+    totalValue,
+    plan,
+    needsRebalancing,
+    meetsMinimum,
+    decimals,
+    refetchStates,
+  } = useAllocationStates()
+  const { isManager, rebalance, isPending, isConfirming, isConfirmed } = useRebalance()
+
+  useEffect(() => {
+    if (isConfirmed) {
+      toast.success('Rebalance executed!')
+      refetchStates()
+    }
+  }, [isConfirmed, refetchStates])
+
+  const handleRebalance = async () => {
+    try {
+      await rebalance()
+    } catch (error) {
+      console.error('Rebalance error:', error)
+      toast.error(decodeContractError(error))
+    }
+  }
+
+  const canExecute = needsRebalancing && meetsMinimum && !isPending && !isConfirming
+
+  return (
+    <div id="rebalancing" className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold">Rebalancing</h3>
+          <p className="text-sm text-gray-400">
+            Deviation threshold: {formatBps(deviationThreshold)}% · Minimum:{' '}
+            {formatUsd(tokenAmount(minRebalanceAmount, decimals))}
+          </p>
+        </div>
+        {isManager && (
+          <button
+            onClick={handleRebalance}
+            disabled={!canExecute}
+            className="btn btn-primary"
+          >
+            {isPending || isConfirming ? 'Rebalancing...' : 'Execute rebalance'}
+          </button>
+        )}
+      </div>
+
+      {states.length === 0 ? (
+        <div className="text-center py-8 text-gray-400">
+          <p>No capital allocated to strategies yet</p>
+        </div>
+      ) : (
+        <>
+          {/* Allocation States */}
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-dark-700">
+                  <th className="py-2 font-medium">Strategy</th>
+                  <th className="py-2 font-medium text-right">Current</th>
+                  <th className="py-2 font-medium text-right">Target</th>
+                  <th className="py-2 font-medium text-right">Deviation</th>
+                  <th className="py-2 font-medium w-40">Drift vs threshold</th>
+                </tr>
+              </thead>
+              <tbody>
+                {states.map((state) => {
+                  // Share of the threshold used up, in bps; zero when there is no threshold
+                  const drift = percentBps(
+                    { value: absDeviation(state), decimals: 0 },
+                    { value: deviationThreshold, decimals: 0 },
+                  ) ?? 0n
+                  const exceeds = absDeviation(state) > deviationThreshold
+
+                  return (
+                    <tr key={state.strategy} className="border-b border-dark-700/50">
+                      <td className="py-3 font-mono text-xs text-gray-400">{shortAddress(state.strategy)}</td>
+                      <td className="py-3 text-right">{formatBps(state.currentAllocation)}%</td>
+                      <td className="py-3 text-right">{formatBps(state.targetAllocation)}%</td>
+                      <td className={`py-3 text-right ${exceeds ? 'text-yellow-500' : ''}`}>
+                        {state.deviation > 0n ? '+' : ''}{formatBps(state.deviation)}%
+                      </td>
+                      <td className="py-3 pl-4">
+                        <div className="w-full bg-dark-600 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${exceeds ? 'bg-yellow-500' : 'bg-primary-500'}`}
+                            style={{ width: `${formatBps(drift > BPS_DENOMINATOR ? BPS_DENOMINATOR : drift)}%` }}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Rebalance Plan */}
+          <h4 className="font-medium mb-3">Rebalance plan</h4>
+          {!needsRebalancing ? (
+            <p className="text-sm text-gray-400">All strategies are within the deviation threshold.</p>
+          ) : (
+            <>
+              {!meetsMinimum && (
+                <p className="text-sm text-yellow-500 mb-3">
+                  ⚠️ Portfolio value {formatUsd(tokenAmount(totalValue, decimals))} is below the minimum
+                  rebalance amount
+                </p>
+              )}
+              <ol className="space-y-2">
+                {plan.withdrawals.map((action, i) => (
+                  <PlanStep key={`w-${action.strategy}`} index={i + 1} action={action} kind="Withdraw" decimals={decimals} />
+                ))}
+                {plan.deposits.map((action, i) => (
+                  <PlanStep
+                    key={`d-${action.strategy}`}
+                    index={plan.withdrawals.length + i + 1}
+                    action={action}
+                    kind="Deposit"
+                    decimals={decimals}
+                  />
+                ))}
+              </ol>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react'
+import { useAllocationStates } from '../../hooks/useRebalance'
+import {
+  absDeviation,
+  calculateAllocationStates,
+  calculateRebalanceActions,
+  calculateTotals,
+  needsRebalancing,
+  separateActions,
+  type AllocationState,
+  type RebalancePlan,
+  type RebalanceTotals,
+} from '../../lib/rebalance'
+import { allocationSumWarning, validateDeviationThreshold } from '../../lib/validation'
+import { formatBps, formatUsd, parseAmount, toInputValue, tokenAmount } from '../../lib/amount'
+import { PlanStep } from './RebalancePanel'
+
+interface SandboxRow {
+  strategy: `0x${string}`
+  label: string
+  value: string // USDC
+  target: string // basis points
+}
+
+interface Simulation {
+  totalValue: bigint
+  states: AllocationState[]
+  needsRebalancing: boolean
+  plan: RebalancePlan
+  totals: RebalanceTotals
+}
+
+type SimulationResult = Simulation | { totalValue?: bigint; error: string }
+
+const shortAddress = (address: `0x${string}`) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Placeholder addresses for strategies that only exist in the sandbox
+const hypotheticalAddress = (index: number) => `0x${index.toString(16).padStart(40, '0')}` as `0x${string}`
+
+const toRow = (state: AllocationState, decimals: number): SandboxRow => ({
+  strategy: state.strategy,
+  label: shortAddress(state.strategy),
+  value: toInputValue({ value: state.currentValue, decimals }),
+  target: state.targetAllocation.toString(),
+})
+
+const parseBps = (value: string) => (/^\d+$/.test(value) ? BigInt(value) : undefined)
+
+function simulate(rows: readonly SandboxRow[], threshold: bigint, decimals: number): SimulationResult {
+  const values = rows.map((row) => parseAmount(row.value, decimals))
+  const targets = rows.map((row) => parseBps(row.target))
+  if (values.some((v) => v === undefined) || targets.some((t) => t === undefined)) {
+    return { error: 'Enter a USDC value and a whole number of basis points for every strategy' }
+  }
+
+  // Same as the manager: the portfolio value is the sum of the strategy values
+  const totalValue = values.reduce<bigint>((sum, v) => sum + v!, 0n)
+  try {
+    const states = calculateAllocationStates(
+      rows.map((row) => row.strategy),
+      targets as bigint[],
+      values as bigint[],
+      totalValue,
+    )
+    const actions = calculateRebalanceActions(states, totalValue)
+    return {
+      totalValue,
+      states,
+      needsRebalancing: needsRebalancing(states, threshold),
+      plan: separateActions(actions),
+      totals: calculateTotals(actions),
+    }
+  } catch (error) {
+    return { totalValue, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+export function RebalanceSandbox() {
+  const { states, deviationThreshold, minRebalanceAmount, decimals } = useAllocationStates()
+
+  // Until something is edited the sandbox follows the on-chain state
+  const [editedRows, setEditedRows] = useState<SandboxRow[]>()
+  const [editedThreshold, setEditedThreshold] = useState<string>()
+  const [added, setAdded] = useState(0)
+
+  const rows = editedRows ?? (decimals === undefined ? [] : states.map((state) => toRow(state, decimals)))
+  const thresholdInput = editedThreshold ?? deviationThreshold.toString()
+  const threshold = parseBps(thresholdInput) ?? 0n
+
+  const updateRow = (index: number, patch: Partial<SandboxRow>) =>
+    setEditedRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+
+  const addRow = () => {
+    const index = added + 1
+    setAdded(index)
+    setEditedRows([
+      ...rows,
+      { strategy: hypotheticalAddress(index), label: `New strategy ${index}`, value: '0', target: '0' },
+    ])
+  }
+
+  const removeRow = (index: number) => setEditedRows(rows.filter((_, i) => i !== index))
+
+  const reset = () => {
+    setEditedRows(undefined)
+    setEditedThreshold(undefined)
+  }
+
+  const result = rows.length > 0 && decimals !== undefined ? simulate(rows, threshold, decimals) : undefined
+  const formatUsdc = (value: bigint) => formatUsd(tokenAmount(value, decimals))
+  const simulated = result && 'states' in result ? result : undefined
+
+  const warnings = [
+    thresholdInput !== '' && parseBps(thresholdInput) === undefined
+      ? 'Threshold must be a whole number of basis points'
+      : validateDeviationThreshold(threshold),
+    allocationSumWarning(rows.map((row) => parseBps(row.target) ?? 0n)),
+    result?.totalValue !== undefined && result.totalValue > 0n && result.totalValue < minRebalanceAmount
+      ? `Total ${formatUsdc(result.totalValue)} is below the minimum rebalance amount of ${formatUsdc(minRebalanceAmount)}`
+      : undefined,
+  ].filter((w): w is string => w !== undefined)
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold">What-if Sandbox</h3>
+          <p className="text-sm text-gray-400">
+            Edit hypothetical values, targets and thresholds; nothing is sent on-chain
+          </p>
+        </div>
+        <button onClick={reset} disabled={!editedRows && editedThreshold === undefined} className="btn btn-secondary">
+          Reset to on-chain
+        </button>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-dark-700">
+              <th className="py-2 font-medium">Strategy</th>
+              <th className="py-2 font-medium">Value (USDC)</th>
+              <th className="py-2 font-medium">Target (bps)</th>
+              <th className="py-2 font-medium text-right">Current</th>
+              <th className="py-2 font-medium text-right">Deviation</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => {
+              const state = simulated?.states[i]
+              const exceeds = state !== undefined && absDeviation(state) > threshold
+              return (
+                <tr key={row.strategy} className="border-b border-dark-700/50">
+                  <td className="py-2 font-mono text-xs text-gray-400">{row.label}</td>
+                  <td className="py-2 pr-2">
+                    <input
+                      value={row.value}
+                      onChange={(e) => updateRow(i, { value: e.target.value })}
+                      className="w-32 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-right focus:outline-none focus:border-primary-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      value={row.target}
+                      onChange={(e) => updateRow(i, { target: e.target.value })}
+                      className="w-20 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-right focus:outline-none focus:border-primary-500"
+                    />
+                  </td>
+                  <td className="py-2 text-right">{state ? `${formatBps(state.currentAllocation)}%` : '—'}</td>
+                  <td className={`py-2 text-right ${exceeds ? 'text-yellow-500' : ''}`}>
+                    {state ? `${state.deviation > 0n ? '+' : ''}${formatBps(state.deviation)}%` : '—'}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => removeRow(i)} className="text-gray-400 hover:text-red-400" title="Remove">
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <button onClick={addRow} className="btn btn-secondary">
+          + Add strategy
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Deviation threshold (bps)
+          <input
+            value={thresholdInput}
+            onChange={(e) => setEditedThreshold(e.target.value)}
+            className="w-20 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-right text-white focus:outline-none focus:border-primary-500"
+          />
+        </label>
+      </div>
+
+      {warnings.map((warning) => (
+        <p key={warning} className="text-sm text-yellow-500 mb-2">
+          ⚠️ {warning}
+        </p>
+      ))}
+
+      {!result ? (
+        <p className="text-sm text-gray-400">Add a strategy to start simulating.</p>
+      ) : 'error' in result ? (
+        <p className="text-sm text-red-400">
+          {result.error === 'InsufficientTotalValue' ? 'Total value is zero; there is nothing to allocate' : result.error}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium">Resulting actions</h4>
+            <span className={`text-sm ${result.needsRebalancing ? 'text-yellow-500' : 'text-green-400'}`}>
+              {result.needsRebalancing ? 'Rebalance needed' : 'Within threshold'}
+            </span>
+          </div>
+          {!result.needsRebalancing && (
+            <p className="text-sm text-gray-400 mb-3">
+              rebalance() would revert with "Rebalancing not needed"; the plan below is what it would move otherwise.
+            </p>
+          )}
+          {result.plan.withdrawals.length + result.plan.deposits.length === 0 ? (
+            <p className="text-sm text-gray-400">Every strategy is exactly on target.</p>
+          ) : (
+            <>
+              <ol className="space-y-2 mb-3">
+                {result.plan.withdrawals.map((action, i) => (
+                  <PlanStep key={`w-${action.strategy}`} index={i + 1} action={action} kind="Withdraw" decimals={decimals} />
+                ))}
+                {result.plan.deposits.map((action, i) => (
+                  <PlanStep
+                    key={`d-${action.strategy}`}
+                    index={result.plan.withdrawals.length + i + 1}
+                    action={action}
+                    kind="Deposit"
+                    decimals={decimals}
+                  />
+                ))}
+              </ol>
+              <div className="flex justify-between text-sm text-gray-400">
+                <span>Total withdrawn: {formatUsdc(result.totals.totalWithdrawals)}</span>
+                <span>Total deposited: {formatUsdc(result.totals.totalDeposits)}</span>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
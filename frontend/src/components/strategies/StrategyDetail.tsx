@@ -0,0 +1,265 @@
+import { useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { useContracts } from '../../hooks/useContracts'
+import { DASHBOARD_HREF } from '../../hooks/useHashRoute'
+import { useAllocationStates, useRebalance } from '../../hooks/useRebalance'
+import { usePauseStrategy, useStrategyDetails } from '../../hooks/useStrategies'
+import { useStrategyHistory } from '../../hooks/useStrategyHistory'
+import { useBlockTimestamps } from '../../hooks/useTransactionHistory'
+import { formatBps, formatUsd, tokenAmount } from '../../lib/amount'
+import { decodeContractError } from '../../lib/errors'
+import type { StrategyEvent } from '../../lib/eventIndexer'
+import { BPS_DENOMINATOR, absDeviation } from '../../lib/rebalance'
+
+const EVENT_LABELS: Record<StrategyEvent['eventName'], string> = {
+  Deposited: 'Deposit',
+  Withdrawn: 'Withdrawal',
+  StrategyPaused: 'Paused',
+  StrategyUnpaused: 'Unpaused',
+}
+
+const pnlClass = (value: bigint) => (value > 0n ? 'text-green-400' : value < 0n ? 'text-red-400' : '')
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const clampBps = (bps: bigint) => (bps > BPS_DENOMINATOR ? BPS_DENOMINATOR : bps)
+
+function Wiring({ label, actual, expected }: { label: string; actual?: `0x${string}`; expected: `0x${string}` }) {
+  const matches = actual !== undefined && sameAddress(actual, expected)
+  return (
+    <div>
+      <p className="text-sm text-gray-400 mb-1">{label}</p>
+      <p className="font-mono text-sm">{actual ? shortAddress(actual) : '—'}</p>
+      {actual && !matches && <p className="text-xs text-red-400">⚠️ Expected {shortAddress(expected)}</p>}
+    </div>
+  )
+}
+
+export function StrategyDetail({ address }: { address: `0x${string}` }) {
+  const contracts = useContracts()
+  const { details, isLoading, error, refetch } = useStrategyDetails(address)
+  const { states, totalValue: portfolioValue, deviationThreshold, decimals } = useAllocationStates()
+  const history = useStrategyHistory(address)
+  const { isManager } = useRebalance()
+  const { pause, unpause, isPending, isConfirming, isConfirmed } = usePauseStrategy()
+  const refetchHistory = history.refetch
+
+  useEffect(() => {
+    if (isConfirmed) {
+      toast.success('Strategy status updated')
+      refetch()
+      refetchHistory()
+    }
+  }, [isConfirmed, refetch, refetchHistory])
+
+  const handleToggle = async () => {
+    if (!details) return
+    try {
+      await (details.isActive ? pause(address) : unpause(address))
+    } catch (error) {
+      console.error('Pause strategy error:', error)
+      toast.error(decodeContractError(error))
+    }
+  }
+
+  const formatAsset = (value: bigint) => formatUsd(tokenAmount(value, decimals))
+  const formatPnl = (value: bigint) => (value > 0n ? `+${formatAsset(value)}` : formatAsset(value))
+
+  const state = states.find((s) => sameAddress(s.strategy, address))
+  const targetValue = details ? (portfolioValue * details.allocation) / BPS_DENOMINATOR : undefined
+  const ordered = [...history.events].reverse()
+  const timestamps = useBlockTimestamps(ordered.map((event) => event.blockNumber))
+
+  if (error) {
+    return (
+      <div className="max-w-6xl mx-auto card text-center py-12">
+        <p className="text-red-400 mb-4">{address} does not implement IStrategy</p>
+        <a href={DASHBOARD_HREF} className="btn btn-secondary">
+          ← Back to dashboard
+        </a>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <a href={DASHBOARD_HREF} className="text-sm text-gray-400 hover:text-white">
+        ← Back to dashboard
+      </a>
+
+      {/* Metadata */}
+      <div className="card">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <h2 className="text-2xl font-bold">{details?.name ?? (isLoading ? 'Loading...' : 'Strategy')}</h2>
+              {details && (
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    details.isActive ? 'bg-green-500/10 text-green-400' : 'bg-yellow-500/10 text-yellow-500'
+                  }`}
+                >
+                  {details.isActive ? 'Active' : 'Paused'}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-400 font-mono">{address}</p>
+          </div>
+          {isManager && details && (
+            <button
+              onClick={handleToggle}
+              disabled={isPending || isConfirming || !details.isRegistered}
+              className={`btn ${details.isActive ? 'btn-secondary' : 'btn-primary'}`}
+            >
+              {isPending || isConfirming ? '⏳ Confirming...' : details.isActive ? 'Pause strategy' : 'Unpause strategy'}
+            </button>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <Wiring label="Asset" actual={details?.asset} expected={contracts.usdc.address} />
+          <Wiring label="Vault" actual={details?.vault} expected={contracts.vault.address} />
+          <Wiring label="Strategy Manager" actual={details?.strategyManager} expected={contracts.strategyManager.address} />
+        </div>
+
+        {details && !details.isActive && (
+          <p className="text-sm text-yellow-500 mt-4">
+            ⚠️ Paused: deposits into this strategy revert, including those made by rebalance(). Withdrawals still work.
+          </p>
+        )}
+        {details && !details.isRegistered && (
+          <p className="text-sm text-yellow-500 mt-4">⚠️ This strategy is not registered with the strategy manager.</p>
+        )}
+      </div>
+
+      {/* Value vs Target */}
+      <div className="card">
+        <h3 className="text-xl font-bold mb-6">Value vs Target</h3>
+        <div className="grid md:grid-cols-4 gap-6 mb-6">
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Current Value</p>
+            <p className="text-2xl font-bold">{details ? formatAsset(details.totalValue) : '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Target Value</p>
+            <p className="text-2xl font-bold">{targetValue !== undefined ? formatAsset(targetValue) : '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Allocation</p>
+            <p className="text-2xl font-bold">{state ? `${formatBps(state.currentAllocation)}%` : '—'}</p>
+            <p className="text-sm text-gray-400">Target {details ? formatBps(details.allocation) : '—'}%</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Deviation</p>
+            <p className={`text-2xl font-bold ${state && absDeviation(state) > deviationThreshold ? 'text-yellow-500' : ''}`}>
+              {state ? `${state.deviation > 0n ? '+' : ''}${formatBps(state.deviation)}%` : '—'}
+            </p>
+            <p className="text-sm text-gray-400">Threshold ±{formatBps(deviationThreshold)}%</p>
+          </div>
+        </div>
+
+        {state && details && (
+          <div className="relative w-full bg-dark-700 rounded-full h-2">
+            <div
+              className="bg-primary-500 h-2 rounded-full"
+              style={{ width: `${formatBps(clampBps(state.currentAllocation))}%` }}
+            />
+            {/* Target marker */}
+            <div
+              className="absolute top-[-4px] w-0.5 h-4 bg-white"
+              style={{ left: `${formatBps(clampBps(details.allocation))}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Performance */}
+      <div className="card">
+        <h3 className="text-xl font-bold mb-6">Performance</h3>
+        <div className="grid md:grid-cols-4 gap-6">
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Net Invested</p>
+            <p className="text-lg font-bold">{history.pnl ? formatAsset(history.pnl.netInvested) : '—'}</p>
+            {history.pnl && (
+              <p className="text-xs text-gray-400">
+                {formatAsset(history.pnl.deposited)} in · {formatAsset(history.pnl.withdrawn)} out
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">P&L</p>
+            <p className={`text-lg font-bold ${history.pnl ? pnlClass(history.pnl.pnl) : ''}`}>
+              {history.pnl ? formatPnl(history.pnl.pnl) : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Portfolio P&L</p>
+            <p className={`text-lg font-bold ${history.portfolioPnl !== undefined ? pnlClass(history.portfolioPnl) : ''}`}>
+              {history.portfolioPnl !== undefined ? formatPnl(history.portfolioPnl) : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-400 mb-1">Share of Portfolio P&L</p>
+            <p className="text-lg font-bold">
+              {history.pnlShare !== undefined ? `${formatBps(history.pnlShare)}%` : '—'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="card">
+        <h3 className="text-xl font-bold mb-6">History</h3>
+        {history.error ? (
+          <p className="text-center py-8 text-red-400">Failed to load strategy events</p>
+        ) : history.isLoading ? (
+          <p className="text-center py-8 text-gray-400">⏳ Scanning event logs...</p>
+        ) : ordered.length === 0 ? (
+          <p className="text-center py-8 text-gray-400">No strategy events yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-dark-700">
+                  <th className="py-2 font-medium">Event</th>
+                  <th className="py-2 font-medium">Details</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium text-right">Time</th>
+                  <th className="py-2 font-medium text-right">Tx</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ordered.map((event) => {
+                  const timestamp = timestamps.get(event.blockNumber)
+                  return (
+                    <tr key={`${event.transactionHash}-${event.logIndex}`} className="border-b border-dark-700/50">
+                      <td className="py-3 font-medium">{EVENT_LABELS[event.eventName]}</td>
+                      <td className="py-3 text-gray-400">
+                        {event.eventName === 'Withdrawn' ? `To ${shortAddress(event.args.recipient)}` : ''}
+                      </td>
+                      <td className="py-3 text-right">
+                        {event.eventName === 'Deposited' || event.eventName === 'Withdrawn'
+                          ? formatAsset(event.args.amount)
+                          : ''}
+                      </td>
+                      <td className="py-3 text-right text-gray-400">
+                        {timestamp ? new Date(timestamp * 1000).toLocaleString() : `#${event.blockNumber}`}
+                      </td>
+                      <td className="py-3 text-right font-mono text-xs text-gray-400">
+                        {shortHash(event.transactionHash)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,20 +1,32 @@
 import { useStrategies } from '../../hooks/useStrategies'
-import { useStrategyAllocation } from '../../hooks/useStrategies'
+import { strategyHref } from '../../hooks/useHashRoute'
+import type { StrategySnapshot } from '../../sdk'
+import { formatBps, formatUsd } from '../../lib/amount'
+import { BPS_DENOMINATOR } from '../../lib/rebalance'
 
-function StrategyCard({ address }: { address: `0x${string}` }) {
-  const { allocation, percentage } = useStrategyAllocation(address)
+function StrategyCard({ strategy }: { strategy: StrategySnapshot }) {
+  const { address, name, isActive } = strategy
+  const width = strategy.allocation > BPS_DENOMINATOR ? BPS_DENOMINATOR : strategy.allocation
 
   return (
-    <div className="bg-dark-700 border border-dark-600 rounded-lg p-4">
+    <a
+      href={strategyHref(address)}
+      className="block bg-dark-700 border border-dark-600 hover:border-primary-500 rounded-lg p-4 transition-colors"
+    >
       <div className="flex items-start justify-between mb-3">
         <div>
-          <h4 className="font-medium mb-1">Strategy</h4>
+          <div className="flex items-center gap-2 mb-1">
+            <h4 className="font-medium">{name}</h4>
+            {!isActive && (
+              <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-500/10 text-yellow-500">Paused</span>
+            )}
+          </div>
           <p className="text-xs text-gray-400 font-mono">
             {address.slice(0, 10)}...{address.slice(-8)}
           </p>
         </div>
         <div className="text-right">
-          <div className="text-2xl font-bold">{percentage.toFixed(1)}%</div>
+          <div className="text-2xl font-bold">{formatBps(strategy.allocation, 1)}%</div>
           <div className="text-xs text-gray-400">Allocation</div>
         </div>
       </div>
@@ -22,15 +34,15 @@ function StrategyCard({ address }: { address: `0x${string}` }) {
       <div className="w-full bg-dark-600 rounded-full h-2">
         <div
           className="bg-primary-500 h-2 rounded-full"
-          style={{ width: `${percentage}%` }}
+          style={{ width: `${formatBps(width)}%` }}
         />
       </div>
-    </div>
+    </a>
   )
 }
 
 export function StrategyList() {
-  const { strategies, totalValue, needsRebalancing } = useStrategies()
+  const { details: strategies, totalValue, needsRebalancing } = useStrategies()
 
   return (
     <div className="card">
@@ -38,13 +50,16 @@ export function StrategyList() {
         <div>
           <h3 className="text-xl font-bold">Active Strategies</h3>
           <p className="text-sm text-gray-400">
-            Total: ${parseFloat(totalValue).toLocaleString()}
+            Total: {formatUsd(totalValue)}
           </p>
         </div>
         {needsRebalancing && (
-          <div className="px-3 py-1 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 text-sm font-medium">
+          <a
+            href="#rebalancing"
+            className="px-3 py-1 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 text-sm font-medium hover:bg-yellow-500/20"
+          >
             ⚠️ Rebalancing needed
-          </div>
+          </a>
         )}
       </div>
 
@@ -68,7 +83,7 @@ export function StrategyList() {
       ) : (
         <div className="grid md:grid-cols-2 gap-4">
           {strategies.map((strategy) => (
-            <StrategyCard key={strategy} address={strategy} />
+            <StrategyCard key={strategy.address} strategy={strategy} />
           ))}
         </div>
       )}
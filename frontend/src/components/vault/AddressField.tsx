@@ -0,0 +1,45 @@
+interface AddressFieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  // Shown while empty: who the field defaults to
+  placeholder: string
+  disabled?: boolean
+  status: {
+    address?: `0x${string}`
+    ensName?: string
+    kind?: 'account' | 'safe' | 'contract'
+    error?: string
+    warning?: string
+    isLoading: boolean
+  }
+}
+
+// Receiver/owner input shared by the deposit and withdraw modals
+export function AddressField({ label, value, onChange, placeholder, disabled, status }: AddressFieldProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">{label}</label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        spellCheck={false}
+        className="w-full px-4 py-2 bg-dark-700 border border-dark-600 rounded-lg font-mono text-sm focus:outline-none focus:border-primary-500"
+      />
+      {status.isLoading ? (
+        <p className="mt-1 text-xs text-gray-400">⏳ Checking address...</p>
+      ) : status.error ? (
+        <p className="mt-1 text-xs text-red-400">{status.error}</p>
+      ) : (
+        <>
+          {status.ensName && status.address && <p className="mt-1 text-xs text-gray-400 font-mono">{status.address}</p>}
+          {status.kind === 'safe' && <p className="mt-1 text-xs text-gray-400">Safe multisig</p>}
+          {status.warning && <p className="mt-1 text-xs text-yellow-500">⚠️ {status.warning}</p>}
+        </>
+      )}
+    </div>
+  )
+}
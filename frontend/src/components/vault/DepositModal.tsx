@@ -1,65 +1,93 @@
-import { useState, useEffect } from 'react'
+import { useCallback, useState, useEffect } from 'react'
 import { useAccount } from 'wagmi'
-import { useVault } from '../../hooks/useVault'
+import { isAddressEqual } from 'viem'
+import { useQueryClient } from '@tanstack/react-query'
 import { useUSDC } from '../../hooks/useUSDC'
+import { useDepositLimits } from '../../hooks/useVault'
+import { useDepositFlow } from '../../hooks/useDepositFlow'
+import { useRecipient } from '../../hooks/useRecipient'
+import type { DepositFlowState } from '../../lib/depositFlow'
+import { validateDeposit } from '../../lib/validation'
+import { formatAmount, parseAmount, toInputValue, tokenAmount } from '../../lib/amount'
 import toast from 'react-hot-toast'
+import { AddressField } from './AddressField'
+import { ZapDeposit } from './ZapDeposit'
+
+type DepositSource = 'asset' | 'zap'
 
 interface DepositModalProps {
   isOpen: boolean
   onClose: () => void
 }
 
+const METHOD_LABELS: Record<DepositFlowState['method'], string> = {
+  direct: 'Deposit',
+  batch: 'Batched approve + deposit',
+  approve: 'Approve, then deposit',
+}
+
+const stageMessage = (flow: DepositFlowState) => {
+  switch (flow.stage) {
+    case 'approving':
+      return flow.hash ? '⏳ Approving USDC...' : '✍️ Confirm the approval in your wallet...'
+    case 'approved':
+      return '✅ USDC approved. Sending deposit...'
+    case 'depositing':
+      return flow.hash ? '⏳ Depositing to vault...' : '✍️ Confirm the deposit in your wallet...'
+    case 'batching':
+      return flow.callsId ? '⏳ Waiting for the batched deposit...' : '✍️ Confirm the batch in your wallet...'
+    case 'confirmed':
+      return '✅ Deposit successful!'
+  }
+}
+
 export function DepositModal({ isOpen, onClose }: DepositModalProps) {
+  const [source, setSource] = useState<DepositSource>('asset')
   const [amount, setAmount] = useState('')
-  const [step, setStep] = useState<'input' | 'approve' | 'deposit'>('input')
+  // Empty means the connected account
+  const [receiverInput, setReceiverInput] = useState('')
 
+  const queryClient = useQueryClient()
   const { address } = useAccount()
-  const { deposit, isPending, isConfirming, isConfirmed } = useVault()
-  const {
-    balance,
-    needsApproval,
-    approve,
-    isPending: isApproving,
-    isConfirming: isApprovingConfirm,
-    isConfirmed: isApproved,
-    refetchAllowance,
-  } = useUSDC(address)
+  const { balance, decimals } = useUSDC(address)
+  const receiverField = useRecipient(receiverInput, 'vault shares')
+  const receiver = receiverInput ? receiverField.address : address
+  // maxDeposit is per receiver; the USDC comes from the connected account either way
+  const limits = useDepositLimits(receiver)
+  const { flow, isRunning, start, resume, discard } = useDepositFlow()
 
   useEffect(() => {
-    if (isApproved && step === 'approve') {
-      setStep('deposit')
-      refetchAllowance()
-    }
-  }, [isApproved, step, refetchAllowance])
-
-  useEffect(() => {
-    if (isConfirmed) {
+    if (flow?.stage === 'confirmed') {
       toast.success('Deposit successful!')
+      queryClient.invalidateQueries()
+      discard()
       onClose()
       setAmount('')
-      setStep('input')
+      setReceiverInput('')
     }
-  }, [isConfirmed, onClose])
+  }, [flow, discard, onClose, queryClient])
+
+  const parsedAmount = decimals === undefined ? undefined : parseAmount(amount, decimals)
+  const validationError = amount ? validateDeposit(parsedAmount, { ...limits, balance: balance?.value }) : undefined
 
   const handleDeposit = async () => {
-    if (!address || !amount) return
-
-    try {
-      if (needsApproval(amount)) {
-        setStep('approve')
-        await approve(amount)
-      } else {
-        setStep('deposit')
-        await deposit(amount, address)
-      }
-    } catch (error) {
-      console.error('Deposit error:', error)
-      toast.error('Transaction failed')
-      setStep('input')
-    }
+    if (!receiver || parsedAmount === undefined) return
+    if (!(await start(parsedAmount, receiver))) toast.error('Deposit failed')
   }
 
-  const isValidAmount = parseFloat(amount) > 0 && parseFloat(amount) <= parseFloat(balance)
+  const handleZapComplete = useCallback(() => {
+    onClose()
+    setReceiverInput('')
+  }, [onClose])
+
+  const handleResume = async () => {
+    if (!(await resume())) toast.error('Deposit failed')
+  }
+
+  const isValidAmount = !!amount && !validationError
+  const isValidReceiver = !!receiver && !receiverField.error
+  // A resumed flow keeps the receiver it was started with
+  const flowReceiver = flow && address && !isAddressEqual(flow.receiver, address) ? flow.receiver : ''
 
   if (!isOpen) return null
 
@@ -79,66 +107,109 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
         </div>
 
         <div className="space-y-4">
-          {/* Amount Input */}
-          <div>
-            <label className="block text-sm font-medium mb-2">Amount (USDC)</label>
-            <input
-              type="number"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              placeholder="0.00"
-              disabled={step !== 'input'}
-              className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
-            />
-            <div className="flex justify-between mt-2 text-sm text-gray-400">
-              <span>Balance: {parseFloat(balance).toFixed(2)} USDC</span>
-              <button
-                onClick={() => setAmount(balance)}
-                className="text-primary-500 hover:text-primary-400"
-              >
-                Max
-              </button>
-            </div>
-          </div>
-
-          {/* Status Messages */}
-          {step === 'approve' && (
-            <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4">
-              <p className="text-sm">
-                {isApproving || isApprovingConfirm ? '⏳ Approving USDC...' : ''}
-                {isApproved ? '✅ USDC Approved! Proceeding to deposit...' : ''}
-              </p>
+          {/* Source Toggle (a resumed deposit flow is always USDC) */}
+          {!flow && (
+            <div className="flex gap-2">
+              {(['asset', 'zap'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSource(option)}
+                  className={`flex-1 btn ${source === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
+                >
+                  {option === 'asset' ? 'USDC' : 'Other token'}
+                </button>
+              ))}
             </div>
           )}
 
-          {step === 'deposit' && (
-            <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4">
-              <p className="text-sm">
-                {isPending || isConfirming ? '⏳ Depositing to vault...' : ''}
-                {isConfirmed ? '✅ Deposit successful!' : ''}
-              </p>
+          {/* Amount Input */}
+          {(source === 'asset' || flow) && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Amount (USDC)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={flow ? formatAmount(tokenAmount(BigInt(flow.amount), decimals)) : amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                disabled={!!flow}
+                className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+              />
+              <div className="flex justify-between mt-2 text-sm text-gray-400">
+                <span>Balance: {formatAmount(balance, { maximumFractionDigits: 2 })} USDC</span>
+                <button
+                  onClick={() => balance && setAmount(toInputValue(balance))}
+                  className="text-primary-500 hover:text-primary-400"
+                >
+                  Max
+                </button>
+              </div>
             </div>
           )}
 
-          {/* Action Buttons */}
-          <div className="flex gap-3">
-            <button
-              onClick={onClose}
-              disabled={isPending || isConfirming || isApproving || isApprovingConfirm}
-              className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              onClick={handleDeposit}
-              disabled={!isValidAmount || isPending || isConfirming || isApproving || isApprovingConfirm}
-              className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
-            >
-              {step === 'input' && 'Deposit'}
-              {step === 'approve' && (isApproving || isApprovingConfirm ? 'Approving...' : 'Approve')}
-              {step === 'deposit' && (isPending || isConfirming ? 'Depositing...' : 'Deposit')}
-            </button>
-          </div>
+          {/* Receiver */}
+          <AddressField
+            label="Receiver of the shares"
+            value={flow ? flowReceiver : receiverInput}
+            onChange={setReceiverInput}
+            placeholder="Your wallet (address or ENS name)"
+            disabled={!!flow}
+            status={flow ? { isLoading: false } : receiverField}
+          />
+
+          {source === 'zap' && !flow ? (
+            <ZapDeposit
+              receiver={isValidReceiver ? receiver : undefined}
+              limits={limits}
+              onClose={onClose}
+              onComplete={handleZapComplete}
+            />
+          ) : (
+            <>
+              {/* Validation */}
+              {!flow && (validationError || limits.paused) && (
+                <p className="text-sm text-yellow-500">{validationError ?? 'Deposits are paused'}</p>
+              )}
+
+              {/* Status Messages */}
+              {flow && (
+                <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4 space-y-1">
+                  <p className="text-xs text-gray-400">{METHOD_LABELS[flow.method]}</p>
+                  <p className="text-sm">{stageMessage(flow)}</p>
+                  {flow.error && <p className="text-sm text-red-400">❌ {flow.error}</p>}
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex gap-3">
+                <button
+                  onClick={flow && !isRunning ? discard : onClose}
+                  disabled={isRunning}
+                  className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                >
+                  {flow && !isRunning ? 'Discard' : 'Cancel'}
+                </button>
+                {flow ? (
+                  <button
+                    onClick={handleResume}
+                    disabled={isRunning}
+                    className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                  >
+                    {/* A flow that is idle without an error was interrupted, e.g. by a reload */}
+                    {isRunning ? 'Processing...' : flow.error ? 'Retry' : 'Continue'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleDeposit}
+                    disabled={!isValidAmount || !isValidReceiver || limits.paused}
+                    className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                  >
+                    Deposit
+                  </button>
+                )}
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
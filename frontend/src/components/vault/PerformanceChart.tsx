@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { useAssetDecimals } from '../../hooks/useProtocolSnapshot'
+import { useVaultHistory } from '../../hooks/useVaultHistory'
+import { toChartNumber } from '../../lib/amount'
+import { LineChart, type ChartSeries } from '../charts/LineChart'
+import { RANGE_SECONDS, type TimeRange } from '../../lib/timeSeries'
+
+const STRATEGY_COLORS = ['#22c55e', '#f59e0b', '#a855f7', '#ec4899', '#14b8a6']
+
+const formatTime = (range: TimeRange) => (timestamp: number) => {
+  const date = new Date(timestamp * 1000)
+  return range === '1D' ? date.toLocaleTimeString() : date.toLocaleDateString()
+}
+
+export function PerformanceChart() {
+  const [range, setRange] = useState<TimeRange>('1W')
+  const [metric, setMetric] = useState<'price' | 'tvl'>('price')
+  const { samples, apy, isLoading, error } = useVaultHistory(range)
+  const decimals = useAssetDecimals()
+  // Chart coordinates are the only place amounts become floats
+  const toY = (value: bigint) => (decimals === undefined ? 0 : toChartNumber({ value, decimals }))
+
+  const series: ChartSeries[] = metric === 'price'
+    ? [{
+        label: 'Price per share',
+        color: '#3b82f6',
+        points: samples.map((s) => ({ x: s.timestamp, y: toY(s.pricePerShare) })),
+      }]
+    : [
+        {
+          label: 'Vault TVL',
+          color: '#3b82f6',
+          points: samples.map((s) => ({ x: s.timestamp, y: toY(s.totalAssets) })),
+        },
+        // Overlay each strategy's totalValue() sampled at the same blocks
+        ...Object.keys(samples[samples.length - 1]?.strategyValues ?? {}).map((strategy, i) => ({
+          label: `${strategy.slice(0, 6)}...${strategy.slice(-4)}`,
+          color: STRATEGY_COLORS[i % STRATEGY_COLORS.length],
+          points: samples.flatMap((s) => {
+            const value = s.strategyValues[strategy as `0x${string}`]
+            return value === undefined ? [] : [{ x: s.timestamp, y: toY(value) }]
+          }),
+        })),
+      ]
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold">Performance</h3>
+          <p className="text-sm text-gray-400">
+            APY ({range}):{' '}
+            <span className={apy === undefined ? '' : apy >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {apy === undefined ? '—' : `${(apy * 100).toFixed(2)}%`}
+            </span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['price', 'tvl'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`btn ${metric === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
+            >
+              {option === 'price' ? 'Share Price' : 'TVL'}
+            </button>
+          ))}
+          <div className="w-px bg-dark-700 mx-1" />
+          {(Object.keys(RANGE_SECONDS) as TimeRange[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`btn ${range === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-center py-12 text-red-400">Failed to load history</p>
+      ) : isLoading || decimals === undefined ? (
+        <p className="text-center py-12 text-gray-400">⏳ Loading history...</p>
+      ) : (
+        <LineChart
+          series={series}
+          formatX={formatTime(range)}
+          formatY={(y) => `$${y.toLocaleString(undefined, { maximumFractionDigits: metric === 'price' ? 4 : 0 })}`}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import toast from 'react-hot-toast'
+import { strategyHref } from '../../hooks/useHashRoute'
+import { usePortfolioBreakdown, useShareAllowance, useShareToken } from '../../hooks/useShareToken'
+import { formatAmount, formatBps, formatUsd, parseAmount, toInputValue, tokenAmount } from '../../lib/amount'
+import { decodeContractError } from '../../lib/errors'
+import { validateAddress, validateShareTransfer } from '../../lib/validation'
+
+type Action = 'transfer' | 'approve'
+
+export function SharePortfolio() {
+  const [action, setAction] = useState<Action>('transfer')
+  const [recipient, setRecipient] = useState('')
+  const [amount, setAmount] = useState('')
+
+  const { address } = useAccount()
+  const { token, balance, transfer, approve, addToWallet, isPending, isConfirming, isConfirmed } = useShareToken(address)
+  const breakdown = usePortfolioBreakdown(address)
+
+  const target = validateAddress(recipient) ? undefined : (recipient as `0x${string}`)
+  const allowance = useShareAllowance(address, action === 'approve' ? target : undefined)
+  const decimals = balance?.decimals
+  const parsedAmount = decimals === undefined ? undefined : parseAmount(amount, decimals)
+  const symbol = token?.symbol ?? 'shares'
+
+  useEffect(() => {
+    if (isConfirmed) {
+      toast.success(action === 'transfer' ? 'Shares sent' : 'Allowance updated')
+      setAmount('')
+    }
+  }, [isConfirmed, action])
+
+  const validationError =
+    !recipient && !amount
+      ? undefined
+      : action === 'transfer'
+        ? validateShareTransfer(recipient, parsedAmount, balance?.value ?? 0n)
+        : validateAddress(recipient) ?? (parsedAmount === undefined ? 'Enter a valid amount' : undefined)
+  const canSubmit = !!target && parsedAmount !== undefined && !validationError && !isPending && !isConfirming
+
+  const handleSubmit = async () => {
+    if (!target || parsedAmount === undefined) return
+    try {
+      await (action === 'transfer' ? transfer(target, parsedAmount) : approve(target, parsedAmount))
+    } catch (error) {
+      console.error('Share token error:', error)
+      toast.error(decodeContractError(error, decimals))
+    }
+  }
+
+  const handleAddToWallet = async () => {
+    try {
+      if (await addToWallet()) toast.success(`${symbol} added to your wallet`)
+    } catch (error) {
+      console.error('watchAsset error:', error)
+      toast.error('Your wallet did not add the token')
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold">Your {symbol}</h3>
+          <p className="text-sm text-gray-400">
+            {formatAmount(balance, { maximumFractionDigits: 4 })} {symbol}
+            {token && <span className="font-mono text-xs ml-2">{token.address}</span>}
+          </p>
+        </div>
+        <button onClick={handleAddToWallet} disabled={!token} className="btn btn-secondary text-sm">
+          Add to wallet
+        </button>
+      </div>
+
+      {/* Position breakdown */}
+      <h4 className="font-medium mb-3">Backed by</h4>
+      {!breakdown || breakdown.total === 0n ? (
+        <p className="text-sm text-gray-400 mb-6">You hold no vault shares yet</p>
+      ) : (
+        <table className="w-full text-sm mb-6">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-dark-700">
+              <th className="py-2 font-medium">Holding</th>
+              <th className="py-2 font-medium text-right">Your slice</th>
+              <th className="py-2 font-medium text-right">Weight</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.slices.map((slice) => (
+              <tr key={slice.strategy ?? 'idle'} className="border-b border-dark-700/50">
+                <td className="py-2">
+                  {slice.strategy ? (
+                    <a href={strategyHref(slice.strategy)} className="hover:text-primary-400">
+                      {slice.name}
+                    </a>
+                  ) : (
+                    <span className="text-gray-400">{slice.name}</span>
+                  )}
+                </td>
+                <td className="py-2 text-right">{formatUsd(tokenAmount(slice.value, breakdown.decimals))}</td>
+                <td className="py-2 text-right">{formatBps(slice.weight)}%</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-2 font-medium">Total</td>
+              <td className="py-2 text-right font-medium">{formatUsd(tokenAmount(breakdown.total, breakdown.decimals))}</td>
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      {/* Transfer / approve */}
+      <div className="flex gap-2 mb-4">
+        {(['transfer', 'approve'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setAction(option)}
+            disabled={isPending || isConfirming}
+            className={`btn ${action === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
+          >
+            {option === 'transfer' ? 'Send shares' : 'Allowances'}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <input
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+          placeholder={action === 'transfer' ? 'Recipient address' : 'Spender address'}
+          className="w-full px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg font-mono text-sm focus:outline-none focus:border-primary-500"
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={action === 'transfer' ? '0.00' : '0 revokes'}
+            className="flex-1 px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+          />
+          {action === 'transfer' && (
+            <button
+              onClick={() => balance && setAmount(toInputValue(balance))}
+              disabled={!balance}
+              className="btn btn-secondary text-sm"
+            >
+              Max
+            </button>
+          )}
+          <button onClick={handleSubmit} disabled={!canSubmit} className="btn btn-primary">
+            {isPending || isConfirming ? '⏳ Confirming...' : action === 'transfer' ? 'Send' : 'Approve'}
+          </button>
+        </div>
+        {action === 'approve' && target && (
+          <p className="text-sm text-gray-400">
+            Current allowance: {formatAmount(tokenAmount(allowance, decimals))} {symbol}
+          </p>
+        )}
+        {validationError && <p className="text-sm text-red-400">{validationError}</p>}
+      </div>
+    </div>
+  )
+}
@@ -2,9 +2,21 @@ import { useState } from 'react'
 import { useAccount } from 'wagmi'
 import { useVault, useVaultBalance } from '../../hooks/useVault'
 import { useStrategies } from '../../hooks/useStrategies'
+import { formatAmount, formatBps, formatUsd, percentBps } from '../../lib/amount'
+import { BPS_DENOMINATOR } from '../../lib/rebalance'
 import { DepositModal } from './DepositModal'
 import { WithdrawModal } from './WithdrawModal'
+import { PerformanceChart } from './PerformanceChart'
+import { SharePortfolio } from './SharePortfolio'
 import { StrategyList } from '../strategies/StrategyList'
+import { RebalancePanel } from '../strategies/RebalancePanel'
+import { RebalanceSandbox } from '../strategies/RebalanceSandbox'
+import { ActivityTable } from '../history/ActivityTable'
+import { OracleHealthPanel } from '../oracle/OracleHealthPanel'
+import { AdminPanel } from '../admin/AdminPanel'
+import { RoleExplorer } from '../admin/RoleExplorer'
+import { PlaygroundPanel } from '../playground/PlaygroundPanel'
+import { useIsPlaygroundChain } from '../../hooks/usePlayground'
 
 export function VaultDashboard() {
   const [showDeposit, setShowDeposit] = useState(false)
@@ -13,9 +25,12 @@ export function VaultDashboard() {
   const { address } = useAccount()
   const { totalAssets, tvlCap } = useVault()
   const { shares, assetsValue } = useVaultBalance(address)
-  const { strategies, totalValue, needsRebalancing } = useStrategies()
+  const { strategies, needsRebalancing } = useStrategies()
+  const isPlaygroundChain = useIsPlaygroundChain()
 
-  const utilizationPercent = (parseFloat(totalAssets) / parseFloat(tvlCap)) * 100
+  // Undefined for a zero cap, which blocks all deposits, instead of NaN
+  const utilization = totalAssets && tvlCap ? percentBps(totalAssets, tvlCap) : undefined
+  const barWidth = utilization === undefined ? 0n : utilization > BPS_DENOMINATOR ? BPS_DENOMINATOR : utilization
 
   return (
     <>
@@ -27,12 +42,12 @@ export function VaultDashboard() {
           <div className="grid md:grid-cols-3 gap-6 mb-6">
             <div>
               <p className="text-sm text-gray-400 mb-1">Total Value Locked</p>
-              <p className="text-3xl font-bold">${parseFloat(totalAssets).toLocaleString()}</p>
+              <p className="text-3xl font-bold">{formatUsd(totalAssets)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-400 mb-1">Your Position</p>
-              <p className="text-3xl font-bold">${parseFloat(assetsValue).toLocaleString()}</p>
-              <p className="text-sm text-gray-400">{parseFloat(shares).toFixed(4)} shares</p>
+              <p className="text-3xl font-bold">{formatUsd(assetsValue)}</p>
+              <p className="text-sm text-gray-400">{formatAmount(shares, { maximumFractionDigits: 4 })} shares</p>
             </div>
             <div>
               <p className="text-sm text-gray-400 mb-1">Strategies Active</p>
@@ -47,12 +62,12 @@ export function VaultDashboard() {
           <div className="mb-6">
             <div className="flex justify-between text-sm mb-2">
               <span className="text-gray-400">Vault Utilization</span>
-              <span>{utilizationPercent.toFixed(1)}%</span>
+              <span>{utilization !== undefined ? `${formatBps(utilization, 1)}%` : '—'}</span>
             </div>
             <div className="w-full bg-dark-700 rounded-full h-2">
               <div
                 className="bg-primary-500 h-2 rounded-full transition-all"
-                style={{ width: `${Math.min(utilizationPercent, 100)}%` }}
+                style={{ width: `${formatBps(barWidth)}%` }}
               />
             </div>
           </div>
@@ -67,7 +82,7 @@ export function VaultDashboard() {
             </button>
             <button
               onClick={() => setShowWithdraw(true)}
-              disabled={parseFloat(shares) === 0}
+              disabled={!shares || shares.value === 0n}
               className="flex-1 px-6 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
             >
               Withdraw
@@ -75,8 +90,33 @@ export function VaultDashboard() {
           </div>
         </div>
 
+        {/* Share token */}
+        <SharePortfolio />
+
+        {/* Performance */}
+        <PerformanceChart />
+
         {/* Strategies */}
         <StrategyList />
+
+        {/* Rebalancing */}
+        <RebalancePanel />
+        <RebalanceSandbox />
+
+        {/* Oracle */}
+        <OracleHealthPanel />
+
+        {/* Activity */}
+        <ActivityTable />
+
+        {/* Permissions */}
+        <RoleExplorer />
+
+        {/* Admin (only rendered for role holders) */}
+        <AdminPanel />
+
+        {/* Local mocks (anvil only) */}
+        {isPlaygroundChain && <PlaygroundPanel />}
       </div>
 
       <DepositModal isOpen={showDeposit} onClose={() => setShowDeposit(false)} />
@@ -1,7 +1,16 @@
-import { useState, useEffect } from 'react'
+import { useCallback, useState, useEffect } from 'react'
 import { useAccount } from 'wagmi'
-import { useVault, useVaultBalance } from '../../hooks/useVault'
+import { useExitLimits, useVault, useVaultBalance, useWithdrawPreview } from '../../hooks/useVault'
+import { useAddressInput, useRecipient } from '../../hooks/useRecipient'
+import { decodeContractError } from '../../lib/errors'
+import { validateWithdraw } from '../../lib/validation'
+import { formatAmount, parseAmount, toInputValue, tokenAmount } from '../../lib/amount'
 import toast from 'react-hot-toast'
+import { AddressField } from './AddressField'
+import { ZapWithdraw } from './ZapWithdraw'
+
+// 'zap' redeems your own shares and swaps the USDC into another token
+type WithdrawMode = 'assets' | 'shares' | 'zap'
 
 interface WithdrawModalProps {
   isOpen: boolean
@@ -10,31 +19,74 @@ interface WithdrawModalProps {
 
 export function WithdrawModal({ isOpen, onClose }: WithdrawModalProps) {
   const [amount, setAmount] = useState('')
+  const [mode, setMode] = useState<WithdrawMode>('assets')
+  // Set by Max: redeem the exact share balance instead of a rounded amount
+  const [fullExit, setFullExit] = useState(false)
+  // Empty means the connected account
+  const [ownerInput, setOwnerInput] = useState('')
+  const [receiverInput, setReceiverInput] = useState('')
 
   const { address } = useAccount()
-  const { withdraw, isPending, isConfirming, isConfirmed } = useVault()
-  const { assetsValue } = useVaultBalance(address)
+  const { withdraw, redeem, isPending, isConfirming, isConfirmed } = useVault()
+  const { shareDecimals, assetDecimals } = useVaultBalance(address)
+
+  const ownerField = useAddressInput(ownerInput)
+  const receiverField = useRecipient(receiverInput, mode === 'zap' ? 'the swapped tokens' : 'USDC')
+  const owner = ownerInput && mode !== 'zap' ? ownerField.address : address
+  const receiver = receiverInput ? receiverField.address : address
+  // Exiting for another owner spends their share allowance to us
+  const { maxWithdraw, maxRedeem, allowance, isDelegated } = useExitLimits(owner, address)
+
+  const decimals = mode === 'assets' ? assetDecimals : shareDecimals
+  const max = mode === 'assets' ? maxWithdraw : maxRedeem
+  const parsedAmount = fullExit ? max : decimals === undefined ? undefined : parseAmount(amount, decimals)
+  const preview = useWithdrawPreview(fullExit || mode !== 'assets' ? 'shares' : 'assets', fullExit ? maxRedeem : parsedAmount)
 
   useEffect(() => {
     if (isConfirmed) {
       toast.success('Withdrawal successful!')
       onClose()
       setAmount('')
+      setFullExit(false)
     }
   }, [isConfirmed, onClose])
 
+  const handleModeChange = (next: WithdrawMode) => {
+    setMode(next)
+    setAmount('')
+    setFullExit(false)
+  }
+
+  const handleZapComplete = useCallback(() => {
+    onClose()
+    setReceiverInput('')
+  }, [onClose])
+
+  const handleMax = () => {
+    if (decimals === undefined) return
+    setAmount(toInputValue({ value: max, decimals }))
+    setFullExit(true)
+  }
+
   const handleWithdraw = async () => {
-    if (!address || !amount) return
+    if (!owner || !receiver || parsedAmount === undefined) return
 
     try {
-      await withdraw(amount, address, address)
+      if (fullExit || mode === 'shares') {
+        await redeem(fullExit ? maxRedeem : parsedAmount, receiver, owner)
+      } else {
+        await withdraw(parsedAmount, receiver, owner)
+      }
     } catch (error) {
       console.error('Withdrawal error:', error)
-      toast.error('Transaction failed')
+      toast.error(decodeContractError(error, assetDecimals))
     }
   }
 
-  const isValidAmount = parseFloat(amount) > 0 && parseFloat(amount) <= parseFloat(assetsValue)
+  const delegated = isDelegated && allowance !== undefined ? { allowance, shares: preview.shares } : undefined
+  const validationError = amount ? validateWithdraw(parsedAmount, max, delegated) : undefined
+  const isValidAmount = !!amount && !validationError
+  const addressesReady = !!owner && !!receiver && !ownerField.error && !receiverField.error
 
   if (!isOpen) return null
 
@@ -54,52 +106,135 @@ export function WithdrawModal({ isOpen, onClose }: WithdrawModalProps) {
         </div>
 
         <div className="space-y-4">
-          {/* Amount Input */}
-          <div>
-            <label className="block text-sm font-medium mb-2">Amount (USDC)</label>
-            <input
-              type="number"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              placeholder="0.00"
-              disabled={isPending || isConfirming}
-              className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
-            />
-            <div className="flex justify-between mt-2 text-sm text-gray-400">
-              <span>Available: {parseFloat(assetsValue).toFixed(2)} USDC</span>
+          {/* Mode Toggle */}
+          <div className="flex gap-2">
+            {(['assets', 'shares', 'zap'] as const).map((option) => (
               <button
-                onClick={() => setAmount(assetsValue)}
-                className="text-primary-500 hover:text-primary-400"
+                key={option}
+                onClick={() => handleModeChange(option)}
+                disabled={isPending || isConfirming}
+                className={`flex-1 btn ${mode === option ? 'btn-primary' : 'btn-secondary'} text-sm`}
               >
-                Max
+                {option === 'assets' ? 'USDC' : option === 'shares' ? 'Shares' : 'Other token'}
               </button>
-            </div>
+            ))}
           </div>
 
-          {/* Status Messages */}
-          {(isPending || isConfirming) && (
-            <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4">
-              <p className="text-sm">⏳ Processing withdrawal...</p>
-            </div>
+          {/* Owner (zaps only redeem your own shares) and Receiver */}
+          {mode !== 'zap' && (
+            <>
+              <AddressField
+                label="Owner"
+                value={ownerInput}
+                onChange={(value) => {
+                  setOwnerInput(value)
+                  setFullExit(false)
+                }}
+                placeholder="Your shares (address or ENS name)"
+                disabled={isPending || isConfirming}
+                status={ownerField}
+              />
+              {isDelegated && allowance !== undefined && (
+                <p className="-mt-2 text-xs text-gray-400">
+                  Share allowance granted to you: {formatAmount(tokenAmount(allowance, shareDecimals))} shares
+                </p>
+              )}
+            </>
           )}
+          <AddressField
+            label="Receiver"
+            value={receiverInput}
+            onChange={setReceiverInput}
+            placeholder="Your wallet (address or ENS name)"
+            disabled={isPending || isConfirming}
+            status={receiverField}
+          />
 
-          {/* Action Buttons */}
-          <div className="flex gap-3">
-            <button
-              onClick={onClose}
-              disabled={isPending || isConfirming}
-              className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              onClick={handleWithdraw}
-              disabled={!isValidAmount || isPending || isConfirming}
-              className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
-            >
-              {isPending || isConfirming ? 'Withdrawing...' : 'Withdraw'}
-            </button>
-          </div>
+          {mode === 'zap' ? (
+            <ZapWithdraw
+              receiver={!receiverField.error ? receiver : undefined}
+              onClose={onClose}
+              onComplete={handleZapComplete}
+            />
+          ) : (
+            <>
+              {/* Amount Input */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Amount ({mode === 'assets' ? 'USDC' : 'shares'})</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value)
+                    setFullExit(false)
+                  }}
+                  placeholder="0.00"
+                  disabled={isPending || isConfirming}
+                  className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+                />
+                <div className="flex justify-between mt-2 text-sm text-gray-400">
+                  <span>
+                    Available: {formatAmount(tokenAmount(max, decimals))} {mode === 'assets' ? 'USDC' : 'shares'}
+                  </span>
+                  <button
+                    onClick={handleMax}
+                    className="text-primary-500 hover:text-primary-400"
+                  >
+                    Max
+                  </button>
+                </div>
+              </div>
+
+              {validationError && <p className="text-sm text-yellow-500">{validationError}</p>}
+
+              {/* Preview */}
+              {isValidAmount && (
+                <div className="bg-dark-700/50 rounded-lg p-4 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">{receiverInput ? 'Receiver gets' : 'You receive'}</span>
+                    <span>{preview.assets !== undefined ? `${formatAmount(tokenAmount(preview.assets, assetDecimals))} USDC` : '...'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Shares burned</span>
+                    <span>{preview.shares !== undefined ? formatAmount(tokenAmount(preview.shares, shareDecimals)) : '...'}</span>
+                  </div>
+                  {fullExit && (
+                    <p className="text-xs text-gray-400">
+                      {isDelegated
+                        ? "Full exit: redeems as many of the owner's shares as your allowance covers"
+                        : 'Full exit: redeems your entire share balance'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Status Messages */}
+              {(isPending || isConfirming) && (
+                <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4">
+                  <p className="text-sm">⏳ Processing withdrawal...</p>
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex gap-3">
+                <button
+                  onClick={onClose}
+                  disabled={isPending || isConfirming}
+                  className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleWithdraw}
+                  disabled={!isValidAmount || !addressesReady || isPending || isConfirming}
+                  className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                >
+                  {isPending || isConfirming ? 'Withdrawing...' : 'Withdraw'}
+                </button>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
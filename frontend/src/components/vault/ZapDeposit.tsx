@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import { useMetaIndexClient } from '../../hooks/useMetaIndexClient'
+import { useSwapQuote, useZapFlow, useZapToken } from '../../hooks/useZap'
+import { formatBps, parseAmount, toInputValue } from '../../lib/amount'
+import {
+  validateAddress,
+  validateDeposit,
+  validateSlippageTolerance,
+  validateZapSwap,
+  type DepositLimits,
+} from '../../lib/validation'
+import { DEFAULT_SLIPPAGE_TOLERANCE, minimumAmountOut } from '../../lib/zap'
+import { QuoteSummary, SlippageField, TokenField, ZapProgress } from './ZapFields'
+
+interface ZapDepositProps {
+  // Resolved receiver of the shares; undefined while the field is invalid
+  receiver: `0x${string}` | undefined
+  limits: DepositLimits
+  onClose: () => void
+  onComplete: () => void
+}
+
+// Deposit from another token: swap it into USDC through the router, then deposit what the swap returned
+export function ZapDeposit({ receiver, limits, onClose, onComplete }: ZapDepositProps) {
+  const [tokenInput, setTokenInput] = useState('')
+  const [amount, setAmount] = useState('')
+  const [tolerance, setTolerance] = useState(formatBps(DEFAULT_SLIPPAGE_TOLERANCE, 1))
+
+  const sdk = useMetaIndexClient()
+  const tokenAddress = validateAddress(tokenInput) ? undefined : (tokenInput as `0x${string}`)
+  const token = useZapToken(tokenAddress)
+  const { flow, isRunning, isComplete, start, resume, reset } = useZapFlow()
+
+  const parsedAmount = token.info ? parseAmount(amount, token.info.decimals) : undefined
+  const toleranceBps = parseAmount(tolerance, 2)
+  const { quote, isLoading: isQuoting } = useSwapQuote(tokenAddress, sdk.contracts.usdc.address, parsedAmount)
+  const minimumOut = quote && toleranceBps !== undefined ? minimumAmountOut(quote.amountOut, toleranceBps) : undefined
+
+  useEffect(() => {
+    if (isComplete) {
+      toast.success('Zap deposit successful!')
+      reset()
+      setAmount('')
+      onComplete()
+    }
+  }, [isComplete, reset, onComplete])
+
+  const isUsdc = tokenAddress?.toLowerCase() === sdk.contracts.usdc.address.toLowerCase()
+  const toleranceError = validateSlippageTolerance(toleranceBps)
+  // The vault's limits apply to the worst case the swap may return
+  const validationError = !tokenInput
+    ? undefined
+    : isUsdc
+      ? 'Deposit USDC directly instead of zapping'
+      : !amount
+        ? validateAddress(tokenInput)
+        : (validateZapSwap(tokenInput, parsedAmount, token.balance, quote) ??
+          (minimumOut === undefined ? undefined : validateDeposit(minimumOut, { ...limits, balance: undefined })))
+  const canZap =
+    !!tokenAddress && !!receiver && !!quote && minimumOut !== undefined && !validationError && !toleranceError && !limits.paused
+
+  const handleZap = async () => {
+    if (!canZap || parsedAmount === undefined) return
+    if (!(await start({ direction: 'in', token: tokenAddress, amountIn: parsedAmount, minimumOut, receiver }))) {
+      toast.error('Zap failed')
+    }
+  }
+
+  const handleResume = async () => {
+    if (!(await resume())) toast.error('Zap failed')
+  }
+
+  return (
+    <>
+      <TokenField label="Pay with" value={tokenInput} onChange={setTokenInput} disabled={!!flow} token={token} />
+
+      <div>
+        <label className="block text-sm font-medium mb-2">Amount ({token.info?.symbol ?? 'token'})</label>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="0.00"
+          disabled={!!flow || !token.info}
+          className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+        />
+        <div className="flex justify-end mt-2 text-sm">
+          <button
+            onClick={() =>
+              token.info && token.balance !== undefined && setAmount(toInputValue({ value: token.balance, decimals: token.info.decimals }))
+            }
+            disabled={!!flow}
+            className="text-primary-500 hover:text-primary-400"
+          >
+            Max
+          </button>
+        </div>
+      </div>
+
+      <SlippageField value={tolerance} onChange={setTolerance} disabled={!!flow} error={tolerance ? toleranceError : undefined} />
+
+      {!flow && (
+        <QuoteSummary
+          quote={quote}
+          isLoading={isQuoting}
+          minimumOut={minimumOut}
+          tokenOut={limits.decimals === undefined ? undefined : { symbol: 'USDC', decimals: limits.decimals }}
+        />
+      )}
+
+      {!flow && validationError && <p className="text-sm text-yellow-500">{validationError}</p>}
+
+      {flow && <ZapProgress steps={flow.steps} error={flow.error} />}
+
+      <div className="flex gap-3">
+        <button
+          onClick={flow && !isRunning ? reset : onClose}
+          disabled={isRunning}
+          className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+        >
+          {flow && !isRunning ? 'Discard' : 'Cancel'}
+        </button>
+        {flow ? (
+          <button
+            onClick={handleResume}
+            disabled={isRunning}
+            className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+          >
+            {isRunning ? 'Processing...' : 'Retry'}
+          </button>
+        ) : (
+          <button
+            onClick={handleZap}
+            disabled={!canZap}
+            className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+          >
+            Swap & deposit
+          </button>
+        )}
+      </div>
+    </>
+  )
+}
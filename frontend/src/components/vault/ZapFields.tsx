@@ -0,0 +1,155 @@
+import type { TokenInfo } from '../../sdk'
+import { formatAmount, formatBps, tokenAmount } from '../../lib/amount'
+import { PRICE_IMPACT_WARNING, type SwapQuote, type ZapStep, type ZapStepName } from '../../lib/zap'
+
+// Shared pieces of the zap forms in the deposit and withdraw modals
+
+const TOLERANCE_PRESETS = [10n, 50n, 100n, 300n]
+
+interface TokenFieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+  token: { info?: TokenInfo; balance?: bigint; error?: string; isLoading: boolean }
+}
+
+export function TokenField({ label, value, onChange, disabled, token }: TokenFieldProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">{label}</label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="0x... token address"
+        disabled={disabled}
+        spellCheck={false}
+        className="w-full px-4 py-2 bg-dark-700 border border-dark-600 rounded-lg font-mono text-sm focus:outline-none focus:border-primary-500"
+      />
+      {token.isLoading ? (
+        <p className="mt-1 text-xs text-gray-400">⏳ Loading token...</p>
+      ) : token.error ? (
+        <p className="mt-1 text-xs text-red-400">{token.error}</p>
+      ) : (
+        token.info && (
+          <p className="mt-1 text-xs text-gray-400">
+            {token.info.symbol} · balance {formatAmount(tokenAmount(token.balance, token.info.decimals), { maximumFractionDigits: 4 })}
+          </p>
+        )
+      )}
+    </div>
+  )
+}
+
+interface SlippageFieldProps {
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+  error?: string
+}
+
+// Tolerance in percent; the forms convert it to bps with parseAmount(value, 2)
+export function SlippageField({ value, onChange, disabled, error }: SlippageFieldProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Slippage tolerance</label>
+      <div className="flex gap-2">
+        {TOLERANCE_PRESETS.map((bps) => (
+          <button
+            key={bps}
+            onClick={() => onChange(formatBps(bps, 1))}
+            disabled={disabled}
+            className={`btn ${value === formatBps(bps, 1) ? 'btn-primary' : 'btn-secondary'} text-sm`}
+          >
+            {formatBps(bps, 1)}%
+          </button>
+        ))}
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="w-20 px-3 py-1 bg-dark-700 border border-dark-600 rounded-lg text-sm focus:outline-none focus:border-primary-500"
+        />
+      </div>
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+interface QuoteSummaryProps {
+  quote: SwapQuote | undefined
+  isLoading: boolean
+  minimumOut: bigint | undefined
+  tokenOut: { symbol: string; decimals: number } | undefined
+}
+
+export function QuoteSummary({ quote, isLoading, minimumOut, tokenOut }: QuoteSummaryProps) {
+  if (isLoading) return <p className="text-sm text-gray-400">⏳ Fetching quote...</p>
+  if (!quote || !tokenOut) return null
+
+  const amount = (value: bigint | undefined) => `${formatAmount(tokenAmount(value, tokenOut.decimals), { maximumFractionDigits: 4 })} ${tokenOut.symbol}`
+  const impact = quote.priceImpactBps
+
+  return (
+    <div className="bg-dark-700/50 rounded-lg p-4 space-y-1 text-sm">
+      <div className="flex justify-between">
+        <span className="text-gray-400">Router quote</span>
+        <span>{amount(quote.amountOut)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">At oracle prices</span>
+        <span>{quote.oracleAmountOut === undefined ? 'No price feed' : amount(quote.oracleAmountOut)}</span>
+      </div>
+      {impact !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-gray-400">Price impact</span>
+          <span className={impact > PRICE_IMPACT_WARNING ? 'text-yellow-500' : ''}>{formatBps(impact)}%</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-gray-400">Minimum received</span>
+        <span>{minimumOut === undefined ? '—' : amount(minimumOut)}</span>
+      </div>
+      {impact !== undefined && impact > PRICE_IMPACT_WARNING && (
+        <p className="text-xs text-yellow-500">⚠️ The router pays well below the oracle price for this swap</p>
+      )}
+    </div>
+  )
+}
+
+const STEP_LABELS: Record<ZapStepName, string> = {
+  'approve-swap': 'Approve the swap router',
+  swap: 'Swap',
+  'approve-vault': 'Approve the vault',
+  deposit: 'Deposit',
+  withdraw: 'Redeem shares',
+}
+
+const STATUS_ICONS: Record<ZapStep['status'], string> = {
+  pending: '○',
+  active: '⏳',
+  done: '✅',
+  skipped: '⏭️',
+  failed: '❌',
+}
+
+export function ZapProgress({ steps, error }: { steps: readonly ZapStep[]; error?: string }) {
+  return (
+    <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4 space-y-2">
+      <ol className="space-y-1 text-sm">
+        {steps.map((step) => (
+          <li key={step.name} className={`flex items-center gap-2 ${step.status === 'pending' ? 'text-gray-400' : ''}`}>
+            <span className="w-5 text-center">{STATUS_ICONS[step.status]}</span>
+            <span className="flex-1">{STEP_LABELS[step.name]}</span>
+            {step.status === 'skipped' && <span className="text-xs text-gray-400">allowance already set</span>}
+            {step.hash && <span className="text-xs font-mono text-gray-400">{`${step.hash.slice(0, 10)}...`}</span>}
+          </li>
+        ))}
+      </ol>
+      {error && <p className="text-sm text-red-400">❌ {error}</p>}
+    </div>
+  )
+}
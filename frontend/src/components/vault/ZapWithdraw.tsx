@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import toast from 'react-hot-toast'
+import { useMetaIndexClient } from '../../hooks/useMetaIndexClient'
+import { useVaultBalance, useWithdrawPreview } from '../../hooks/useVault'
+import { useSwapQuote, useZapFlow, useZapToken } from '../../hooks/useZap'
+import { formatAmount, formatBps, parseAmount, toInputValue, tokenAmount } from '../../lib/amount'
+import { validateAddress, validateSlippageTolerance, validateWithdraw } from '../../lib/validation'
+import { DEFAULT_SLIPPAGE_TOLERANCE, minimumAmountOut } from '../../lib/zap'
+import { QuoteSummary, SlippageField, TokenField, ZapProgress } from './ZapFields'
+
+interface ZapWithdrawProps {
+  // Resolved receiver of the output token; undefined while the field is invalid
+  receiver: `0x${string}` | undefined
+  onClose: () => void
+  onComplete: () => void
+}
+
+// Exit into another token: redeem your own shares for USDC, then swap it through the router
+export function ZapWithdraw({ receiver, onClose, onComplete }: ZapWithdrawProps) {
+  const [tokenInput, setTokenInput] = useState('')
+  const [amount, setAmount] = useState('')
+  // Set by Max: redeem the exact share balance instead of a rounded amount
+  const [fullExit, setFullExit] = useState(false)
+  const [tolerance, setTolerance] = useState(formatBps(DEFAULT_SLIPPAGE_TOLERANCE, 1))
+
+  const sdk = useMetaIndexClient()
+  const { address } = useAccount()
+  const { maxRedeem, shareDecimals, assetDecimals } = useVaultBalance(address)
+  const tokenAddress = validateAddress(tokenInput) ? undefined : (tokenInput as `0x${string}`)
+  const token = useZapToken(tokenAddress)
+  const { flow, isRunning, isComplete, start, resume, reset } = useZapFlow()
+
+  const shares = fullExit ? maxRedeem : shareDecimals === undefined ? undefined : parseAmount(amount, shareDecimals)
+  const preview = useWithdrawPreview('shares', shares)
+  const toleranceBps = parseAmount(tolerance, 2)
+  const { quote, isLoading: isQuoting } = useSwapQuote(sdk.contracts.usdc.address, tokenAddress, preview.assets)
+  const minimumOut = quote && toleranceBps !== undefined ? minimumAmountOut(quote.amountOut, toleranceBps) : undefined
+
+  useEffect(() => {
+    if (isComplete) {
+      toast.success('Zap withdrawal successful!')
+      reset()
+      setAmount('')
+      setFullExit(false)
+      onComplete()
+    }
+  }, [isComplete, reset, onComplete])
+
+  const isUsdc = tokenAddress?.toLowerCase() === sdk.contracts.usdc.address.toLowerCase()
+  const toleranceError = validateSlippageTolerance(toleranceBps)
+  const validationError = !tokenInput
+    ? undefined
+    : isUsdc
+      ? 'Withdraw USDC directly instead of zapping'
+      : (validateAddress(tokenInput) ??
+        (amount ? validateWithdraw(shares, maxRedeem) : undefined) ??
+        (quote && quote.amountOut === 0n ? 'The swap router has no rate for this pair' : undefined))
+  const canZap =
+    !!tokenAddress &&
+    !!receiver &&
+    !!shares &&
+    preview.assets !== undefined &&
+    !!quote &&
+    minimumOut !== undefined &&
+    !validationError &&
+    !toleranceError
+
+  const handleZap = async () => {
+    if (!canZap) return
+    const params = { direction: 'out' as const, token: tokenAddress, shares, quotedIn: preview.assets!, minimumOut, receiver }
+    if (!(await start(params))) toast.error('Zap failed')
+  }
+
+  const handleResume = async () => {
+    if (!(await resume())) toast.error('Zap failed')
+  }
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium mb-2">Shares to redeem</label>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={(e) => {
+            setAmount(e.target.value)
+            setFullExit(false)
+          }}
+          placeholder="0.00"
+          disabled={!!flow}
+          className="w-full px-4 py-3 bg-dark-700 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500"
+        />
+        <div className="flex justify-between mt-2 text-sm text-gray-400">
+          <span>
+            Available: {formatAmount(tokenAmount(maxRedeem, shareDecimals))} shares
+            {preview.assets !== undefined && ` · ≈ ${formatAmount(tokenAmount(preview.assets, assetDecimals))} USDC`}
+          </span>
+          <button
+            onClick={() => {
+              if (shareDecimals === undefined) return
+              setAmount(toInputValue({ value: maxRedeem, decimals: shareDecimals }))
+              setFullExit(true)
+            }}
+            disabled={!!flow}
+            className="text-primary-500 hover:text-primary-400"
+          >
+            Max
+          </button>
+        </div>
+      </div>
+
+      <TokenField label="Receive" value={tokenInput} onChange={setTokenInput} disabled={!!flow} token={token} />
+
+      <SlippageField value={tolerance} onChange={setTolerance} disabled={!!flow} error={tolerance ? toleranceError : undefined} />
+
+      {!flow && <QuoteSummary quote={quote} isLoading={isQuoting} minimumOut={minimumOut} tokenOut={token.info} />}
+
+      {!flow && validationError && <p className="text-sm text-yellow-500">{validationError}</p>}
+
+      {flow && <ZapProgress steps={flow.steps} error={flow.error} />}
+
+      <div className="flex gap-3">
+        <button
+          onClick={flow && !isRunning ? reset : onClose}
+          disabled={isRunning}
+          className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+        >
+          {flow && !isRunning ? 'Discard' : 'Cancel'}
+        </button>
+        {flow ? (
+          <button
+            onClick={handleResume}
+            disabled={isRunning}
+            className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+          >
+            {isRunning ? 'Processing...' : 'Retry'}
+          </button>
+        ) : (
+          <button
+            onClick={handleZap}
+            disabled={!canZap}
+            className="flex-1 px-4 py-3 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+          >
+            Redeem & swap
+          </button>
+        )}
+      </div>
+    </>
+  )
+}
@@ -1,26 +1,60 @@
-import { useAccount, useConnect, useDisconnect } from 'wagmi'
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useAccount, useConnect, useDisconnect, type Connector } from 'wagmi'
+import toast from 'react-hot-toast'
+import { isDevWallet, type DevWalletProperties } from '../../lib/devWallet'
+import { decodeContractError } from '../../lib/errors'
 
-export function ConnectWallet() {
-  const { address, isConnected } = useAccount()
-  const { connect, connectors } = useConnect()
-  const { disconnect } = useDisconnect()
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
 
-  // Debug logging
-  console.log('ConnectWallet render:', { 
-    isConnected, 
-    address, 
-    connectors: connectors.map(c => ({ id: c.id, name: c.name, ready: c.ready }))
+// The generic injected() connector only matters when no extension announced
+// itself over EIP-6963; otherwise it duplicates one of them.
+function visibleConnectors(connectors: readonly Connector[]) {
+  const discovered = connectors.some((c) => c.type === 'injected' && c.id !== 'injected')
+  return connectors.filter((c) => !(discovered && c.id === 'injected'))
+}
+
+// Anvil's unlocked accounts, so flows can be tried as different users
+function DevAccountSelect({ connector, address }: { connector: Connector & DevWalletProperties; address: `0x${string}` }) {
+  const { data: accounts } = useQuery({
+    queryKey: ['devWalletAccounts', connector.uid],
+    queryFn: () => connector.getDevAccounts(),
+    staleTime: Infinity,
   })
 
+  if (!accounts) return null
+  return (
+    <select
+      value={address}
+      onChange={(e) => connector.selectAccount(e.target.value as `0x${string}`)}
+      className="px-3 py-2 bg-dark-800 border border-dark-700 rounded-lg text-sm font-mono focus:outline-none focus:border-primary-500"
+    >
+      {accounts.map((account, i) => (
+        <option key={account} value={account}>
+          #{i} {shortAddress(account)}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export function ConnectWallet() {
+  const [isOpen, setIsOpen] = useState(false)
+  const { address, isConnected, connector: activeConnector } = useAccount()
+  const { connect, connectors, isPending, variables } = useConnect()
+  const { disconnect } = useDisconnect()
+
   if (isConnected && address) {
     return (
       <div className="flex items-center gap-3">
-        <div className="flex items-center gap-2 px-3 py-2 bg-dark-800 border border-dark-700 rounded-lg">
-          <div className="w-2 h-2 bg-green-500 rounded-full" />
-          <span className="text-sm font-mono">
-            {address.slice(0, 6)}...{address.slice(-4)}
-          </span>
-        </div>
+        {isDevWallet(activeConnector) ? (
+          <DevAccountSelect connector={activeConnector} address={address} />
+        ) : (
+          <div className="flex items-center gap-2 px-3 py-2 bg-dark-800 border border-dark-700 rounded-lg">
+            <div className="w-2 h-2 bg-green-500 rounded-full" />
+            <span className="text-sm font-mono">{shortAddress(address)}</span>
+          </div>
+        )}
         <button
           onClick={() => disconnect()}
           className="px-4 py-2 bg-dark-800 hover:bg-dark-700 border border-dark-700 rounded-lg text-sm font-medium transition-colors"
@@ -31,20 +65,44 @@ export function ConnectWallet() {
     )
   }
 
+  const handleConnect = (connector: Connector) =>
+    connect(
+      { connector },
+      {
+        onSuccess: () => setIsOpen(false),
+        onError: (error) => toast.error(decodeContractError(error)),
+      },
+    )
+
   return (
-    <div className="flex gap-2">
-      {connectors.map((connector) => (
-        <button
-          key={connector.id}
-          onClick={() => {
-            console.log('Connecting with connector:', connector)
-            connect({ connector })
-          }}
-          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
-        >
-          Connect Wallet
-        </button>
-      ))}
+    <div className="relative inline-block text-left">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={isPending}
+        className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+      >
+        {isPending ? '⏳ Connecting...' : 'Connect Wallet'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-60 p-2 bg-dark-800 border border-dark-700 rounded-lg shadow-lg space-y-1">
+          {visibleConnectors(connectors).map((connector) => (
+            <button
+              key={connector.uid}
+              onClick={() => handleConnect(connector)}
+              disabled={isPending}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-left hover:bg-dark-700 disabled:opacity-50"
+            >
+              {connector.icon ? (
+                <img src={connector.icon} alt="" className="w-5 h-5" />
+              ) : (
+                <div className="w-5 h-5 rounded bg-dark-600" />
+              )}
+              <span className="flex-1">{connector.id === 'injected' ? 'Browser Wallet' : connector.name}</span>
+              {isPending && variables?.connector === connector && <span className="text-xs text-gray-400">⏳</span>}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
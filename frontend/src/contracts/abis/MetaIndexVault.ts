@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/MetaIndexVault.sol/MetaIndexVault.json. Do not edit.
+
+export const metaIndexVaultAbi = [
   {
     "type": "constructor",
     "inputs": [
@@ -1363,4 +1365,4 @@
     "name": "ZeroAmount",
     "inputs": []
   }
-]
\ No newline at end of file
+] as const;
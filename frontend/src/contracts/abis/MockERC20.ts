@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/MockERC20.sol/MockERC20.json. Do not edit.
+
+export const mockERC20Abi = [
   {
     "type": "constructor",
     "inputs": [
@@ -364,4 +366,4 @@
       }
     ]
   }
-]
\ No newline at end of file
+] as const;
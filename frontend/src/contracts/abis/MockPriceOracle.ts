@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/MockPriceOracle.sol/MockPriceOracle.json. Do not edit.
+
+export const mockPriceOracleAbi = [
   {
     "type": "function",
     "name": "getPrice",
@@ -187,4 +189,4 @@
     "name": "StalePrice",
     "inputs": []
   }
-]
\ No newline at end of file
+] as const;
@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/MockStrategy.sol/MockStrategy.json. Do not edit.
+
+export const mockStrategyAbi = [
   {
     "type": "constructor",
     "inputs": [
@@ -250,4 +252,4 @@
     "name": "ZeroAmount",
     "inputs": []
   }
-]
\ No newline at end of file
+] as const;
@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/MockSwapRouter.sol/MockSwapRouter.json. Do not edit.
+
+export const mockSwapRouterAbi = [
   {
     "type": "function",
     "name": "exactInputSingle",
@@ -368,4 +370,4 @@
       }
     ]
   }
-]
\ No newline at end of file
+] as const;
@@ -0,0 +1,360 @@
+// Auto-generated by scripts/generate-abis.ts from out/RebalanceLib.sol/RebalanceLib.json. Do not edit.
+
+export const rebalanceLibAbi = [
+  {
+    "type": "function",
+    "name": "BPS_DENOMINATOR",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "DEFAULT_DEVIATION_THRESHOLD",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "calculateAllocationStates",
+    "inputs": [
+      {
+        "name": "strategies",
+        "type": "address[]",
+        "internalType": "address[]"
+      },
+      {
+        "name": "targetAllocations",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "strategyValues",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "totalValue",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "states",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "targetAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentValue",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "deviation",
+            "type": "int256",
+            "internalType": "int256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.AllocationState[]"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "calculateRebalanceActions",
+    "inputs": [
+      {
+        "name": "states",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "targetAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentValue",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "deviation",
+            "type": "int256",
+            "internalType": "int256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.AllocationState[]"
+      },
+      {
+        "name": "totalValue",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "actions",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "action",
+            "type": "uint8",
+            "internalType": "uint8"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.RebalanceAction[]"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "calculateTotals",
+    "inputs": [
+      {
+        "name": "actions",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "action",
+            "type": "uint8",
+            "internalType": "uint8"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.RebalanceAction[]"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "totalDeposits",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalWithdrawals",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "needsRebalancing",
+    "inputs": [
+      {
+        "name": "states",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "targetAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentValue",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "currentAllocation",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "deviation",
+            "type": "int256",
+            "internalType": "int256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.AllocationState[]"
+      },
+      {
+        "name": "deviationThreshold",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "needsRebalance",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "separateActions",
+    "inputs": [
+      {
+        "name": "actions",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "action",
+            "type": "uint8",
+            "internalType": "uint8"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.RebalanceAction[]"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "depositStrategies",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "action",
+            "type": "uint8",
+            "internalType": "uint8"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.RebalanceAction[]"
+      },
+      {
+        "name": "withdrawStrategies",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "strategy",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "action",
+            "type": "uint8",
+            "internalType": "uint8"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ],
+        "internalType": "struct RebalanceLib.RebalanceAction[]"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "validateAllocations",
+    "inputs": [
+      {
+        "name": "targetAllocations",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "valid",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "error",
+    "name": "AllocationSumNotValid",
+    "inputs": []
+  },
+  {
+    "type": "error",
+    "name": "InsufficientTotalValue",
+    "inputs": []
+  },
+  {
+    "type": "error",
+    "name": "InvalidAllocation",
+    "inputs": []
+  }
+] as const;
@@ -1,4 +1,6 @@
-[
+// Auto-generated by scripts/generate-abis.ts from out/StrategyManager.sol/StrategyManager.json. Do not edit.
+
+export const strategyManagerAbi = [
   {
     "type": "constructor",
     "inputs": [
@@ -335,6 +337,19 @@
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "pauseStrategy",
+    "inputs": [
+      {
+        "name": "strategy",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "priceOracle",
@@ -488,6 +503,19 @@
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "unpauseStrategy",
+    "inputs": [
+      {
+        "name": "strategy",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "updateAllocation",
@@ -802,4 +830,4 @@
     "name": "StrategyNotFound",
     "inputs": []
   }
-]
\ No newline at end of file
+] as const;
@@ -0,0 +1,49 @@
+// Auto-generated by scripts/generate-abis.ts from out/. Do not edit.
+
+import { metaIndexVaultAbi } from './MetaIndexVault';
+import { strategyManagerAbi } from './StrategyManager';
+import { priceOracleAbi } from './PriceOracle';
+import { aggregatorV3InterfaceAbi } from './AggregatorV3Interface';
+import { baseStrategyAbi } from './BaseStrategy';
+import { iStrategyAbi } from './IStrategy';
+import { iStrategyManagerAbi } from './IStrategyManager';
+import { iSwapRouterAbi } from './ISwapRouter';
+import { mockERC20Abi } from './MockERC20';
+import { mockPriceOracleAbi } from './MockPriceOracle';
+import { mockSwapRouterAbi } from './MockSwapRouter';
+import { mockStrategyAbi } from './MockStrategy';
+import { rebalanceLibAbi } from './RebalanceLib';
+
+export {
+  metaIndexVaultAbi,
+  strategyManagerAbi,
+  priceOracleAbi,
+  aggregatorV3InterfaceAbi,
+  baseStrategyAbi,
+  iStrategyAbi,
+  iStrategyManagerAbi,
+  iSwapRouterAbi,
+  mockERC20Abi,
+  mockPriceOracleAbi,
+  mockSwapRouterAbi,
+  mockStrategyAbi,
+  rebalanceLibAbi,
+};
+
+export const abis = {
+  MetaIndexVault: metaIndexVaultAbi,
+  StrategyManager: strategyManagerAbi,
+  PriceOracle: priceOracleAbi,
+  AggregatorV3Interface: aggregatorV3InterfaceAbi,
+  BaseStrategy: baseStrategyAbi,
+  IStrategy: iStrategyAbi,
+  IStrategyManager: iStrategyManagerAbi,
+  ISwapRouter: iSwapRouterAbi,
+  MockERC20: mockERC20Abi,
+  MockPriceOracle: mockPriceOracleAbi,
+  MockSwapRouter: mockSwapRouterAbi,
+  MockStrategy: mockStrategyAbi,
+  RebalanceLib: rebalanceLibAbi,
+} as const;
+
+export type ContractName = keyof typeof abis;
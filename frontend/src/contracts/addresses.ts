@@ -1,17 +1,28 @@
-export const contracts = {
-  vault: import.meta.env.VITE_VAULT_ADDRESS as `0x${string}`,
-  strategyManager: import.meta.env.VITE_STRATEGY_MANAGER_ADDRESS as `0x${string}`,
-  usdc: import.meta.env.VITE_USDC_ADDRESS as `0x${string}`,
-  priceOracle: import.meta.env.VITE_PRICE_ORACLE_ADDRESS as `0x${string}`,
-  swapRouter: import.meta.env.VITE_SWAP_ROUTER_ADDRESS as `0x${string}`,
-  strategy1: import.meta.env.VITE_STRATEGY1_ADDRESS as `0x${string}`,
-  strategy2: import.meta.env.VITE_STRATEGY2_ADDRESS as `0x${string}`,
-} as const;
+import { getDeployment, type Deployment } from './deployments';
 
-export function getContractAddress(name: keyof typeof contracts): `0x${string}` {
-  const address = contracts[name];
+export type ContractAddresses = Pick<Deployment, 'vault' | 'strategyManager' | 'usdc' | 'priceOracle' | 'swapRouter'>;
+
+/**
+ * Resolve contract addresses for a chain, or undefined if the protocol has no
+ * deployment there.
+ */
+export function getContracts(chainId: number | undefined): ContractAddresses | undefined {
+  const deployment = getDeployment(chainId);
+  if (!deployment) return undefined;
+
+  return {
+    vault: deployment.vault,
+    strategyManager: deployment.strategyManager,
+    usdc: deployment.usdc,
+    priceOracle: deployment.priceOracle,
+    swapRouter: deployment.swapRouter,
+  };
+}
+
+export function getContractAddress(chainId: number, name: keyof ContractAddresses): `0x${string}` {
+  const address = getContracts(chainId)?.[name];
   if (!address) {
-    throw new Error(`Contract address not found for: ${name}`);
+    throw new Error(`Contract address not found for: ${name} on chain ${chainId}`);
   }
   return address;
 }
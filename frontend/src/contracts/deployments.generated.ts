@@ -0,0 +1,15 @@
+// Auto-generated by scripts/update-addresses.ts from deployments/<chainId>.json. Do not edit.
+
+export const deployments = {
+  31337: {
+    "chainId": 31337,
+    "deployer": "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+    "usdc": "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+    "vault": "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9",
+    "strategyManager": "0xa513E6E4b8f2a923D98304ec87F64353C4D5C853",
+    "priceOracle": "0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9",
+    "swapRouter": "0x0165878A594ca255338adfa4d48449f69242Eb8F",
+    "strategy1": "0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e",
+    "strategy2": "0xA51c1fc2f0D1a1b8494Ed1FE312d7C3a78Ed91C0"
+  },
+} as const;
@@ -0,0 +1,100 @@
+import { getAddress, isAddress } from 'viem';
+import { deployments as generatedDeployments } from './deployments.generated';
+
+// Schema for deployments/<chainId>.json, written by script/Deploy.s.sol and
+// synced into deployments.generated.ts by scripts/update-addresses.ts.
+export const DEPLOYMENT_ADDRESS_FIELDS = ['usdc', 'vault', 'strategyManager', 'priceOracle', 'swapRouter'] as const;
+
+// Dev fixture Deploy.s.sol adds for local runs and the anvil tests. Optional:
+// the app enumerates strategies from StrategyManager.getStrategies().
+export const DEPLOYMENT_FIXTURE_FIELDS = ['deployer', 'strategy1', 'strategy2'] as const;
+
+export type DeploymentAddressField = (typeof DEPLOYMENT_ADDRESS_FIELDS)[number];
+
+export type DeploymentFixtureField = (typeof DEPLOYMENT_FIXTURE_FIELDS)[number];
+
+export type Deployment = {
+  chainId: number;
+  // Block the deployment started at; event scans begin here instead of genesis
+  startBlock?: number;
+} & Record<DeploymentAddressField, `0x${string}`> &
+  Partial<Record<DeploymentFixtureField, `0x${string}`>>;
+
+export class DeploymentValidationError extends Error {
+  constructor(source: string, issues: string[]) {
+    super(`Invalid deployment ${source}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'DeploymentValidationError';
+  }
+}
+
+/**
+ * Validate a raw deployment record against the schema and return it with
+ * checksummed addresses. Throws a DeploymentValidationError listing every issue.
+ */
+export function parseDeployment(raw: unknown, source = 'deployment'): Deployment {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new DeploymentValidationError(source, ['expected a JSON object']);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const chainId = record.chainId;
+  if (typeof chainId !== 'number' || !Number.isInteger(chainId) || chainId <= 0) {
+    issues.push('chainId must be a positive integer');
+  }
+
+  const startBlock = record.startBlock;
+  if (startBlock !== undefined && (typeof startBlock !== 'number' || !Number.isInteger(startBlock) || startBlock < 0)) {
+    issues.push('startBlock must be a non-negative integer');
+  }
+
+  const addresses: Partial<Record<DeploymentAddressField | DeploymentFixtureField, `0x${string}`>> = {};
+  for (const field of [...DEPLOYMENT_ADDRESS_FIELDS, ...DEPLOYMENT_FIXTURE_FIELDS]) {
+    const value = record[field];
+    if (value === undefined && (DEPLOYMENT_FIXTURE_FIELDS as readonly string[]).includes(field)) continue;
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+      issues.push(`${field} must be an address`);
+    } else {
+      addresses[field] = getAddress(value);
+    }
+  }
+
+  const knownFields: readonly string[] = ['chainId', 'startBlock', ...DEPLOYMENT_ADDRESS_FIELDS, ...DEPLOYMENT_FIXTURE_FIELDS];
+  for (const key of Object.keys(record)) {
+    if (!knownFields.includes(key)) issues.push(`unknown field "${key}"`);
+  }
+
+  if (issues.length > 0) throw new DeploymentValidationError(source, issues);
+
+  return { chainId, ...(startBlock !== undefined && { startBlock }), ...addresses } as Deployment;
+}
+
+// Parsed lazily so scripts can import the schema helpers above even when the
+// generated registry is stale.
+let deploymentsByChain: Map<number, Deployment> | undefined;
+
+function loadDeployments(): Map<number, Deployment> {
+  deploymentsByChain ??= new Map(
+    Object.entries(generatedDeployments).map(([chainId, raw]) => {
+      const deployment = parseDeployment(raw, `for chain ${chainId}`);
+      if (deployment.chainId !== Number(chainId)) {
+        throw new DeploymentValidationError(`for chain ${chainId}`, [`chainId is ${deployment.chainId}`]);
+      }
+      return [deployment.chainId, deployment];
+    }),
+  );
+  return deploymentsByChain;
+}
+
+/**
+ * Resolve the deployment for a chain id, or undefined if the protocol is not
+ * deployed there.
+ */
+export function getDeployment(chainId: number | undefined): Deployment | undefined {
+  return chainId === undefined ? undefined : loadDeployments().get(chainId);
+}
+
+export function getDeployedChainIds(): number[] {
+  return [...loadDeployments().keys()];
+}
@@ -0,0 +1,35 @@
+import { getContracts, type ContractAddresses } from './addresses';
+import {
+  baseStrategyAbi,
+  iSwapRouterAbi,
+  metaIndexVaultAbi,
+  mockERC20Abi,
+  priceOracleAbi,
+  strategyManagerAbi,
+} from './abis';
+
+// Typed contract registry: spread an entry into wagmi/viem calls
+// (`{ ...registry.vault, functionName: 'totalAssets' }`) so function names,
+// args and return types are inferred from the generated ABIs.
+export function getRegistry(chainId: number | undefined) {
+  const contracts = getContracts(chainId);
+  return contracts && createRegistry(contracts);
+}
+
+// Registry for an explicit set of addresses, e.g. a deployment file read by a script
+export function createRegistry(contracts: ContractAddresses) {
+  return {
+    vault: { address: contracts.vault, abi: metaIndexVaultAbi },
+    strategyManager: { address: contracts.strategyManager, abi: strategyManagerAbi },
+    usdc: { address: contracts.usdc, abi: mockERC20Abi },
+    priceOracle: { address: contracts.priceOracle, abi: priceOracleAbi },
+    swapRouter: { address: contracts.swapRouter, abi: iSwapRouterAbi },
+  } as const;
+}
+
+export type ContractRegistry = ReturnType<typeof createRegistry>;
+
+// Strategies are enumerated at runtime from StrategyManager.getStrategies()
+export function strategyContract(address: `0x${string}`) {
+  return { address, abi: baseStrategyAbi } as const;
+}
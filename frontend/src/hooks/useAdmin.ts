@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+
+// Governance writes on StrategyManager and MetaIndexVault. The SDK simulates
+// every call first so access-control and validation reverts surface before the
+// wallet prompts for a signature.
+export function useAdmin() {
+  const sdk = useMetaIndexClient();
+  const { send, hash, isPending, isConfirming, isConfirmed, error, reset } = useMetaIndexWrite();
+
+  return {
+    // Strategy manager (DEFAULT_ADMIN_ROLE)
+    addStrategy: (strategy: `0x${string}`, allocation: bigint) => send(() => sdk.addStrategy(strategy, allocation)),
+    removeStrategy: (strategy: `0x${string}`) => send(() => sdk.removeStrategy(strategy)),
+    updateAllocation: (strategy: `0x${string}`, newAllocation: bigint) =>
+      send(() => sdk.updateAllocation(strategy, newAllocation)),
+    setDeviationThreshold: (threshold: bigint) => send(() => sdk.setDeviationThreshold(threshold)),
+    setMinRebalanceAmount: (amount: bigint) => send(() => sdk.setMinRebalanceAmount(amount)),
+    setPriceOracle: (oracle: `0x${string}`) => send(() => sdk.setPriceOracle(oracle)),
+
+    // Vault (DEFAULT_ADMIN_ROLE, pause requires GUARDIAN_ROLE)
+    updateTVLCap: (newCap: bigint) => send(() => sdk.updateTVLCap(newCap)),
+    setStrategyManager: (manager: `0x${string}`) => send(() => sdk.setStrategyManager(manager)),
+    pause: () => send(() => sdk.pauseVault()),
+    unpause: () => send(() => sdk.unpauseVault()),
+
+    // Transaction state
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    // Simulation revert, wallet rejection or a reverted receipt
+    error,
+    reset,
+  };
+}
+
+// Current governance parameters, as raw on-chain values
+export function useProtocolSettings() {
+  const sdk = useMetaIndexClient();
+
+  const { data } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'protocolSettings'),
+    queryFn: () => sdk.getProtocolSettings(),
+  });
+
+  return {
+    tvlCap: data?.tvlCap,
+    paused: data?.paused,
+    strategyManager: data?.strategyManager,
+    deviationThreshold: data?.deviationThreshold,
+    minRebalanceAmount: data?.minRebalanceAmount,
+    priceOracle: data?.priceOracle,
+  };
+}
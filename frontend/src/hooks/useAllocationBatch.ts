@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useMetaIndexClient } from './useMetaIndexClient';
+import { decodeContractError } from '../lib/errors';
+import { orderAllocationUpdates, rollbackUpdates, type AllocationChange } from '../lib/allocationPlan';
+
+export type BatchStepStatus = 'pending' | 'submitting' | 'confirming' | 'confirmed' | 'failed';
+
+export interface BatchStep extends AllocationChange {
+  status: BatchStepStatus;
+  hash?: `0x${string}`;
+  error?: string;
+}
+
+// Applies a whole target portfolio as an ordered series of updateAllocation
+// transactions. Each call waits for its receipt before the next is sent; on
+// failure the queue stops so the caller can resume it or roll back the steps
+// that already landed.
+export function useAllocationBatch() {
+  const sdk = useMetaIndexClient();
+
+  const [steps, setSteps] = useState<BatchStep[]>([]);
+  const [mode, setMode] = useState<'apply' | 'rollback'>('apply');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateStep = (index: number, patch: Partial<BatchStep>) =>
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+
+  const run = async (queue: readonly BatchStep[]) => {
+    setIsRunning(true);
+    try {
+      for (const [i, step] of queue.entries()) {
+        if (step.status === 'confirmed') continue;
+        try {
+          updateStep(i, { status: 'submitting', error: undefined });
+          const hash = await sdk.updateAllocation(step.strategy, step.to);
+          updateStep(i, { status: 'confirming', hash });
+
+          await sdk.waitForTransaction(hash);
+          updateStep(i, { status: 'confirmed' });
+        } catch (error) {
+          console.error('Allocation update error:', error);
+          updateStep(i, { status: 'failed', error: decodeContractError(error) });
+          return false;
+        }
+      }
+      return true;
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Start a new batch from the diff between current and target allocations
+  const apply = (changes: readonly AllocationChange[]) => {
+    const queue = orderAllocationUpdates(changes).map((change): BatchStep => ({ ...change, status: 'pending' }));
+    setMode('apply');
+    setSteps(queue);
+    return run(queue);
+  };
+
+  // Retry the failed step and continue with the rest of the queue
+  const resume = () => run(steps);
+
+  // Undo every confirmed step of the batch. A rollback that itself fails is
+  // resumed rather than rolled back again.
+  const rollback = () => {
+    if (mode === 'rollback') return run(steps);
+
+    const applied = steps.filter((s) => s.status === 'confirmed');
+    const queue = rollbackUpdates(applied).map((change): BatchStep => ({ ...change, status: 'pending' }));
+    setMode('rollback');
+    setSteps(queue);
+    return run(queue);
+  };
+
+  const clear = () => {
+    setMode('apply');
+    setSteps([]);
+  };
+
+  const failed = steps.some((s) => s.status === 'failed');
+  const completed = steps.length > 0 && steps.every((s) => s.status === 'confirmed');
+
+  return {
+    steps,
+    mode,
+    isRunning,
+    failed,
+    completed,
+    apply,
+    resume,
+    rollback,
+    clear,
+  };
+}
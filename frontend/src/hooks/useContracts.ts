@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { getDeployment } from '../contracts/deployments';
+import { getRegistry, type ContractRegistry } from '../contracts/registry';
+
+// The wallet's chain wins over the config default, even when it is a chain
+// the config does not know about, so we never read from the wrong network.
+export function useActiveDeployment() {
+  const { chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+  const chainId = walletChainId ?? configChainId;
+
+  return {
+    chainId,
+    deployment: getDeployment(chainId),
+  };
+}
+
+/**
+ * Contract registry for the connected chain. Only call this below a component
+ * that has checked useActiveDeployment().deployment, since it throws on chains
+ * with no deployment rather than falling back to another network's addresses.
+ */
+export function useContracts(): ContractRegistry {
+  const { chainId } = useActiveDeployment();
+  const registry = useMemo(() => getRegistry(chainId), [chainId]);
+
+  if (!registry) {
+    throw new Error(`No Meta Index deployment for chain ${chainId}`);
+  }
+  return registry;
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useActiveDeployment } from './useContracts';
+import { useMetaIndexClient } from './useMetaIndexClient';
+import { useAssetDecimals } from './useProtocolSnapshot';
+import { decodeContractError } from '../lib/errors';
+import {
+  depositFlowKey,
+  isAwaitingResult,
+  loadDepositFlow,
+  saveDepositFlow,
+  type DepositFlowState,
+  type DepositMethod,
+} from '../lib/depositFlow';
+import { TransactionRevertedError } from '../sdk';
+
+// Wait for a submitted step. When the chain reverted it, `forget` clears its
+// hash or batch id so a retry sends it again; a timeout keeps waiting on it.
+async function settle<T>(wait: Promise<T>, forget: () => void): Promise<T> {
+  try {
+    return await wait;
+  } catch (error) {
+    if (error instanceof TransactionRevertedError) forget();
+    throw error;
+  }
+}
+
+// Deposit state machine: one wallet_sendCalls batch when the wallet supports
+// EIP-5792, otherwise approve then deposit. Each transition is persisted so a
+// reload resumes the flow.
+export function useDepositFlow() {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+  const { chainId } = useActiveDeployment();
+  const decimals = useAssetDecimals();
+
+  const key = address ? depositFlowKey(chainId, address) : undefined;
+  const [flow, setFlow] = useState<DepositFlowState | undefined>(() => (key ? loadDepositFlow(key) : undefined));
+  const [isRunning, setIsRunning] = useState(false);
+  const running = useRef(false);
+
+  // Reload the persisted flow when the account or chain changes
+  const [loadedKey, setLoadedKey] = useState(key);
+  if (loadedKey !== key) {
+    setLoadedKey(key);
+    setFlow(key ? loadDepositFlow(key) : undefined);
+  }
+
+  const update = useCallback(
+    (next: DepositFlowState | undefined) => {
+      if (key) saveDepositFlow(key, next);
+      setFlow(next);
+    },
+    [key],
+  );
+
+  // Which path to take for an amount the current allowance does not cover
+  const detectMethod = useCallback(
+    async (): Promise<DepositMethod> => ((await sdk.supportsAtomicBatch()) ? 'batch' : 'approve'),
+    [sdk],
+  );
+
+  const sendDeposit = useCallback(
+    async (state: DepositFlowState) => {
+      const hash = await sdk.deposit(BigInt(state.amount), state.receiver);
+      const next = { ...state, stage: 'depositing' as const, hash };
+      update(next);
+      return next;
+    },
+    [sdk, update],
+  );
+
+  // Drive a flow from its current stage until it confirms or a step throws
+  const advance = useCallback(
+    async (initial: DepositFlowState) => {
+      // One driver at a time, whether started by the user or by a reload
+      if (!address || running.current) return false;
+      running.current = true;
+      let state = initial;
+      setIsRunning(true);
+      try {
+        while (state.stage !== 'confirmed') {
+          switch (state.stage) {
+            case 'approving': {
+              if (!state.hash) {
+                const hash = await sdk.approve(BigInt(state.amount));
+                state = { ...state, hash };
+                update(state);
+              }
+              await settle(sdk.waitForTransaction(state.hash!), () => (state = { ...state, hash: undefined }));
+              state = { ...state, stage: 'approved', hash: undefined };
+              update(state);
+              break;
+            }
+            case 'approved':
+              state = await sendDeposit(state);
+              break;
+            case 'depositing': {
+              if (!state.hash) {
+                state = await sendDeposit(state);
+              }
+              await settle(sdk.waitForTransaction(state.hash!), () => (state = { ...state, hash: undefined }));
+              state = { ...state, stage: 'confirmed' };
+              update(state);
+              break;
+            }
+            case 'batching': {
+              if (!state.callsId) {
+                const id = await sdk.depositBatch(BigInt(state.amount), state.receiver);
+                state = { ...state, callsId: id };
+                update(state);
+              }
+              const result = await settle(sdk.waitForCalls(state.callsId!), () => (state = { ...state, callsId: undefined }));
+              state = { ...state, stage: 'confirmed', hash: result.receipts?.at(-1)?.transactionHash };
+              update(state);
+              break;
+            }
+          }
+        }
+        return true;
+      } catch (error) {
+        console.error('Deposit flow error:', error);
+        // Keep the stage so a retry continues from the step that failed
+        update({ ...state, error: decodeContractError(error, decimals) });
+        return false;
+      } finally {
+        running.current = false;
+        setIsRunning(false);
+      }
+    },
+    [address, sdk, decimals, sendDeposit, update],
+  );
+
+  const start = async (amount: bigint, receiver: `0x${string}`) => {
+    if (!address) return false;
+    const allowance = await sdk.getAllowance(address);
+    const method = allowance >= amount ? 'direct' : await detectMethod();
+    const stage = method === 'batch' ? 'batching' : method === 'approve' ? 'approving' : 'depositing';
+    const state: DepositFlowState = { method, stage, amount: amount.toString(), receiver };
+    update(state);
+    return advance(state);
+  };
+
+  // Retry from the current stage; a step that never got a hash is re-sent
+  const resume = () => (flow ? advance({ ...flow, error: undefined }) : Promise.resolve(false));
+
+  const discard = () => update(undefined);
+
+  // When a persisted flow is loaded, keep waiting on anything already submitted
+  const loaded = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!key || loaded.current === key) return;
+    loaded.current = key;
+    if (flow && isAwaitingResult(flow) && !flow.error) void advance(flow);
+  }, [key, flow, advance]);
+
+  return {
+    flow,
+    isRunning,
+    start,
+    resume,
+    discard,
+  };
+}
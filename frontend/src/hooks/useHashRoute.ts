@@ -0,0 +1,29 @@
+import { useSyncExternalStore } from 'react';
+import { isAddress } from 'viem';
+
+// Minimal hash routing: `#/strategy/<address>` opens a strategy page and any
+// other hash (including in-page anchors like `#rebalancing`) is the dashboard.
+
+export type Route = { page: 'dashboard' } | { page: 'strategy'; address: `0x${string}` };
+
+export function parseRoute(hash: string): Route {
+  const match = /^#\/strategy\/(0x[0-9a-fA-F]{40})$/.exec(hash);
+  if (match && isAddress(match[1])) return { page: 'strategy', address: match[1] };
+  return { page: 'dashboard' };
+}
+
+export const strategyHref = (address: `0x${string}`) => `#/strategy/${address}`;
+
+export const DASHBOARD_HREF = '#/';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('hashchange', onChange);
+  return () => window.removeEventListener('hashchange', onChange);
+};
+
+const getHash = () => window.location.hash;
+
+export function useHashRoute(): Route {
+  const hash = useSyncExternalStore(subscribe, getHash);
+  return parseRoute(hash);
+}
@@ -0,0 +1,66 @@
+import { useEffect, useMemo } from 'react';
+import type { Hash } from 'viem';
+import { usePublicClient, useWaitForTransactionReceipt, useWalletClient } from 'wagmi';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActiveDeployment } from './useContracts';
+import { MetaIndexClient } from '../sdk';
+
+/**
+ * SDK client for the connected chain, signing with the connected wallet. Like
+ * useContracts, only call this below a component that has checked
+ * useActiveDeployment().deployment.
+ */
+export function useMetaIndexClient(): MetaIndexClient {
+  const { chainId, deployment } = useActiveDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const { data: walletClient } = useWalletClient({ chainId });
+
+  const client = useMemo(
+    () => (deployment && publicClient ? MetaIndexClient.fromDeployment(deployment, { publicClient, walletClient }) : undefined),
+    [deployment, publicClient, walletClient],
+  );
+
+  if (!client) {
+    throw new Error(`No Meta Index deployment for chain ${chainId}`);
+  }
+  return client;
+}
+
+// react-query key for an SDK read, scoped to the client's chain and vault
+export function metaIndexQueryKey(client: MetaIndexClient, ...parts: (string | undefined)[]) {
+  return ['metaIndex', client.publicClient.chain?.id, client.contracts.vault.address, ...parts];
+}
+
+// Tracks one SDK write at a time: the simulation and wallet prompt, then its
+// receipt. Once it confirms every read for this vault is refetched.
+export function useMetaIndexWrite() {
+  const sdk = useMetaIndexClient();
+  const queryClient = useQueryClient();
+  const { data: hash, mutateAsync, isPending, error, reset } = useMutation({
+    mutationFn: (send: () => Promise<Hash>) => send(),
+  });
+
+  const {
+    isLoading: isConfirming,
+    isSuccess: isConfirmed,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  useEffect(() => {
+    if (isConfirmed) queryClient.invalidateQueries({ queryKey: metaIndexQueryKey(sdk) });
+  }, [isConfirmed, hash, queryClient, sdk]);
+
+  return {
+    send: mutateAsync,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    // Simulation revert, wallet rejection or a reverted receipt
+    isError: !!(error ?? receiptError),
+    error: error ?? receiptError ?? undefined,
+    reset,
+  };
+}
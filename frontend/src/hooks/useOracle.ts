@@ -0,0 +1,79 @@
+import { zeroAddress } from 'viem';
+import { useAccount, useConfig, useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { simulateContract } from 'wagmi/actions';
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import { mockPriceOracleAbi } from '../contracts/abis';
+import { revertReason } from '../lib/errors';
+
+// Feed health for the oracle currently configured on the strategy manager
+export function useOracleHealth() {
+  const sdk = useMetaIndexClient();
+
+  const { data: oracle } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'priceOracle'),
+    queryFn: () => sdk.getPriceOracle(),
+  });
+
+  // Covers USDC and every strategy's underlying asset
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'oracleHealth', oracle),
+    queryFn: () => sdk.getOracleHealth(),
+    enabled: !!oracle && oracle !== zeroAddress,
+    refetchInterval: 30_000,
+  });
+
+  const { data: totalValue } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'totalValue'),
+    queryFn: () => sdk.getTotalValue(),
+  });
+
+  // totalValueUSD() reverts when a feed is stale, so keep the error around
+  const { data: totalValueUSD, error: totalValueUSDError } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'totalValueUSD'),
+    queryFn: () => sdk.getTotalValueUSD(),
+    retry: false,
+  });
+
+  return {
+    oracle,
+    health: data,
+    totalValue,
+    totalValueUSD,
+    totalValueUSDError: totalValueUSDError ? revertReason(totalValueUSDError) ?? 'Reverted' : undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+// MockPriceOracle.setPrice has no access control; only offered on local anvil
+export function useSetMockPrice(oracle: `0x${string}` | undefined) {
+  const config = useConfig();
+  const { address } = useAccount();
+
+  const { data: hash, writeContract, isPending } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const setPrice = async (asset: `0x${string}`, price: bigint) => {
+    if (!oracle) throw new Error('No oracle');
+    const { request } = await simulateContract(config, {
+      address: oracle,
+      abi: mockPriceOracleAbi,
+      account: address,
+      functionName: 'setPrice',
+      args: [asset, price],
+    });
+    return writeContract(request);
+  };
+
+  return {
+    setPrice,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+  };
+}
@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { anvil } from 'wagmi/chains';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useActiveDeployment } from './useContracts';
+import { LocalPlayground } from '../sdk';
+
+// Whether the playground panel applies: only a local anvil node has the mocks
+// and the evm_* methods it drives.
+export function useIsPlaygroundChain() {
+  const { chainId } = useActiveDeployment();
+  return chainId === anvil.id;
+}
+
+/** Faucet, simulated yield, mock prices and time travel on anvil. */
+export function usePlayground() {
+  const sdk = useMetaIndexClient();
+  const queryClient = useQueryClient();
+  const playground = useMemo(() => new LocalPlayground(sdk), [sdk]);
+
+  const { send, isPending, isConfirming, isConfirmed } = useMetaIndexWrite();
+
+  // Blocks mined here refresh the snapshot by themselves, but reads keyed on
+  // time (cooldowns, history) only refetch on invalidation
+  const { mutateAsync: travel, isPending: isTraveling } = useMutation({
+    mutationFn: (move: () => Promise<void>) => move(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: metaIndexQueryKey(sdk) }),
+  });
+
+  const { data: chainTime } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'chainTime'),
+    queryFn: () => playground.getChainTime(),
+  });
+
+  return {
+    chainTime,
+    // Amounts are raw units (see parseAmount)
+    mintAsset: (to: `0x${string}`, amount: bigint) => send(() => playground.mintAsset(to, amount)),
+    adjustStrategyValue: (strategy: `0x${string}`, delta: bigint) =>
+      send(() => playground.adjustStrategyValue(strategy, delta)),
+    setPrice: (asset: `0x${string}`, price: bigint) => send(() => playground.setPrice(asset, price)),
+    setExchangeRate: (tokenIn: `0x${string}`, tokenOut: `0x${string}`, rate: bigint) =>
+      send(() => playground.setExchangeRate(tokenIn, tokenOut, rate)),
+    setSlippage: (bps: bigint) => send(() => playground.setSlippage(bps)),
+    increaseTime: (seconds: number) => travel(() => playground.increaseTime(seconds)),
+    mine: (blocks: number) => travel(() => playground.mine(blocks)),
+    isPending,
+    isConfirming,
+    isConfirmed,
+    isTraveling,
+  };
+}
+
+// Current MockSwapRouter rate for the pair and its global slippage
+export function useRouterSettings(tokenIn: `0x${string}` | undefined, tokenOut: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const playground = useMemo(() => new LocalPlayground(sdk), [sdk]);
+
+  const { data } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'routerSettings', tokenIn, tokenOut),
+    queryFn: () => playground.getRouterSettings(tokenIn!, tokenOut!),
+    enabled: !!tokenIn && !!tokenOut,
+  });
+
+  return data;
+}
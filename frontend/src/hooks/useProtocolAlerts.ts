@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useMetaIndexClient } from './useMetaIndexClient';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import { AlertWatcher } from '../sdk';
+import type { Alert } from '../lib/alerts';
+
+// Kept in memory for the session, newest first
+const MAX_ALERTS = 50;
+const BROWSER_NOTIFICATIONS_KEY = 'meta-index:alerts:browser-notifications';
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+function loadBrowserNotifications(): boolean {
+  if (!notificationsSupported() || typeof localStorage === 'undefined') return false;
+  return localStorage.getItem(BROWSER_NOTIFICATIONS_KEY) === 'true' && Notification.permission === 'granted';
+}
+
+function showToast(alert: Alert) {
+  const text = `${alert.title}: ${alert.message}`;
+  if (alert.severity === 'critical') toast.error(text, { duration: 10_000 });
+  else toast(text, { icon: alert.severity === 'warning' ? '⚠️' : 'ℹ️', duration: 6_000 });
+}
+
+/**
+ * The alert rules scripts/alerts.ts runs, evaluated on every new snapshot.
+ * Each alert is toasted in-app and, once enabled, sent as a browser
+ * notification while the tab is in the background.
+ */
+export function useProtocolAlerts() {
+  const sdk = useMetaIndexClient();
+  const { data: snapshot } = useProtocolSnapshot();
+  const watcher = useMemo(() => new AlertWatcher(sdk), [sdk]);
+
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [browserNotifications, setBrowserNotifications] = useState(loadBrowserNotifications);
+  const polling = useRef(false);
+  const notify = useRef(browserNotifications);
+  notify.current = browserNotifications;
+
+  // The watcher scans from its last block, so a snapshot skipped while a poll
+  // is running is covered by the next one
+  useEffect(() => {
+    if (!snapshot || polling.current) return;
+    polling.current = true;
+    watcher
+      .poll(snapshot)
+      .then((fresh) => {
+        if (fresh.length === 0) return;
+        setAlerts((current) => [...[...fresh].reverse(), ...current].slice(0, MAX_ALERTS));
+        setUnread((count) => count + fresh.length);
+        for (const alert of fresh) {
+          showToast(alert);
+          if (notify.current && document.hidden) new Notification(alert.title, { body: alert.message, tag: alert.key });
+        }
+      })
+      .catch((error) => console.error('Alert poll failed:', error))
+      .finally(() => {
+        polling.current = false;
+      });
+  }, [snapshot, watcher]);
+
+  const setBrowserEnabled = useCallback(async (enabled: boolean) => {
+    if (!notificationsSupported()) return;
+    const granted = enabled && (Notification.permission === 'granted' || (await Notification.requestPermission()) === 'granted');
+    if (enabled && !granted) toast.error('Notifications are blocked for this site in your browser settings');
+    localStorage.setItem(BROWSER_NOTIFICATIONS_KEY, String(granted));
+    setBrowserNotifications(granted);
+  }, []);
+
+  return {
+    alerts,
+    unread,
+    markRead: useCallback(() => setUnread(0), []),
+    clear: useCallback(() => {
+      setAlerts([]);
+      setUnread(0);
+    }, []),
+    browserNotifications: {
+      supported: notificationsSupported(),
+      enabled: browserNotifications,
+      setEnabled: setBrowserEnabled,
+    },
+  };
+}
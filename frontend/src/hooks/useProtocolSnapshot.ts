@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import { isAddressEqual } from 'viem';
+import { useAccount, useBlockNumber } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+
+/**
+ * Vault, strategy and connected-account state read at one block (see
+ * MetaIndexClient.getSnapshot). Every dashboard hook derives from this single
+ * query, so the numbers on screen always agree with each other and the RPC
+ * cost does not grow with the number of strategies. Refetched when a newer
+ * block arrives; useMetaIndexWrite also invalidates it once our own
+ * transactions confirm.
+ */
+export function useProtocolSnapshot() {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'snapshot', address),
+    queryFn: () => sdk.getSnapshot(address),
+  });
+
+  const { data: blockNumber } = useBlockNumber({ chainId: sdk.publicClient.chain?.id, watch: true });
+  const snapshotBlock = query.data?.blockNumber;
+
+  useEffect(() => {
+    if (blockNumber === undefined || snapshotBlock === undefined || blockNumber <= snapshotBlock) return;
+    // Many components mount this hook; let an in-flight refetch stand
+    queryClient.invalidateQueries(
+      { queryKey: metaIndexQueryKey(sdk, 'snapshot', address), exact: true },
+      { cancelRefetch: false },
+    );
+  }, [blockNumber, snapshotBlock, queryClient, sdk, address]);
+
+  return query;
+}
+
+/** The snapshot's account section, if `address` is the connected account. */
+export function useAccountSnapshot(address: `0x${string}` | undefined) {
+  const { data: snapshot, refetch } = useProtocolSnapshot();
+  const account =
+    address && snapshot?.account && isAddressEqual(snapshot.account.address, address) ? snapshot.account : undefined;
+  return { snapshot, account, refetch };
+}
+
+/** decimals() of the vault asset, once the snapshot has loaded. */
+export function useAssetDecimals() {
+  return useProtocolSnapshot().data?.vault.assetDecimals;
+}
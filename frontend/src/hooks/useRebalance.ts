@@ -0,0 +1,53 @@
+import { useAccount } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import type { AllocationState } from '../lib/rebalance';
+
+const NO_STATES: readonly AllocationState[] = [];
+
+export function useAllocationStates() {
+  // The snapshot derives allocation states from the same strategy values that
+  // rebalance() reads, so the plan uses their sum as the portfolio value.
+  const { data: snapshot, refetch: refetchStates } = useProtocolSnapshot();
+  const status = snapshot?.rebalance;
+
+  return {
+    states: status?.states ?? NO_STATES,
+    deviationThreshold: status?.deviationThreshold ?? 0n,
+    minRebalanceAmount: status?.minRebalanceAmount ?? 0n,
+    totalValue: status?.totalValue ?? 0n,
+    plan: status?.plan ?? { deposits: [], withdrawals: [] },
+    needsRebalancing: status?.needsRebalancing ?? false,
+    meetsMinimum: status?.meetsMinimum ?? true,
+    // Asset decimals() for the values above
+    decimals: snapshot?.vault.assetDecimals,
+    refetchStates,
+  };
+}
+
+export function useRebalance() {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+
+  const { data: isManager } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'isManager', address),
+    queryFn: () => sdk.isManager(address!),
+    enabled: !!address,
+  });
+
+  const { send, hash, isPending, isConfirming, isConfirmed } = useMetaIndexWrite();
+
+  // The SDK simulates first so reverts ("Rebalancing not needed", "Below minimum", ...)
+  // surface before the wallet prompts for a signature.
+  const rebalance = () => send(() => sdk.rebalance());
+
+  return {
+    isManager: isManager ?? false,
+    rebalance,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+  };
+}
@@ -0,0 +1,84 @@
+import { useQuery } from '@tanstack/react-query';
+import { normalize } from 'viem/ens';
+import { useEnsAddress } from 'wagmi';
+import { mainnet } from 'wagmi/chains';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import { useStrategies } from './useStrategies';
+import { inspectRecipient } from '../lib/recipient';
+import { validateAddress } from '../lib/validation';
+
+// ENS names are normalized per ENSIP-15; anything normalize() rejects is invalid
+const normalizeName = (value: string) => {
+  try {
+    return normalize(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * An address field that also takes ENS names, resolved on mainnet. Empty input
+ * means "the connected account" and yields no address, so callers fall back to it.
+ */
+export function useAddressInput(input: string) {
+  const value = input.trim();
+
+  const isName = value.includes('.');
+  const name = isName ? normalizeName(value) : undefined;
+  const { data: resolved, isLoading: isResolving } = useEnsAddress({
+    name,
+    chainId: mainnet.id,
+    query: { enabled: !!name },
+  });
+
+  const address = isName ? (resolved ?? undefined) : validateAddress(value) ? undefined : (value as `0x${string}`);
+  const error = !value
+    ? undefined
+    : !isName
+      ? validateAddress(value)
+      : !name
+        ? 'Not a valid ENS name'
+        : !isResolving && !address
+          ? `${value} does not resolve to an address`
+          : undefined;
+
+  return { address, ensName: isName && address ? value : undefined, error, isLoading: isResolving };
+}
+
+/** useAddressInput for an address that receives `token`, checked with inspectRecipient. */
+export function useRecipient(input: string, token: string) {
+  const sdk = useMetaIndexClient();
+  const { strategies } = useStrategies();
+  const { address, ensName, error, isLoading } = useAddressInput(input);
+
+  const { vault, usdc, strategyManager, priceOracle, swapRouter } = sdk.contracts;
+  const { data: check, isLoading: isChecking } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'recipient', address, token),
+    queryFn: () =>
+      inspectRecipient(
+        sdk.publicClient,
+        address!,
+        {
+          vault: vault.address,
+          USDC: usdc.address,
+          'strategy manager': strategyManager.address,
+          'price oracle': priceOracle.address,
+          'swap router': swapRouter.address,
+          ...Object.fromEntries(strategies.map((strategy, i) => [`strategy ${i + 1}`, strategy])),
+        },
+        token,
+      ),
+    enabled: !!address,
+    // Code rarely changes; no need to refetch with every block
+    staleTime: 60_000,
+  });
+
+  return {
+    address,
+    ensName,
+    kind: check?.kind,
+    error: error ?? check?.error,
+    warning: check?.warning,
+    isLoading: isLoading || (!!address && isChecking),
+  };
+}
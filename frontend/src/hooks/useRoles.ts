@@ -0,0 +1,45 @@
+import { useAccount } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import type { AccountRoles } from '../sdk';
+
+const NO_ROLES: AccountRoles = {
+  vaultAdmin: false,
+  vaultManager: false,
+  guardian: false,
+  managerAdmin: false,
+  strategyManager: false,
+};
+
+// hasRole checks for the connected account on the vault and strategy manager
+export function useRoles() {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+
+  const { data, isLoading } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'roles', address),
+    queryFn: () => sdk.getAccountRoles(address!),
+    enabled: !!address,
+  });
+
+  const roles = data ?? NO_ROLES;
+
+  return {
+    roles,
+    hasAnyRole: Object.values(roles).some(Boolean),
+    isLoading,
+  };
+}
+
+// Current role membership across the vault, manager and oracle, rebuilt from logs
+export function useRoleReport() {
+  const sdk = useMetaIndexClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'roleReport', sdk.startBlock.toString()),
+    queryFn: () => sdk.getRoleReport(),
+    refetchInterval: 30_000,
+  });
+
+  return { report: data, isLoading, error };
+}
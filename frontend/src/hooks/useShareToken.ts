@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { useWatchAsset } from 'wagmi';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useAccountSnapshot } from './useProtocolSnapshot';
+import { tokenAmount } from '../lib/amount';
+import { portfolioBreakdown } from '../lib/portfolio';
+
+/** The vault share token: metadata, balance, transfers and allowances. */
+export function useShareToken(address: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const { snapshot, account } = useAccountSnapshot(address);
+
+  // name/symbol/decimals never change for a deployment
+  const { data: token } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'shareToken'),
+    queryFn: () => sdk.getShareToken(),
+    staleTime: Infinity,
+  });
+
+  const { send, isPending, isConfirming, isConfirmed } = useMetaIndexWrite();
+  const { watchAssetAsync } = useWatchAsset();
+
+  // Amounts are raw share units (see parseAmount)
+  const transfer = (to: `0x${string}`, shares: bigint) => send(() => sdk.transferShares(to, shares));
+  const approve = (spender: `0x${string}`, shares: bigint) => send(() => sdk.approveShares(spender, shares));
+
+  const addToWallet = () => {
+    if (!token) throw new Error('Share token metadata has not loaded');
+    return watchAssetAsync({
+      type: 'ERC20',
+      options: { address: token.address, symbol: token.symbol, decimals: token.decimals },
+    });
+  };
+
+  return {
+    token,
+    balance: tokenAmount(account?.shares, snapshot?.vault.decimals),
+    transfer,
+    approve,
+    addToWallet,
+    isPending,
+    isConfirming,
+    isConfirmed,
+  };
+}
+
+// Shares `spender` may move for `owner`; refetched with every other vault read
+export function useShareAllowance(owner: `0x${string}` | undefined, spender: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const enabled = !!owner && !!spender;
+
+  const { data: allowance } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'shareAllowance', owner, spender),
+    queryFn: () => sdk.getShareAllowance(owner!, spender!),
+    enabled,
+  });
+
+  return enabled ? allowance : undefined;
+}
+
+/** `address`'s pro-rata slice of the idle balance and each strategy, at the snapshot block. */
+export function usePortfolioBreakdown(address: `0x${string}` | undefined) {
+  const { snapshot, account } = useAccountSnapshot(address);
+
+  if (!snapshot || !account) return undefined;
+  return {
+    ...portfolioBreakdown(account.shares, snapshot.vault, snapshot.strategies),
+    decimals: snapshot.vault.assetDecimals,
+  };
+}
@@ -1,7 +1,8 @@
-import { useReadContract } from 'wagmi';
-import { formatUnits } from 'viem';
-import { contracts } from '../contracts/addresses';
-import StrategyManagerABI from '../contracts/abis/StrategyManager.json';
+import { useQuery } from '@tanstack/react-query';
+import { isAddressEqual } from 'viem';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import { tokenAmount } from '../lib/amount';
 
 export interface Strategy {
   address: `0x${string}`;
@@ -9,44 +10,52 @@ export interface Strategy {
 }
 
 export function useStrategies() {
-  // Get all strategy addresses
-  const { data: strategyAddresses } = useReadContract({
-    address: contracts.strategyManager,
-    abi: StrategyManagerABI,
-    functionName: 'getStrategies',
-  });
+  // Addresses, names, targets and values for every strategy come from the one
+  // snapshot, so a card per strategy costs no extra requests
+  const { data: snapshot } = useProtocolSnapshot();
 
-  // Get total value
-  const { data: totalValue } = useReadContract({
-    address: contracts.strategyManager,
-    abi: StrategyManagerABI,
-    functionName: 'totalValue',
-  });
+  return {
+    strategies: snapshot?.strategies.map((s) => s.address) ?? [],
+    details: snapshot?.strategies ?? [],
+    totalValue: tokenAmount(snapshot?.rebalance.totalValue, snapshot?.vault.assetDecimals),
+    needsRebalancing: snapshot?.rebalance.needsRebalancing ?? false,
+  };
+}
+
+// Target allocation and current totalValue() for every strategy in one pass
+export function useStrategyAllocations(strategies: readonly `0x${string}`[]) {
+  const { data: snapshot, refetch } = useProtocolSnapshot();
 
-  // Check if rebalancing is needed
-  const { data: needsRebalancing } = useReadContract({
-    address: contracts.strategyManager,
-    abi: StrategyManagerABI,
-    functionName: 'needsRebalancing',
+  const details = snapshot && strategies.map((address) => {
+    const strategy = snapshot.strategies.find((s) => isAddressEqual(s.address, address));
+    return { address, allocation: strategy?.allocation ?? 0n, totalValue: strategy?.totalValue };
   });
 
   return {
-    strategies: (strategyAddresses as `0x${string}`[]) || [],
-    totalValue: totalValue ? formatUnits(totalValue as bigint, 6) : '0',
-    needsRebalancing: needsRebalancing as boolean || false,
+    strategies: details ?? strategies.map((address) => ({ address, allocation: 0n, totalValue: undefined })),
+    isLoaded: details !== undefined,
+    refetch,
   };
 }
 
-export function useStrategyAllocation(strategyAddress: `0x${string}` | undefined) {
-  const { data: allocation } = useReadContract({
-    address: contracts.strategyManager,
-    abi: StrategyManagerABI,
-    functionName: 'getAllocation',
-    args: strategyAddress ? [strategyAddress] : undefined,
+// IStrategy metadata for the strategy detail page
+export function useStrategyDetails(strategyAddress: `0x${string}`) {
+  const sdk = useMetaIndexClient();
+
+  const { data: details, isLoading, error, refetch } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'strategyDetails', strategyAddress),
+    queryFn: () => sdk.getStrategyDetails(strategyAddress),
   });
 
-  return {
-    allocation: allocation ? Number(allocation) : 0, // Returns basis points
-    percentage: allocation ? Number(allocation) / 100 : 0, // Convert to percentage
-  };
+  return { details, isLoading, error, refetch };
+}
+
+export function usePauseStrategy() {
+  const sdk = useMetaIndexClient();
+  const { send, hash, isPending, isConfirming, isConfirmed } = useMetaIndexWrite();
+
+  const pause = (strategy: `0x${string}`) => send(() => sdk.pauseStrategy(strategy));
+  const unpause = (strategy: `0x${string}`) => send(() => sdk.unpauseStrategy(strategy));
+
+  return { pause, unpause, hash, isPending, isConfirming, isConfirmed };
 }
@@ -0,0 +1,52 @@
+import { usePublicClient } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { useActiveDeployment } from './useContracts';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import { useStrategies } from './useStrategies';
+import { fetchStrategyEvents } from '../lib/eventIndexer';
+import { pnlShareBps, strategyPnl } from '../lib/strategyPnl';
+
+// Event history and P&L of one strategy. Every current strategy is scanned too,
+// since its share of portfolio P&L needs the P&L of all of them.
+export function useStrategyHistory(strategyAddress: `0x${string}`) {
+  const sdk = useMetaIndexClient();
+  const { chainId } = useActiveDeployment();
+  const client = usePublicClient({ chainId });
+  const { strategies } = useStrategies();
+
+  const addresses = strategies.some((s) => s.toLowerCase() === strategyAddress.toLowerCase())
+    ? strategies
+    : [...strategies, strategyAddress];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'strategyHistory', ...addresses),
+    queryFn: async () => {
+      if (!client) throw new Error('No public client');
+      const [events, allocations] = await Promise.all([
+        Promise.all(addresses.map((address) => fetchStrategyEvents(client, address, sdk.startBlock))),
+        sdk.getStrategyAllocations(addresses),
+      ]);
+      return addresses.map((address, i) => ({
+        address,
+        events: events[i],
+        pnl: strategyPnl(events[i], allocations[i].totalValue ?? 0n),
+      }));
+    },
+    enabled: !!client,
+    // Later scans only fetch new blocks thanks to the IndexedDB range cache
+    refetchInterval: 15_000,
+  });
+
+  const own = data?.find((entry) => entry.address === strategyAddress);
+  const portfolioPnl = data?.reduce((sum, entry) => sum + entry.pnl.pnl, 0n);
+
+  return {
+    events: own?.events ?? [],
+    pnl: own?.pnl,
+    portfolioPnl,
+    pnlShare: own && portfolioPnl !== undefined ? pnlShareBps(own.pnl.pnl, portfolioPnl) : undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import { buildLedger, unrealizedPnl } from '../lib/ledger';
+
+export function useTransactionHistory(address: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+
+  // Under the SDK key so confirmed writes refetch it with every other read
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'history', sdk.contracts.strategyManager.address, sdk.startBlock.toString()),
+    queryFn: () => sdk.getProtocolActivity(),
+    // Later scans only fetch new blocks thanks to the IndexedDB range cache
+    refetchInterval: 15_000,
+  });
+
+  const ledger = useMemo(
+    () => (data && address ? buildLedger(data.vaultEvents, address) : undefined),
+    [data, address],
+  );
+
+  // Value the ledger's share balance at the current share price
+  const { data: currentValue } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'convertToAssets', ledger?.shares.toString()),
+    queryFn: () => sdk.convertToAssets(ledger!.shares),
+    enabled: !!ledger,
+  });
+
+  return {
+    vaultEvents: data?.vaultEvents ?? [],
+    managerEvents: data?.managerEvents ?? [],
+    ledger,
+    currentValue,
+    unrealizedPnl: ledger && currentValue !== undefined ? unrealizedPnl(ledger, currentValue) : undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+export function useBlockTimestamps(blockNumbers: readonly bigint[]) {
+  const sdk = useMetaIndexClient();
+  const unique = [...new Set(blockNumbers)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  // Block timestamps never change, so this stays outside the SDK key that writes invalidate
+  const { data } = useQuery({
+    queryKey: ['blockTimestamps', sdk.publicClient.chain?.id, unique.map(String)],
+    queryFn: () => sdk.getBlockTimestamps(unique),
+    enabled: unique.length > 0,
+    staleTime: Infinity,
+  });
+
+  return data ?? new Map<bigint, number>();
+}
@@ -1,56 +1,31 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { contracts } from '../contracts/addresses';
-import ERC20ABI from '../contracts/abis/MockERC20.json';
+import { useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useAccountSnapshot } from './useProtocolSnapshot';
+import { tokenAmount } from '../lib/amount';
 
 export function useUSDC(userAddress: `0x${string}` | undefined) {
-  // Read balance
-  const { data: balance, refetch: refetchBalance } = useReadContract({
-    address: contracts.usdc,
-    abi: ERC20ABI,
-    functionName: 'balanceOf',
-    args: userAddress ? [userAddress] : undefined,
-  });
+  const sdk = useMetaIndexClient();
 
-  // Read allowance for vault
-  const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: contracts.usdc,
-    abi: ERC20ABI,
-    functionName: 'allowance',
-    args: userAddress ? [userAddress, contracts.vault] : undefined,
-  });
+  // Balance and allowance for the vault, from the dashboard snapshot
+  const { snapshot, account, refetch } = useAccountSnapshot(userAddress);
+  const decimals = snapshot?.vault.assetDecimals;
 
-  // Approve
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  // Approve an amount in raw asset units (see parseAmount)
+  const { send, isPending, isConfirming, isConfirmed } = useMetaIndexWrite();
 
-  const approve = async (amount: string) => {
-    const parsedAmount = parseUnits(amount, 6);
-    return writeContract({
-      address: contracts.usdc,
-      abi: ERC20ABI,
-      functionName: 'approve',
-      args: [contracts.vault, parsedAmount],
-    });
-  };
+  const approve = (amount: bigint) => send(() => sdk.approve(amount));
 
-  const needsApproval = (amount: string): boolean => {
-    if (!allowance) return true;
-    const parsedAmount = parseUnits(amount, 6);
-    return (allowance as bigint) < parsedAmount;
-  };
+  const needsApproval = (amount: bigint): boolean => account === undefined || account.allowance < amount;
 
   return {
-    balance: balance ? formatUnits(balance as bigint, 6) : '0',
-    allowance: allowance ? formatUnits(allowance as bigint, 6) : '0',
+    balance: tokenAmount(account?.assetBalance, decimals),
+    allowance: tokenAmount(account?.allowance, decimals),
+    decimals,
     approve,
     needsApproval,
     isPending,
     isConfirming,
     isConfirmed,
-    refetchBalance,
-    refetchAllowance,
+    refetchBalance: refetch,
+    refetchAllowance: refetch,
   };
 }
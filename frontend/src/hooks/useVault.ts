@@ -1,64 +1,41 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { contracts } from '../contracts/addresses';
-import VaultABI from '../contracts/abis/MetaIndexVault.json';
+import { isAddressEqual } from 'viem';
+import { useQuery } from '@tanstack/react-query';
+import { metaIndexQueryKey, useMetaIndexClient, useMetaIndexWrite } from './useMetaIndexClient';
+import { useAccountSnapshot, useProtocolSnapshot } from './useProtocolSnapshot';
+import { tokenAmount } from '../lib/amount';
 
 export function useVault() {
-  // Read functions
-  const { data: totalAssets } = useReadContract({
-    address: contracts.vault,
-    abi: VaultABI,
-    functionName: 'totalAssets',
-  });
+  const sdk = useMetaIndexClient();
 
-  const { data: tvlCap } = useReadContract({
-    address: contracts.vault,
-    abi: VaultABI,
-    functionName: 'tvlCap',
-  });
+  // Read functions
+  const { data: snapshot } = useProtocolSnapshot();
+  const state = snapshot?.vault;
 
-  const { data: minDeposit } = useReadContract({
-    address: contracts.vault,
-    abi: VaultABI,
-    functionName: 'minDeposit',
-  });
+  // Write functions. The SDK simulates each call first so reverts (TVL cap,
+  // minimum deposit, pause, allowance) throw a decodable error before the wallet prompts.
+  const { send, hash, isPending, isConfirming, isConfirmed, isError, error } = useMetaIndexWrite();
 
-  // Write functions
-  const { data: hash, writeContract, isPending, isError, error } = useWriteContract();
+  // Amounts are raw asset units (see parseAmount)
+  const deposit = (amount: bigint, receiver: `0x${string}`) => send(() => sdk.deposit(amount, receiver));
 
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  const withdraw = (amount: bigint, receiver: `0x${string}`, owner: `0x${string}`) =>
+    send(() => sdk.withdraw(amount, receiver, owner));
 
-  const deposit = async (amount: string, receiver: `0x${string}`) => {
-    const parsedAmount = parseUnits(amount, 6); // USDC has 6 decimals
-    return writeContract({
-      address: contracts.vault,
-      abi: VaultABI,
-      functionName: 'deposit',
-      args: [parsedAmount, receiver],
-    });
-  };
-
-  const withdraw = async (amount: string, receiver: `0x${string}`, owner: `0x${string}`) => {
-    const parsedAmount = parseUnits(amount, 6);
-    return writeContract({
-      address: contracts.vault,
-      abi: VaultABI,
-      functionName: 'withdraw',
-      args: [parsedAmount, receiver, owner],
-    });
-  };
+  // Burn an exact number of shares (raw units), e.g. the whole balance on exit
+  const redeem = (shares: bigint, receiver: `0x${string}`, owner: `0x${string}`) =>
+    send(() => sdk.redeem(shares, receiver, owner));
 
   return {
     // Read values
-    totalAssets: totalAssets ? formatUnits(totalAssets as bigint, 6) : '0',
-    tvlCap: tvlCap ? formatUnits(tvlCap as bigint, 6) : '0',
-    minDeposit: minDeposit ? formatUnits(minDeposit as bigint, 6) : '0',
+    totalAssets: tokenAmount(state?.totalAssets, state?.assetDecimals),
+    tvlCap: tokenAmount(state?.tvlCap, state?.assetDecimals),
+    minDeposit: tokenAmount(state?.minDeposit, state?.assetDecimals),
+    paused: state?.paused ?? false,
 
     // Write functions
     deposit,
     withdraw,
+    redeem,
 
     // Transaction state
     hash,
@@ -70,23 +47,101 @@ export function useVault() {
   };
 }
 
-export function useVaultBalance(address: `0x${string}` | undefined) {
-  const { data: shares } = useReadContract({
-    address: contracts.vault,
-    abi: VaultABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
+// Raw inputs for deposit pre-flight checks (see validateDeposit)
+export function useDepositLimits(receiver: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const { snapshot, account } = useAccountSnapshot(receiver);
+  const state = snapshot?.vault;
+
+  // The snapshot only covers the connected account; other receivers are read directly
+  const { data: receiverMaxDeposit } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'maxDeposit', receiver),
+    queryFn: () => sdk.maxDeposit(receiver!),
+    enabled: !!receiver && !!snapshot && !account,
   });
 
-  const { data: assetsValue } = useReadContract({
-    address: contracts.vault,
-    abi: VaultABI,
-    functionName: 'convertToAssets',
-    args: shares ? [shares] : undefined,
+  return {
+    tvlCap: state?.tvlCap,
+    totalAssets: state?.totalAssets,
+    minDeposit: state?.minDeposit,
+    paused: state?.paused,
+    maxDeposit: account ? account.maxDeposit : receiverMaxDeposit,
+    decimals: state?.assetDecimals,
+  };
+}
+
+export function useVaultBalance(address: `0x${string}` | undefined) {
+  // Shares, their value and the exit limits all come from the same block
+  const { snapshot, account: position } = useAccountSnapshot(address);
+  const state = snapshot?.vault;
+
+  return {
+    // The share token has its own decimals(), not the asset's
+    shares: tokenAmount(position?.shares, state?.decimals),
+    assetsValue: tokenAmount(position?.assets, state?.assetDecimals),
+
+    // Raw values for exact exits
+    shareBalance: position?.shares ?? 0n,
+    maxWithdraw: position?.maxWithdraw ?? 0n,
+    maxRedeem: position?.maxRedeem ?? 0n,
+    shareDecimals: state?.decimals,
+    assetDecimals: state?.assetDecimals,
+  };
+}
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/**
+ * How much `spender` can take out of `owner`'s position. For the owner that is
+ * maxWithdraw/maxRedeem; anyone else also spends the owner's share allowance,
+ * which caps the exit further.
+ */
+export function useExitLimits(owner: `0x${string}` | undefined, spender: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const isDelegated = !!owner && !!spender && !isAddressEqual(owner, spender);
+  const { account } = useAccountSnapshot(isDelegated ? undefined : owner);
+
+  const { data: delegated } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'exitLimits', owner, spender),
+    queryFn: async () => {
+      const [position, allowance] = await Promise.all([
+        sdk.getPosition(owner!),
+        sdk.getShareAllowance(owner!, spender!),
+      ]);
+      // previewRedeem rounds down, so this many assets never needs more shares than allowed
+      const allowanceAssets = await sdk.previewRedeem(allowance);
+      return {
+        maxWithdraw: min(position.maxWithdraw, allowanceAssets),
+        maxRedeem: min(position.maxRedeem, allowance),
+        allowance,
+      };
+    },
+    enabled: isDelegated,
   });
 
+  const limits = isDelegated ? delegated : account;
   return {
-    shares: shares ? formatUnits(shares as bigint, 18) : '0',
-    assetsValue: assetsValue ? formatUnits(assetsValue as bigint, 6) : '0',
+    maxWithdraw: limits?.maxWithdraw ?? 0n,
+    maxRedeem: limits?.maxRedeem ?? 0n,
+    // Only set when withdrawing for another owner
+    allowance: isDelegated ? delegated?.allowance : undefined,
+    isDelegated,
   };
 }
+
+// What an exit of `amount` returns: previewRedeem for shares, previewWithdraw for assets
+export function useWithdrawPreview(mode: 'assets' | 'shares', amount: bigint | undefined) {
+  const sdk = useMetaIndexClient();
+  const enabled = amount !== undefined && amount > 0n;
+
+  const { data: preview } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'withdrawPreview', mode, amount?.toString()),
+    queryFn: () => (mode === 'assets' ? sdk.previewWithdraw(amount!) : sdk.previewRedeem(amount!)),
+    enabled,
+  });
+
+  if (!enabled) return { assets: undefined, shares: undefined };
+  return mode === 'assets'
+    ? { assets: amount, shares: preview }
+    : { assets: preview, shares: amount };
+}
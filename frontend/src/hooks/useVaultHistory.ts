@@ -0,0 +1,55 @@
+import { usePublicClient } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { useActiveDeployment, useContracts } from './useContracts';
+import { useStrategies } from './useStrategies';
+import {
+  RANGE_SECONDS,
+  computeApy,
+  fetchVaultSamples,
+  findBlockAtTimestamp,
+  sampleBlocks,
+  type TimeRange,
+} from '../lib/timeSeries';
+
+const SAMPLE_COUNT = 40;
+
+export function useVaultHistory(range: TimeRange) {
+  const contracts = useContracts();
+  const { chainId, deployment } = useActiveDeployment();
+  const client = usePublicClient({ chainId });
+  const { strategies } = useStrategies();
+  const startBlock = BigInt(deployment?.startBlock ?? 0);
+
+  const { data: samples, isLoading, error } = useQuery({
+    queryKey: ['vaultHistory', chainId, contracts.vault.address, range, strategies],
+    queryFn: async () => {
+      if (!client) throw new Error('No public client');
+
+      const head = await client.getBlock({ blockTag: 'latest' });
+      if (head.number === null) throw new Error('Latest block is pending');
+
+      const window = RANGE_SECONDS[range];
+      const fromBlock = window === undefined
+        ? startBlock
+        : await findBlockAtTimestamp(client, Number(head.timestamp) - window, startBlock, head.number);
+
+      return fetchVaultSamples(
+        client,
+        contracts.vault.address,
+        strategies,
+        sampleBlocks(fromBlock, head.number, SAMPLE_COUNT),
+      );
+    },
+    enabled: !!client,
+    refetchInterval: 60_000,
+  });
+
+  const series = samples ?? [];
+
+  return {
+    samples: series,
+    apy: series.length >= 2 ? computeApy(series[0], series[series.length - 1]) : undefined,
+    isLoading,
+    error,
+  };
+}
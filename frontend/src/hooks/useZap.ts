@@ -0,0 +1,95 @@
+import { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import { metaIndexQueryKey, useMetaIndexClient } from './useMetaIndexClient';
+import { useAssetDecimals } from './useProtocolSnapshot';
+import { decodeContractError } from '../lib/errors';
+import { createZapFlow, runZap, type ZapFlow, type ZapInParams, type ZapOutParams } from '../sdk';
+
+/** Metadata and the connected account's balance for a token to zap from or into. */
+export function useZapToken(token: `0x${string}` | undefined) {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+
+  const { data: info, isLoading, error } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'tokenInfo', token),
+    queryFn: () => sdk.getTokenInfo(token!),
+    enabled: !!token,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const { data: balance } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'tokenBalance', token, address),
+    queryFn: () => sdk.getTokenBalance(token!, address!),
+    enabled: !!token && !!address && !!info,
+  });
+
+  return { info, balance, isLoading, error: error ? 'Not an ERC-20 token on this network' : undefined };
+}
+
+// Router and oracle quote for a swap simulated as the connected account;
+// requoted with every other vault read
+export function useSwapQuote(tokenIn: `0x${string}` | undefined, tokenOut: `0x${string}` | undefined, amountIn: bigint | undefined) {
+  const sdk = useMetaIndexClient();
+  const { address } = useAccount();
+  const enabled = !!tokenIn && !!tokenOut && !!amountIn;
+
+  const { data: quote, isLoading } = useQuery({
+    queryKey: metaIndexQueryKey(sdk, 'swapQuote', tokenIn, tokenOut, amountIn?.toString(), address),
+    queryFn: () => sdk.quoteSwap(tokenIn!, tokenOut!, amountIn!, address),
+    enabled,
+  });
+
+  return { quote: enabled ? quote : undefined, isLoading: enabled && isLoading };
+}
+
+// Zap state machine, driven by runZap. Unlike the deposit flow it is not
+// persisted; a zap interrupted between steps leaves the user holding USDC or
+// the input token, never anything stuck in a contract.
+export function useZapFlow() {
+  const sdk = useMetaIndexClient();
+  const queryClient = useQueryClient();
+  const { address } = useAccount();
+  const decimals = useAssetDecimals();
+
+  const [flow, setFlow] = useState<ZapFlow>();
+  const [isRunning, setIsRunning] = useState(false);
+  const running = useRef(false);
+
+  const advance = async (initial: ZapFlow) => {
+    if (!address || running.current) return false;
+    running.current = true;
+    setIsRunning(true);
+    let latest = initial;
+    try {
+      await runZap(sdk, initial, address, (next) => {
+        latest = next;
+        setFlow(next);
+      });
+      queryClient.invalidateQueries({ queryKey: metaIndexQueryKey(sdk) });
+      return true;
+    } catch (error) {
+      console.error('Zap error:', error);
+      setFlow({ ...latest, error: decodeContractError(error, decimals) });
+      // Earlier steps may have moved funds
+      queryClient.invalidateQueries({ queryKey: metaIndexQueryKey(sdk) });
+      return false;
+    } finally {
+      running.current = false;
+      setIsRunning(false);
+    }
+  };
+
+  const start = (params: ZapInParams | ZapOutParams) => advance(createZapFlow(params));
+
+  // Retry from the failed step; earlier steps are not repeated, and a step
+  // that was sent keeps waiting on its transaction unless it reverted
+  const resume = () => (flow ? advance(flow) : Promise.resolve(false));
+
+  const reset = () => setFlow(undefined);
+
+  const isComplete = !!flow && flow.steps.every((step) => step.status === 'done' || step.status === 'skipped');
+
+  return { flow, isRunning, isComplete, start, resume, reset };
+}
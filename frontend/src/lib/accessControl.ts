@@ -0,0 +1,199 @@
+import type { PublicClient } from 'viem';
+import { metaIndexVaultAbi } from '../contracts/abis';
+import { fetchRoleEvents, type LogPosition, type RoleEvent } from './eventIndexer';
+import { DEFAULT_ADMIN_ROLE, MANAGER_ROLE, roleName } from './roles';
+
+// Role membership rebuilt from RoleGranted/RoleRevoked logs. Shared by the
+// permissions explorer in the app and scripts/role-matrix.ts.
+
+// ERC-165 interface id of OpenZeppelin's IAccessControl
+const ACCESS_CONTROL_INTERFACE_ID = '0x7965db0b';
+
+export interface ProtocolContract {
+  name: string;
+  address: `0x${string}`;
+}
+
+export interface RoleMember {
+  account: `0x${string}`;
+  // The grant that made the account a current member
+  grantedBy: `0x${string}`;
+  grantedAt: LogPosition;
+}
+
+export interface ContractRoles extends ProtocolContract {
+  // False for contracts without AccessControl (e.g. MockPriceOracle on anvil)
+  accessControlled: boolean;
+  roles: Record<`0x${string}`, RoleMember[]>;
+  timeline: RoleEvent[];
+}
+
+export type AccountType = 'eoa' | 'contract';
+
+export interface RoleRisk {
+  id: 'vault-manager-role' | 'eoa-admin-everywhere' | 'no-admin' | 'single-eoa-admin';
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  contract?: `0x${string}`;
+  account?: `0x${string}`;
+}
+
+export interface RoleReport {
+  contracts: ContractRoles[];
+  accountTypes: Record<`0x${string}`, AccountType>;
+  risks: RoleRisk[];
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Replay grant/revoke events in log order to get the current members of each role. */
+export function buildRoleMembership(events: readonly RoleEvent[]): Record<`0x${string}`, RoleMember[]> {
+  const roles: Record<`0x${string}`, RoleMember[]> = {};
+
+  for (const event of events) {
+    const { role, account, sender } = event.args;
+    const members = (roles[role] ?? []).filter((m) => !sameAddress(m.account, account));
+
+    if (event.eventName === 'RoleGranted') {
+      members.push({
+        account,
+        grantedBy: sender,
+        grantedAt: { blockNumber: event.blockNumber, logIndex: event.logIndex, transactionHash: event.transactionHash },
+      });
+    }
+    roles[role] = members;
+  }
+
+  // Drop roles that ended up empty
+  return Object.fromEntries(Object.entries(roles).filter(([, members]) => members.length > 0));
+}
+
+/** Holders of `role` on a contract, or an empty list. */
+export function roleMembers(contract: ContractRoles, role: `0x${string}`): `0x${string}`[] {
+  return (contract.roles[role] ?? []).map((m) => m.account);
+}
+
+export function detectRoleRisks(
+  contracts: readonly ContractRoles[],
+  accountTypes: Readonly<Record<`0x${string}`, AccountType>>,
+  addresses: { vault: `0x${string}`; strategyManager: `0x${string}` },
+): RoleRisk[] {
+  const risks: RoleRisk[] = [];
+  const controlled = contracts.filter((c) => c.accessControlled);
+  const isEoa = (account: `0x${string}`) => accountTypes[account] === 'eoa';
+
+  const manager = controlled.find((c) => sameAddress(c.address, addresses.strategyManager));
+  if (manager && roleMembers(manager, MANAGER_ROLE).some((a) => sameAddress(a, addresses.vault))) {
+    risks.push({
+      id: 'vault-manager-role',
+      severity: 'medium',
+      message: 'MetaIndexVault holds MANAGER_ROLE on StrategyManager, so any vault code path may allocate, withdraw or rebalance',
+      contract: manager.address,
+      account: addresses.vault,
+    });
+  }
+
+  // An EOA that administers every contract is a single key controlling the protocol
+  const everywhere = controlled.length > 1
+    ? roleMembers(controlled[0], DEFAULT_ADMIN_ROLE).filter(
+        (account) => isEoa(account) && controlled.every((c) => roleMembers(c, DEFAULT_ADMIN_ROLE).includes(account)),
+      )
+    : [];
+  for (const account of everywhere) {
+    risks.push({
+      id: 'eoa-admin-everywhere',
+      severity: 'high',
+      message: `EOA ${account} holds DEFAULT_ADMIN_ROLE on every contract`,
+      account,
+    });
+  }
+
+  for (const contract of controlled) {
+    const admins = roleMembers(contract, DEFAULT_ADMIN_ROLE);
+    if (admins.length === 0) {
+      risks.push({
+        id: 'no-admin',
+        severity: 'medium',
+        message: `${contract.name} has no DEFAULT_ADMIN_ROLE holder; its roles can no longer be changed`,
+        contract: contract.address,
+      });
+    } else if (admins.length === 1 && isEoa(admins[0]) && !everywhere.includes(admins[0])) {
+      risks.push({
+        id: 'single-eoa-admin',
+        severity: 'low',
+        message: `${contract.name} is administered by a single EOA (${admins[0]})`,
+        contract: contract.address,
+        account: admins[0],
+      });
+    }
+  }
+
+  return risks;
+}
+
+export async function supportsAccessControl(client: PublicClient, address: `0x${string}`): Promise<boolean> {
+  return client
+    .readContract({
+      address,
+      abi: metaIndexVaultAbi,
+      functionName: 'supportsInterface',
+      args: [ACCESS_CONTROL_INTERFACE_ID],
+    })
+    .catch(() => false);
+}
+
+/** Scan role events for each contract, classify every member and evaluate the risk rules. */
+export async function loadRoleReport(
+  client: PublicClient,
+  contracts: readonly ProtocolContract[],
+  addresses: { vault: `0x${string}`; strategyManager: `0x${string}` },
+  fromBlock: bigint,
+): Promise<RoleReport> {
+  const loaded = await Promise.all(
+    contracts.map(async (contract): Promise<ContractRoles> => {
+      const accessControlled = await supportsAccessControl(client, contract.address);
+      const timeline = accessControlled ? await fetchRoleEvents(client, contract.address, fromBlock) : [];
+      return { ...contract, accessControlled, roles: buildRoleMembership(timeline), timeline };
+    }),
+  );
+
+  const accounts = [...new Set(loaded.flatMap((c) => Object.values(c.roles).flat().map((m) => m.account)))];
+  const codes = await Promise.all(accounts.map((address) => client.getCode({ address })));
+  const accountTypes = Object.fromEntries(
+    accounts.map((account, i) => [account, codes[i] && codes[i] !== '0x' ? 'contract' : 'eoa']),
+  ) as Record<`0x${string}`, AccountType>;
+
+  return { contracts: loaded, accountTypes, risks: detectRoleRisks(loaded, accountTypes, addresses) };
+}
+
+/** JSON-friendly view of a report, keyed by role name, used for audits. */
+export function roleReportToJson(report: RoleReport) {
+  return {
+    contracts: report.contracts.map((contract) => ({
+      name: contract.name,
+      address: contract.address,
+      accessControlled: contract.accessControlled,
+      roles: Object.fromEntries(
+        Object.entries(contract.roles).map(([role, members]) => [
+          roleName(role as `0x${string}`),
+          members.map((m) => ({
+            account: m.account,
+            type: report.accountTypes[m.account],
+            grantedBy: m.grantedBy,
+            blockNumber: Number(m.grantedAt.blockNumber),
+            transactionHash: m.grantedAt.transactionHash,
+          })),
+        ]),
+      ),
+      timeline: contract.timeline.map((event) => ({
+        event: event.eventName,
+        role: roleName(event.args.role),
+        account: event.args.account,
+        sender: event.args.sender,
+        blockNumber: Number(event.blockNumber),
+        transactionHash: event.transactionHash,
+      })),
+    })),
+    risks: report.risks,
+  };
+}
@@ -0,0 +1,310 @@
+import { isAddress, isAddressEqual } from 'viem';
+import type { ProtocolSnapshot } from '../sdk/client';
+import { formatAmount, formatBps } from './amount';
+import type { LogPosition } from './eventIndexer';
+import { absDeviation, BPS_DENOMINATOR } from './rebalance';
+
+// Protocol alerts: admin and operational events from the vault, strategy
+// manager, price oracle and strategies, plus threshold rules evaluated on each
+// snapshot. Shared by scripts/alerts.ts (webhook, file and stdout sinks) and the
+// app's alert center (in-app and browser notifications).
+
+export type AlertEvent = LogPosition & { contract: `0x${string}` } & (
+  | { eventName: 'TVLCapUpdated'; args: { oldCap: bigint; newCap: bigint } }
+  | { eventName: 'StrategyManagerUpdated'; args: { oldManager: `0x${string}`; newManager: `0x${string}` } }
+  | { eventName: 'Paused'; args: { account: `0x${string}` } }
+  | { eventName: 'Unpaused'; args: { account: `0x${string}` } }
+  | { eventName: 'StrategyAdded'; args: { strategy: `0x${string}`; allocation: bigint } }
+  | { eventName: 'StrategyRemoved'; args: { strategy: `0x${string}` } }
+  | { eventName: 'AllocationUpdated'; args: { strategy: `0x${string}`; oldAllocation: bigint; newAllocation: bigint } }
+  | { eventName: 'PriceFeedUpdated'; args: { asset: `0x${string}`; oldFeed: `0x${string}`; newFeed: `0x${string}` } }
+  // Emitted by the strategy itself; `contract` is the strategy
+  | { eventName: 'StrategyPaused' }
+  | { eventName: 'Rebalanced'; args: { totalValue: bigint; timestamp: bigint } }
+);
+
+export type AlertEventName = AlertEvent['eventName'];
+
+export const ALERT_EVENT_NAMES: readonly AlertEventName[] = [
+  'TVLCapUpdated',
+  'StrategyManagerUpdated',
+  'Paused',
+  'Unpaused',
+  'StrategyAdded',
+  'StrategyRemoved',
+  'AllocationUpdated',
+  'PriceFeedUpdated',
+  'StrategyPaused',
+  'Rebalanced',
+];
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+const SEVERITIES: readonly AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export type AlertRule = { id: string; severity: AlertSeverity } & (
+  | {
+      type: 'event';
+      events: AlertEventName[];
+      // Only events emitted by, or naming (strategy, asset), one of these
+      addresses?: `0x${string}`[];
+    }
+  // totalAssets at or above thresholdBps of tvlCap
+  | { type: 'tvl-near-cap'; thresholdBps: bigint }
+  // A strategy further than thresholdBps from its target; defaults to the
+  // manager's deviationThreshold, i.e. whenever a rebalance is due
+  | { type: 'drift'; thresholdBps?: bigint }
+);
+
+export interface Alert {
+  // Dedup key: one per event, one per rule for threshold alerts
+  key: string;
+  rule: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  blockNumber: bigint;
+  transactionHash?: `0x${string}`;
+}
+
+export const DEFAULT_ALERT_RULES: readonly AlertRule[] = [
+  { id: 'vault-paused', type: 'event', events: ['Paused'], severity: 'critical' },
+  { id: 'manager-replaced', type: 'event', events: ['StrategyManagerUpdated'], severity: 'critical' },
+  {
+    id: 'configuration',
+    type: 'event',
+    events: ['TVLCapUpdated', 'StrategyAdded', 'StrategyRemoved', 'AllocationUpdated', 'PriceFeedUpdated'],
+    severity: 'warning',
+  },
+  { id: 'strategy-paused', type: 'event', events: ['StrategyPaused'], severity: 'warning' },
+  { id: 'operations', type: 'event', events: ['Unpaused', 'Rebalanced'], severity: 'info' },
+  { id: 'tvl-near-cap', type: 'tvl-near-cap', thresholdBps: 9_000n, severity: 'warning' },
+  { id: 'drift', type: 'drift', severity: 'warning' },
+];
+
+export class AlertConfigError extends Error {
+  constructor(source: string, issues: string[]) {
+    super(`Invalid alert rules in ${source}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'AlertConfigError';
+  }
+}
+
+/**
+ * Validate rules read from JSON, where thresholds are plain numbers of bps.
+ * Throws an AlertConfigError listing every issue.
+ */
+export function parseAlertRules(raw: unknown, source = 'alert rules'): AlertRule[] {
+  if (!Array.isArray(raw)) throw new AlertConfigError(source, ['expected an array of rules']);
+
+  const issues: string[] = [];
+  const ids = new Set<string>();
+  const bps = (value: unknown, path: string) => {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= Number(BPS_DENOMINATOR)) {
+      return BigInt(value);
+    }
+    issues.push(`${path} must be an integer between 0 and ${BPS_DENOMINATOR}`);
+    return 0n;
+  };
+
+  const rules = raw.map((entry, i): AlertRule | undefined => {
+    const path = `rules[${i}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      issues.push(`${path} must be an object`);
+      return undefined;
+    }
+    const rule = entry as Record<string, unknown>;
+
+    const id = rule.id;
+    if (typeof id !== 'string' || id === '') issues.push(`${path}.id must be a non-empty string`);
+    else if (ids.has(id)) issues.push(`${path}.id "${id}" is used twice`);
+    else ids.add(id);
+
+    const severity = rule.severity as AlertSeverity;
+    if (!SEVERITIES.includes(severity)) issues.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+
+    const base = { id: id as string, severity };
+    switch (rule.type) {
+      case 'event': {
+        const events = rule.events;
+        if (!Array.isArray(events) || events.length === 0) {
+          issues.push(`${path}.events must be a non-empty array`);
+        } else {
+          for (const name of events) {
+            if (!ALERT_EVENT_NAMES.includes(name)) issues.push(`${path}.events: unknown event "${name}"`);
+          }
+        }
+        const addresses = rule.addresses;
+        if (addresses !== undefined && (!Array.isArray(addresses) || !addresses.every((a) => typeof a === 'string' && isAddress(a)))) {
+          issues.push(`${path}.addresses must be an array of addresses`);
+        }
+        return { ...base, type: 'event', events: events as AlertEventName[], addresses: addresses as `0x${string}`[] | undefined };
+      }
+      case 'tvl-near-cap':
+        return { ...base, type: 'tvl-near-cap', thresholdBps: bps(rule.thresholdBps, `${path}.thresholdBps`) };
+      case 'drift':
+        return {
+          ...base,
+          type: 'drift',
+          thresholdBps: rule.thresholdBps === undefined ? undefined : bps(rule.thresholdBps, `${path}.thresholdBps`),
+        };
+      default:
+        issues.push(`${path}.type must be one of event, tvl-near-cap, drift`);
+        return undefined;
+    }
+  });
+
+  if (issues.length > 0) throw new AlertConfigError(source, issues);
+  return rules as AlertRule[];
+}
+
+const short = (address: `0x${string}`) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Title and message of an event, with amounts in the vault asset's decimals
+function describeEvent(event: AlertEvent, decimals: number): { title: string; message: string } {
+  const usdc = (value: bigint) => `${formatAmount({ value, decimals })} USDC`;
+
+  switch (event.eventName) {
+    case 'TVLCapUpdated':
+      return { title: 'TVL cap changed', message: `TVL cap changed from ${usdc(event.args.oldCap)} to ${usdc(event.args.newCap)}` };
+    case 'StrategyManagerUpdated':
+      return {
+        title: 'Strategy manager replaced',
+        message: `The vault's strategy manager changed from ${event.args.oldManager} to ${event.args.newManager}`,
+      };
+    case 'Paused':
+      return { title: 'Vault paused', message: `Deposits and withdrawals were paused by ${event.args.account}` };
+    case 'Unpaused':
+      return { title: 'Vault unpaused', message: `The vault was unpaused by ${event.args.account}` };
+    case 'StrategyAdded':
+      return {
+        title: 'Strategy added',
+        message: `Strategy ${event.args.strategy} was added with a ${formatBps(event.args.allocation)}% allocation`,
+      };
+    case 'StrategyRemoved':
+      return { title: 'Strategy removed', message: `Strategy ${event.args.strategy} was removed` };
+    case 'AllocationUpdated':
+      return {
+        title: 'Allocation changed',
+        message: `Target of ${short(event.args.strategy)} changed from ${formatBps(event.args.oldAllocation)}% to ${formatBps(event.args.newAllocation)}%`,
+      };
+    case 'PriceFeedUpdated':
+      return {
+        title: 'Price feed replaced',
+        message: `Feed for ${event.args.asset} changed from ${event.args.oldFeed} to ${event.args.newFeed}`,
+      };
+    case 'StrategyPaused':
+      return { title: 'Strategy paused', message: `Strategy ${event.contract} stopped accepting deposits` };
+    case 'Rebalanced':
+      return { title: 'Rebalanced', message: `Portfolio rebalanced at a total value of ${usdc(event.args.totalValue)}` };
+  }
+}
+
+function matchesAddresses(event: AlertEvent, addresses: readonly `0x${string}`[]): boolean {
+  const args = ('args' in event ? event.args : {}) as Record<string, unknown>;
+  const involved = [event.contract, args.strategy, args.asset].filter((a): a is `0x${string}` => typeof a === 'string');
+  return involved.some((a) => addresses.some((b) => isAddressEqual(a, b)));
+}
+
+/** Alerts for one event, one per matching event rule. */
+export function eventAlerts(rules: readonly AlertRule[], event: AlertEvent, decimals: number): Alert[] {
+  return rules.flatMap((rule): Alert[] => {
+    if (rule.type !== 'event' || !rule.events.includes(event.eventName)) return [];
+    if (rule.addresses && !matchesAddresses(event, rule.addresses)) return [];
+    return [
+      {
+        key: `${rule.id}:${event.transactionHash}:${event.logIndex}`,
+        rule: rule.id,
+        severity: rule.severity,
+        ...describeEvent(event, decimals),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      },
+    ];
+  });
+}
+
+/** Alerts for the threshold rules that hold at the snapshot's block. */
+export function stateAlerts(rules: readonly AlertRule[], snapshot: ProtocolSnapshot): Alert[] {
+  const { vault, rebalance, strategies, blockNumber } = snapshot;
+
+  return rules.flatMap((rule): Alert[] => {
+    const alert = (title: string, message: string): Alert[] => [
+      { key: rule.id, rule: rule.id, severity: rule.severity, title, message, blockNumber },
+    ];
+
+    if (rule.type === 'tvl-near-cap') {
+      if (vault.tvlCap === 0n) return [];
+      const usedBps = (vault.totalAssets * BPS_DENOMINATOR) / vault.tvlCap;
+      if (usedBps < rule.thresholdBps) return [];
+      const usdc = (value: bigint) => formatAmount({ value, decimals: vault.assetDecimals });
+      return alert('TVL near cap', `TVL is ${usdc(vault.totalAssets)} of a ${usdc(vault.tvlCap)} USDC cap (${formatBps(usedBps)}%)`);
+    }
+
+    if (rule.type === 'drift') {
+      const threshold = rule.thresholdBps ?? rebalance.deviationThreshold;
+      const worst = rebalance.states.reduce<(typeof rebalance.states)[number] | undefined>(
+        (max, state) => (!max || absDeviation(state) > absDeviation(max) ? state : max),
+        undefined,
+      );
+      if (!worst || absDeviation(worst) <= threshold) return [];
+      const name = strategies.find((s) => isAddressEqual(s.address, worst.strategy))?.name ?? short(worst.strategy);
+      return alert(
+        'Allocation drift',
+        `${name} is ${formatBps(absDeviation(worst))}% from its target, above the ${formatBps(threshold)}% threshold`,
+      );
+    }
+
+    return [];
+  });
+}
+
+export interface AlertThrottleOptions {
+  // An alert with the same key is dropped for this long after it was let through
+  dedupWindowMs: number;
+  // At most this many alerts per rateWindowMs; the rest are dropped
+  maxPerWindow: number;
+  rateWindowMs: number;
+}
+
+export const DEFAULT_THROTTLE_OPTIONS: AlertThrottleOptions = {
+  dedupWindowMs: 60 * 60 * 1000,
+  maxPerWindow: 20,
+  rateWindowMs: 60 * 1000,
+};
+
+/** Dedup by alert key and a sliding-window rate limit, on an injectable clock. */
+export class AlertThrottle {
+  // Alerts dropped by the rate limit, for reporting
+  dropped = 0;
+
+  private readonly options: AlertThrottleOptions;
+  private readonly now: () => number;
+  private readonly lastSeen = new Map<string, number>();
+  private sent: number[] = [];
+
+  constructor(options: Partial<AlertThrottleOptions> = {}, now: () => number = Date.now) {
+    this.options = { ...DEFAULT_THROTTLE_OPTIONS, ...options };
+    this.now = now;
+  }
+
+  /** Whether to deliver `alert`; an admitted alert counts against both limits. */
+  admit(alert: Alert): boolean {
+    const now = this.now();
+    const { dedupWindowMs, maxPerWindow, rateWindowMs } = this.options;
+
+    for (const [key, seen] of this.lastSeen) {
+      if (now - seen >= dedupWindowMs) this.lastSeen.delete(key);
+    }
+    if (this.lastSeen.has(alert.key)) return false;
+
+    this.sent = this.sent.filter((time) => now - time < rateWindowMs);
+    if (this.sent.length >= maxPerWindow) {
+      this.dropped++;
+      return false;
+    }
+
+    this.sent.push(now);
+    this.lastSeen.set(alert.key, now);
+    return true;
+  }
+}
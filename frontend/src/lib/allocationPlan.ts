@@ -0,0 +1,69 @@
+import { BPS_DENOMINATOR } from './rebalance';
+import type { StrategyAllocation } from './validation';
+
+// Planning for multi-strategy reweights. StrategyManager only exposes
+// updateAllocation(strategy, bps) and reverts whenever the running total would
+// exceed 10000 bps, so a new portfolio has to be applied as an ordered series
+// of single-strategy updates.
+
+export interface AllocationChange {
+  strategy: `0x${string}`;
+  from: bigint; // basis points
+  to: bigint; // basis points
+}
+
+export interface CapitalMovement {
+  strategy: `0x${string}`;
+  currentValue: bigint;
+  targetValue: bigint;
+  delta: bigint; // signed: positive means the strategy receives funds
+}
+
+const sum = (values: readonly bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+export function totalAllocation(targets: Readonly<Record<`0x${string}`, bigint>>): bigint {
+  return sum(Object.values(targets));
+}
+
+/** Strategies whose target differs from their current on-chain allocation. */
+export function diffAllocations(
+  current: readonly StrategyAllocation[],
+  targets: Readonly<Record<`0x${string}`, bigint>>,
+): AllocationChange[] {
+  return current.flatMap((s) => {
+    const to = targets[s.address] ?? s.allocation;
+    return to === s.allocation ? [] : [{ strategy: s.address, from: s.allocation, to }];
+  });
+}
+
+/**
+ * Order updates so the running total never exceeds 10000 bps: every decrease
+ * runs before any increase. Within each group the input order is kept.
+ */
+export function orderAllocationUpdates(changes: readonly AllocationChange[]): AllocationChange[] {
+  return [...changes.filter((c) => c.to < c.from), ...changes.filter((c) => c.to > c.from)];
+}
+
+/** Updates that restore the original allocations of already-applied changes. */
+export function rollbackUpdates(applied: readonly AllocationChange[]): AllocationChange[] {
+  return orderAllocationUpdates(applied.map((c) => ({ strategy: c.strategy, from: c.to, to: c.from })));
+}
+
+/**
+ * Funds the next rebalance would move to reach the new targets, using the same
+ * integer math as RebalanceLib. `moved` counts each unit once (total deposits).
+ */
+export function estimateCapitalMovement(
+  current: readonly StrategyAllocation[],
+  targets: Readonly<Record<`0x${string}`, bigint>>,
+): { movements: CapitalMovement[]; totalValue: bigint; moved: bigint } {
+  const totalValue = sum(current.map((s) => s.totalValue ?? 0n));
+
+  const movements = current.map((s) => {
+    const currentValue = s.totalValue ?? 0n;
+    const targetValue = (totalValue * (targets[s.address] ?? s.allocation)) / BPS_DENOMINATOR;
+    return { strategy: s.address, currentValue, targetValue, delta: targetValue - currentValue };
+  });
+
+  return { movements, totalValue, moved: sum(movements.map((m) => (m.delta > 0n ? m.delta : 0n))) };
+}
@@ -0,0 +1,107 @@
+import { parseUnits } from 'viem';
+import { BPS_DENOMINATOR } from './rebalance';
+
+// Token amounts stay bigint from the RPC to the screen. Nothing here goes
+// through a float, so balances above 2^53 base units keep every digit and a
+// zero denominator is an explicit case instead of NaN or Infinity.
+
+/** A raw token amount and the decimals() of the token it is denominated in. */
+export interface TokenAmount {
+  value: bigint;
+  decimals: number;
+}
+
+/** `value` as a TokenAmount, or undefined until both parts have loaded. */
+export function tokenAmount(value: bigint | undefined, decimals: number | undefined): TokenAmount | undefined {
+  return value === undefined || decimals === undefined ? undefined : { value, decimals };
+}
+
+// Rescale to `decimals`, truncating when precision is dropped
+function rescale(amount: TokenAmount, decimals: number): bigint {
+  return decimals >= amount.decimals
+    ? amount.value * 10n ** BigInt(decimals - amount.decimals)
+    : amount.value / 10n ** BigInt(amount.decimals - decimals);
+}
+
+/** -1, 0 or 1, comparing exactly even when the two tokens use different decimals. */
+export function compareAmounts(a: TokenAmount, b: TokenAmount): -1 | 0 | 1 {
+  const decimals = Math.max(a.decimals, b.decimals);
+  const left = rescale(a, decimals);
+  const right = rescale(b, decimals);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** `part` as basis points of `whole`, rounded down; undefined when `whole` is zero. */
+export function percentBps(part: TokenAmount, whole: TokenAmount): bigint | undefined {
+  const decimals = Math.max(part.decimals, whole.decimals);
+  const denominator = rescale(whole, decimals);
+  if (denominator === 0n) return undefined;
+  return (rescale(part, decimals) * BPS_DENOMINATOR) / denominator;
+}
+
+/** Basis points as a percentage string, e.g. 1234n -> "12.34". */
+export function formatBps(bps: bigint, fractionDigits = 2): string {
+  return formatAmount({ value: bps, decimals: 2 }, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+}
+
+export interface FormatAmountOptions {
+  minimumFractionDigits?: number;
+  // Rounded half away from zero beyond this; defaults to the token's decimals
+  maximumFractionDigits?: number;
+  locale?: string;
+}
+
+/** Locale-formatted amount with grouping, e.g. "1,234,567.89"; "—" while it is loading. */
+export function formatAmount(amount: TokenAmount | undefined, options: FormatAmountOptions = {}): string {
+  if (!amount) return '—';
+  const { minimumFractionDigits = 0, locale } = options;
+  const fractionDigits = Math.min(options.maximumFractionDigits ?? amount.decimals, amount.decimals);
+
+  const negative = amount.value < 0n;
+  const absolute = negative ? -amount.value : amount.value;
+  // Round to fractionDigits in integer space
+  const dropped = 10n ** BigInt(amount.decimals - fractionDigits);
+  const rounded = (absolute + dropped / 2n) / dropped;
+  const unit = 10n ** BigInt(fractionDigits);
+
+  const fraction = (fractionDigits > 0 ? (rounded % unit).toString().padStart(fractionDigits, '0') : '')
+    .replace(/0+$/, '')
+    .padEnd(minimumFractionDigits, '0');
+
+  const format = new Intl.NumberFormat(locale);
+  const separator = format.formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+  const sign = negative && rounded > 0n ? '-' : '';
+  return `${sign}${format.format(rounded / unit)}${fraction ? `${separator}${fraction}` : ''}`;
+}
+
+/** Dollar-denominated amount (USDC, oracle USD values), to cents by default. */
+export function formatUsd(amount: TokenAmount | undefined, options: FormatAmountOptions = {}): string {
+  if (!amount) return '—';
+  const formatted = formatAmount(amount, { maximumFractionDigits: 2, ...options });
+  return formatted.startsWith('-') ? `-$${formatted.slice(1)}` : `$${formatted}`;
+}
+
+/** Plain decimal string for an input field: no grouping, no rounding. */
+export function toInputValue(amount: TokenAmount): string {
+  return formatAmount(amount, { locale: 'en-US' }).replace(/,/g, '');
+}
+
+/**
+ * Lossy conversion for chart coordinates only. Never compare or do arithmetic
+ * on the result.
+ */
+export function toChartNumber(amount: TokenAmount): number {
+  return Number(toInputValue(amount));
+}
+
+/**
+ * Strict parser for amount inputs: plain digits with an optional decimal point
+ * and at most `decimals` fraction digits. Anything else (signs, exponents,
+ * grouping, surrounding spaces, too much precision) is undefined rather than
+ * silently rounded by parseUnits.
+ */
+export function parseAmount(input: string, decimals: number): bigint | undefined {
+  const pattern = decimals > 0 ? `^(\\d+(\\.\\d{0,${decimals}})?|\\.\\d{1,${decimals}})$` : '^\\d+$';
+  if (!new RegExp(pattern).test(input)) return undefined;
+  return parseUnits(input, decimals);
+}
@@ -0,0 +1,194 @@
+import { isAddressEqual, type PublicClient } from 'viem';
+import { DEPLOYMENT_ADDRESS_FIELDS, type Deployment } from '../contracts/deployments';
+import { createRegistry } from '../contracts/registry';
+import { baseStrategyAbi, metaIndexVaultAbi } from '../contracts/abis';
+import { supportsAccessControl } from './accessControl';
+import { revertReason } from './errors';
+import { BPS_DENOMINATOR } from './rebalance';
+import { DEFAULT_ADMIN_ROLE, GUARDIAN_ROLE, MANAGER_ROLE, ORACLE_MANAGER_ROLE, roleName } from './roles';
+
+// Post-deploy checks that the contracts in a deployment file are wired to each
+// other the way script/Deploy.s.sol leaves them. Used by scripts/doctor.ts.
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export type CheckGroup = 'code' | 'wiring' | 'allocations' | 'oracle' | 'roles';
+
+export interface DoctorCheck {
+  group: CheckGroup;
+  name: string;
+  status: CheckStatus;
+  // What was found when the check failed or was skipped
+  detail?: string;
+}
+
+export interface DoctorReport {
+  chainId: number;
+  checks: DoctorCheck[];
+  passed: boolean;
+}
+
+interface ExpectedRole {
+  contract: 'vault' | 'strategyManager' | 'priceOracle';
+  role: `0x${string}`;
+  account: 'deployer' | 'vault';
+}
+
+// Grants made by the constructors and Deploy.s.sol
+export const EXPECTED_ROLES: readonly ExpectedRole[] = [
+  { contract: 'vault', role: DEFAULT_ADMIN_ROLE, account: 'deployer' },
+  { contract: 'vault', role: MANAGER_ROLE, account: 'deployer' },
+  { contract: 'vault', role: GUARDIAN_ROLE, account: 'deployer' },
+  { contract: 'strategyManager', role: DEFAULT_ADMIN_ROLE, account: 'deployer' },
+  { contract: 'strategyManager', role: MANAGER_ROLE, account: 'vault' },
+  { contract: 'strategyManager', role: MANAGER_ROLE, account: 'deployer' },
+  { contract: 'priceOracle', role: DEFAULT_ADMIN_ROLE, account: 'deployer' },
+  { contract: 'priceOracle', role: ORACLE_MANAGER_ROLE, account: 'deployer' },
+];
+
+// Optional fixture fields Deploy.s.sol writes for the strategies it adds
+const FIXTURE_STRATEGIES = ['strategy1', 'strategy2'] as const;
+
+type Outcome = { status: CheckStatus; detail?: string };
+
+const pass = (): Outcome => ({ status: 'pass' });
+const fail = (detail: string): Outcome => ({ status: 'fail', detail });
+
+// A read that reverts fails its check instead of aborting the run
+async function runCheck(group: CheckGroup, name: string, check: () => Promise<Outcome>): Promise<DoctorCheck> {
+  try {
+    return { group, name, ...(await check()) };
+  } catch (error) {
+    return { group, name, status: 'fail', detail: revertReason(error) ?? (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+const expectAddress = (actual: `0x${string}`, expected: `0x${string}`): Outcome =>
+  isAddressEqual(actual, expected) ? pass() : fail(`got ${actual}, expected ${expected}`);
+
+/**
+ * Run every check against `deployment`. Checks are independent: one contract
+ * missing code fails the checks that read it without hiding the others.
+ */
+export async function runDeploymentChecks(client: PublicClient, deployment: Deployment): Promise<DoctorReport> {
+  const registry = createRegistry(deployment);
+  const { vault, strategyManager, priceOracle } = registry;
+  const chainId = await client.getChainId();
+
+  // Every address but the deployer (an EOA) must be a contract
+  const contractFields = [...DEPLOYMENT_ADDRESS_FIELDS, ...FIXTURE_STRATEGIES.filter((field) => deployment[field])];
+  const code = contractFields.map((field) =>
+    runCheck('code', `${field} has code`, async () => {
+      const address = deployment[field]!;
+      const bytecode = await client.getCode({ address });
+      return bytecode && bytecode !== '0x' ? pass() : fail(`no contract at ${address}`);
+    }),
+  );
+
+  const wiring = [
+    runCheck('wiring', 'vault.strategyManager() is the strategy manager', async () =>
+      expectAddress(await client.readContract({ ...vault, functionName: 'strategyManager' }), deployment.strategyManager),
+    ),
+    runCheck('wiring', 'manager.vault() is the vault', async () =>
+      expectAddress(await client.readContract({ ...strategyManager, functionName: 'vault' }), deployment.vault),
+    ),
+    runCheck('wiring', 'vault.asset() is USDC', async () =>
+      expectAddress(await client.readContract({ ...vault, functionName: 'asset' }), deployment.usdc),
+    ),
+    runCheck('wiring', 'manager.asset() is USDC', async () =>
+      expectAddress(await client.readContract({ ...strategyManager, functionName: 'asset' }), deployment.usdc),
+    ),
+    runCheck('wiring', 'manager.priceOracle() is the price oracle', async () =>
+      expectAddress(await client.readContract({ ...strategyManager, functionName: 'priceOracle' }), deployment.priceOracle),
+    ),
+  ];
+
+  const strategies = await client.readContract({ ...strategyManager, functionName: 'getStrategies' }).catch(() => undefined);
+
+  // Only for the fixture strategies the file names
+  const fixtureStrategies = FIXTURE_STRATEGIES.flatMap((field) => {
+    const address = deployment[field];
+    return address ? [{ field, address }] : [];
+  });
+  const registered = fixtureStrategies.map(({ field, address }) =>
+    runCheck('wiring', `${field} is registered with the manager`, async () => {
+      if (!strategies) return fail('getStrategies() reverted');
+      return strategies.some((s) => isAddressEqual(s, address)) ? pass() : fail(`${address} is not in getStrategies()`);
+    }),
+  );
+
+  // Strategies registered on-chain and those named in the file, once each
+  const strategyAddresses = [...(strategies ?? []), ...fixtureStrategies.map(({ address }) => address)].filter(
+    (address, i, all) => all.findIndex((other) => isAddressEqual(other, address)) === i,
+  );
+  const strategyWiring = strategyAddresses.flatMap((address) => {
+    const strategy = { address, abi: baseStrategyAbi } as const;
+    return [
+      runCheck('wiring', `strategy ${address} vault()`, async () =>
+        expectAddress(await client.readContract({ ...strategy, functionName: 'vault' }), deployment.vault),
+      ),
+      runCheck('wiring', `strategy ${address} strategyManager()`, async () =>
+        expectAddress(await client.readContract({ ...strategy, functionName: 'strategyManager' }), deployment.strategyManager),
+      ),
+      runCheck('wiring', `strategy ${address} asset()`, async () =>
+        expectAddress(await client.readContract({ ...strategy, functionName: 'asset' }), deployment.usdc),
+      ),
+    ];
+  });
+
+  const allocations = runCheck('allocations', `allocations sum to ${BPS_DENOMINATOR} bps`, async () => {
+    if (!strategies) return fail('getStrategies() reverted');
+    const bps = await Promise.all(
+      strategies.map((address) => client.readContract({ ...strategyManager, functionName: 'getAllocation', args: [address] })),
+    );
+    const total = bps.reduce((sum, value) => sum + value, 0n);
+    return total === BPS_DENOMINATOR ? pass() : fail(`sum is ${total} bps across ${strategies.length} strategies`);
+  });
+
+  const oracle = runCheck('oracle', 'oracle has a price feed for USDC', async () =>
+    (await client.readContract({ ...priceOracle, functionName: 'hasPriceFeed', args: [deployment.usdc] }))
+      ? pass()
+      : fail(`hasPriceFeed(${deployment.usdc}) is false`),
+  );
+
+  // MockPriceOracle has no AccessControl, so its role checks are skipped
+  const oracleControlled = await supportsAccessControl(client, deployment.priceOracle);
+  const roles = EXPECTED_ROLES.map(({ contract, role, account }) =>
+    runCheck('roles', `${contract} grants ${roleName(role)} to the ${account}`, async () => {
+      if (contract === 'priceOracle' && !oracleControlled) return { status: 'skip', detail: 'oracle has no AccessControl' };
+      const holder = deployment[account];
+      if (!holder) return { status: 'skip', detail: `no ${account} in the deployment file` };
+      const granted = await client.readContract({
+        address: deployment[contract],
+        abi: metaIndexVaultAbi,
+        functionName: 'hasRole',
+        args: [role, holder],
+      });
+      return granted ? pass() : fail(`${holder} does not hold ${roleName(role)}`);
+    }),
+  );
+
+  const checks = await Promise.all([...code, ...wiring, ...registered, ...strategyWiring, allocations, oracle, ...roles]);
+  return { chainId, checks, passed: checks.every((check) => check.status !== 'fail') };
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = { pass: '✅', fail: '❌', skip: '⏭️ ' };
+
+/** Human-readable report, one line per check grouped by area. */
+export function formatDoctorReport(report: DoctorReport): string {
+  const lines = [`Deployment checks on chain ${report.chainId}`];
+  for (const group of ['code', 'wiring', 'allocations', 'oracle', 'roles'] as const) {
+    const checks = report.checks.filter((check) => check.group === group);
+    if (checks.length === 0) continue;
+    lines.push('', `${group}:`);
+    for (const check of checks) {
+      lines.push(`   ${STATUS_ICONS[check.status]} ${check.name}${check.detail ? ` (${check.detail})` : ''}`);
+    }
+  }
+
+  const failed = report.checks.filter((check) => check.status === 'fail').length;
+  const skipped = report.checks.filter((check) => check.status === 'skip').length;
+  const passed = report.checks.length - failed - skipped;
+  lines.push('', `${passed} passed, ${failed} failed, ${skipped} skipped`);
+  return lines.join('\n');
+}
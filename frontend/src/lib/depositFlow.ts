@@ -0,0 +1,67 @@
+// Persisted state of an in-progress vault deposit. The flow can span an
+// approval and a deposit (or a single EIP-5792 batch), so every transition is
+// written to localStorage and a reload can pick up where the wallet left off
+// instead of stranding the user between steps.
+
+export type DepositMethod =
+  | 'direct' // allowance already covers the amount
+  | 'batch' // EIP-5792 wallet_sendCalls with approve + deposit
+  | 'approve'; // approve, then deposit
+
+export type DepositStage =
+  | 'approving' // approve sent, waiting for its receipt
+  | 'approved' // approval confirmed, deposit not sent yet
+  | 'depositing' // deposit sent, waiting for its receipt
+  | 'batching' // call bundle sent, waiting for its status
+  | 'confirmed';
+
+const DEPOSIT_STAGES: readonly DepositStage[] = ['approving', 'approved', 'depositing', 'batching', 'confirmed'];
+
+export interface DepositFlowState {
+  method: DepositMethod;
+  stage: DepositStage;
+  // Raw asset units, stored as a string so the state is plain JSON
+  amount: string;
+  receiver: `0x${string}`;
+  hash?: `0x${string}`;
+  callsId?: string;
+  // Set when the current stage failed; retrying continues from that stage
+  error?: string;
+}
+
+const STORAGE_PREFIX = 'meta-index:deposit';
+
+export function depositFlowKey(chainId: number, account: `0x${string}`): string {
+  return `${STORAGE_PREFIX}:${chainId}:${account.toLowerCase()}`;
+}
+
+export function loadDepositFlow(key: string): DepositFlowState | undefined {
+  if (typeof localStorage === 'undefined') return undefined;
+  try {
+    const raw = localStorage.getItem(key);
+    const state = raw ? (JSON.parse(raw) as DepositFlowState) : undefined;
+    // Flows saved by an older version may be at a stage this one no longer has
+    return state && DEPOSIT_STAGES.includes(state.stage) ? state : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveDepositFlow(key: string, state: DepositFlowState | undefined): void {
+  if (typeof localStorage === 'undefined') return;
+  if (state) {
+    localStorage.setItem(key, JSON.stringify(state));
+  } else {
+    localStorage.removeItem(key);
+  }
+}
+
+/** Stages that only wait on the chain or wallet and can resume without a prompt. */
+export function isAwaitingResult(state: DepositFlowState | undefined): boolean {
+  if (!state) return false;
+  return (
+    (state.stage === 'approving' && !!state.hash) ||
+    (state.stage === 'depositing' && !!state.hash) ||
+    (state.stage === 'batching' && !!state.callsId)
+  );
+}
@@ -0,0 +1,125 @@
+import { createConnector, type Connector } from 'wagmi';
+import { anvil } from 'wagmi/chains';
+import { getAddress, http, numberToHex, SwitchChainError, type Address, type EIP1193RequestFn } from 'viem';
+
+// A wallet for local development that needs no browser extension. Anvil keeps
+// its default accounts unlocked, so every request, including
+// eth_sendTransaction and eth_signTypedData_v4, is forwarded to the node as is
+// and anvil signs it. Only account selection and chain identity are handled
+// here. Never register this connector outside chain 31337.
+
+export type DevWalletProperties = {
+  /** The node's unlocked accounts, in anvil's order. */
+  getDevAccounts(): Promise<readonly Address[]>;
+  /** Switch the connected account to another unlocked account. */
+  selectAccount(address: Address): Promise<void>;
+};
+
+// Remembers the selected account across reloads
+const STORAGE_KEY = 'devWallet.account';
+
+type DevWalletProvider = { request: EIP1193RequestFn };
+
+devWallet.type = 'devWallet' as const;
+
+export function devWallet() {
+  let account: Address | undefined;
+
+  return createConnector<DevWalletProvider, DevWalletProperties>((config) => {
+    const chain = config.chains.find((c) => c.id === anvil.id) ?? anvil;
+    const transport = config.transports?.[anvil.id] ?? http(chain.rpcUrls.default.http[0]);
+    const forward = transport({ chain, retryCount: 0 }).request as EIP1193RequestFn;
+
+    const getDevAccounts = async () => {
+      const accounts = (await forward({ method: 'eth_accounts' })) as readonly Address[];
+      return accounts.map((x) => getAddress(x));
+    };
+
+    const provider: DevWalletProvider = {
+      request: (async ({ method, params }: { method: string; params?: unknown }) => {
+        switch (method) {
+          case 'eth_accounts':
+          case 'eth_requestAccounts':
+            return account ? [account] : [];
+          case 'eth_chainId':
+            return numberToHex(anvil.id);
+          case 'wallet_switchEthereumChain': {
+            const [{ chainId }] = params as [{ chainId: string }];
+            if (Number(chainId) !== anvil.id) {
+              throw new SwitchChainError(new Error('The dev wallet only runs on the local anvil chain'));
+            }
+            return null;
+          }
+          // There is no token list to add the asset to
+          case 'wallet_watchAsset':
+            return false;
+          default:
+            return forward({ method, params } as Parameters<EIP1193RequestFn>[0]);
+        }
+      }) as EIP1193RequestFn,
+    };
+
+    return {
+      id: 'devWallet',
+      name: 'Anvil Dev Wallet',
+      type: devWallet.type,
+
+      async connect({ chainId, isReconnecting } = {}) {
+        if (chainId && chainId !== anvil.id) {
+          throw new SwitchChainError(new Error('The dev wallet only runs on the local anvil chain'));
+        }
+        const accounts = await getDevAccounts();
+        const stored = await config.storage?.getItem(STORAGE_KEY);
+        // Keep the account picked last time while anvil still has it
+        account = accounts.find((x) => x === stored) ?? accounts[0];
+        if (!account) throw new Error('The anvil node has no unlocked accounts');
+        if (!isReconnecting) await config.storage?.setItem(STORAGE_KEY, account);
+
+        // wagmi types the return value on withCapabilities; plain addresses are all we have
+        return { accounts: [account], chainId: anvil.id } as never;
+      },
+      async disconnect() {
+        account = undefined;
+        await config.storage?.removeItem(STORAGE_KEY);
+      },
+      async getAccounts() {
+        return account ? [account] : [];
+      },
+      async getChainId() {
+        return anvil.id;
+      },
+      async getProvider() {
+        return provider;
+      },
+      async isAuthorized() {
+        return !!(await config.storage?.getItem(STORAGE_KEY));
+      },
+      async switchChain({ chainId }) {
+        await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: numberToHex(chainId) }] });
+        return chain;
+      },
+      onAccountsChanged(accounts) {
+        if (accounts.length === 0) this.onDisconnect();
+        else config.emitter.emit('change', { accounts: accounts.map((x) => getAddress(x)) });
+      },
+      onChainChanged(chainId) {
+        config.emitter.emit('change', { chainId: Number(chainId) });
+      },
+      onDisconnect() {
+        account = undefined;
+        config.emitter.emit('disconnect');
+      },
+
+      getDevAccounts,
+      async selectAccount(address) {
+        account = getAddress(address);
+        await config.storage?.setItem(STORAGE_KEY, account);
+        this.onAccountsChanged([account]);
+      },
+    };
+  });
+}
+
+export function isDevWallet(connector: Connector | undefined): connector is Connector & DevWalletProperties {
+  return connector?.type === devWallet.type;
+}
@@ -0,0 +1,71 @@
+import { BaseError, ContractFunctionRevertedError, UserRejectedRequestError } from 'viem';
+import { formatAmount } from './amount';
+import { roleName } from './roles';
+
+// Turns viem errors from simulations and writes into messages a user can act
+// on. Custom errors are already decoded against the ABI by viem; this maps
+// them (and require() strings) to plain language.
+
+// Raw units unless the caller knows the token's decimals
+const formatArg = (value: unknown, decimals = 0) =>
+  typeof value === 'bigint' ? formatAmount({ value, decimals }) : String(value);
+
+const CUSTOM_ERROR_MESSAGES: Record<string, (args: readonly unknown[], amount: (value: unknown) => string) => string> = {
+  // MetaIndexVault
+  BelowMinimumDeposit: () => 'Amount is below the minimum deposit',
+  ExceedsTVLCap: () => 'Deposit would exceed the vault TVL cap',
+  ZeroAddress: () => 'Address cannot be zero',
+  ZeroAmount: () => 'Amount must be greater than zero',
+  EnforcedPause: () => 'The vault is paused',
+  ExpectedPause: () => 'The vault is not paused',
+  // ERC-4626 / ERC-20
+  ERC4626ExceededMaxDeposit: ([, assets, max], amount) => `Deposit of ${amount(assets)} exceeds the maximum of ${amount(max)}`,
+  ERC4626ExceededMaxMint: () => 'Mint exceeds the maximum for this receiver',
+  ERC4626ExceededMaxWithdraw: ([, assets, max], amount) => `Withdrawal of ${amount(assets)} exceeds the maximum of ${amount(max)}`,
+  ERC4626ExceededMaxRedeem: () => 'Redeem exceeds your share balance',
+  ERC20InsufficientAllowance: ([, allowance, needed], amount) =>
+    `Allowance too low: approved ${amount(allowance)}, needs ${amount(needed)}`,
+  ERC20InsufficientBalance: ([, balance, needed], amount) => `Balance too low: have ${amount(balance)}, need ${amount(needed)}`,
+  ERC20InvalidReceiver: () => 'Cannot transfer to the zero address',
+  ERC20InvalidSpender: () => 'Cannot approve the zero address',
+  // AccessControl
+  AccessControlUnauthorizedAccount: ([, role]) =>
+    `Your account is missing ${typeof role === 'string' ? roleName(role as `0x${string}`) : 'the required role'}`,
+  // PriceOracle
+  PriceFeedNotFound: () => 'No price feed is configured for this asset',
+  StalePrice: () => 'The price feed is stale',
+  InvalidPrice: () => 'The price feed returned an invalid price',
+  InvalidPriceFeed: () => 'Invalid price feed',
+  // Strategies
+  InsufficientTotalValue: () => 'Nothing to rebalance',
+  StrategyNotFound: () => 'The strategy is not registered with the manager',
+};
+
+/** Custom error name or require reason of a failed call, if it reverted. */
+export function revertReason(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) return undefined;
+  return revert.data?.errorName ?? revert.reason;
+}
+
+/**
+ * Readable message for any error thrown by a contract read, simulation or write.
+ * `decimals` formats the token amounts in ERC-4626/ERC-20 errors.
+ */
+export function decodeContractError(error: unknown, decimals?: number): string {
+  if (!(error instanceof BaseError)) return error instanceof Error ? error.message : 'Transaction failed';
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) return 'Request rejected in wallet';
+
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    const name = revert.data?.errorName;
+    if (name && CUSTOM_ERROR_MESSAGES[name]) return CUSTOM_ERROR_MESSAGES[name](revert.data?.args ?? [], (value) => formatArg(value, decimals));
+    // require() strings are already human-readable, e.g. "Rebalancing not needed"
+    if (revert.reason) return revert.reason;
+    if (name) return name;
+  }
+
+  return error.shortMessage;
+}
@@ -0,0 +1,228 @@
+import { getAbiItem, type PublicClient } from 'viem';
+import { baseStrategyAbi, metaIndexVaultAbi, strategyManagerAbi } from '../contracts/abis';
+import { readCachedRange, writeCachedRange } from './logCache';
+
+export const DEFAULT_CHUNK_SIZE = 2_000n;
+
+export interface LogPosition {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+}
+
+export type VaultEvent = LogPosition & (
+  | { eventName: 'Deposited'; args: { user: `0x${string}`; assets: bigint; shares: bigint } }
+  | { eventName: 'Withdrawn'; args: { user: `0x${string}`; assets: bigint; shares: bigint } }
+  | { eventName: 'Transfer'; args: { from: `0x${string}`; to: `0x${string}`; value: bigint } }
+);
+
+export type ManagerEvent = LogPosition & (
+  | { eventName: 'Rebalanced'; args: { totalValue: bigint; timestamp: bigint } }
+  | { eventName: 'StrategyAllocated'; args: { strategy: `0x${string}`; amount: bigint } }
+  | { eventName: 'StrategyDeallocated'; args: { strategy: `0x${string}`; amount: bigint } }
+);
+
+// BaseStrategy events, emitted by the strategy contract itself
+export type StrategyEvent = LogPosition & (
+  | { eventName: 'Deposited'; args: { amount: bigint } }
+  | { eventName: 'Withdrawn'; args: { amount: bigint; recipient: `0x${string}` } }
+  | { eventName: 'StrategyPaused' }
+  | { eventName: 'StrategyUnpaused' }
+);
+
+export type ProtocolEvent = VaultEvent | ManagerEvent;
+
+// OpenZeppelin AccessControl events, tagged with the emitting contract
+export type RoleEvent = LogPosition & { contract: `0x${string}` } & (
+  | { eventName: 'RoleGranted'; args: { role: `0x${string}`; account: `0x${string}`; sender: `0x${string}` } }
+  | { eventName: 'RoleRevoked'; args: { role: `0x${string}`; account: `0x${string}`; sender: `0x${string}` } }
+);
+
+interface ScanParameters<T> {
+  client: PublicClient;
+  // Identifies what is being scanned; bump the suffix when the mapped shape changes
+  key: string;
+  fromBlock: bigint;
+  chunkSize?: bigint;
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+}
+
+/**
+ * Scan [fromBlock, head] in chunks, resuming from the IndexedDB cache when the
+ * cached range still matches the chain. A failing chunk is retried at half the
+ * size, so RPCs with a tighter eth_getLogs range limit still work; each chunk
+ * that succeeds doubles it again, up to `chunkSize`, so one dense range does
+ * not slow down the rest of the scan.
+ */
+export async function scanWithCache<T>({
+  client,
+  key,
+  fromBlock,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  fetchRange,
+}: ScanParameters<T>): Promise<T[]> {
+  const head = await client.getBlock({ blockTag: 'latest' });
+  if (head.number === null || head.hash === null) throw new Error('Latest block is pending');
+
+  let items: T[] = [];
+  let start = fromBlock;
+
+  const cached = await readCachedRange<T>(key);
+  if (cached && cached.fromBlock === fromBlock && cached.toBlock <= head.number) {
+    const cachedTip = await client.getBlock({ blockNumber: cached.toBlock }).catch(() => undefined);
+    if (cachedTip?.hash === cached.toBlockHash) {
+      items = cached.items;
+      start = cached.toBlock + 1n;
+    }
+  }
+
+  let size = chunkSize;
+  while (start <= head.number) {
+    const end = start + size - 1n < head.number ? start + size - 1n : head.number;
+    try {
+      items = items.concat(await fetchRange(start, end));
+      start = end + 1n;
+      size = size * 2n < chunkSize ? size * 2n : chunkSize;
+    } catch (error) {
+      if (size === 1n) throw error;
+      size = size / 2n;
+    }
+  }
+
+  await writeCachedRange({ key, fromBlock, toBlock: head.number, toBlockHash: head.hash, items });
+  return items;
+}
+
+export const byPosition = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+
+export async function fetchVaultEvents(
+  client: PublicClient,
+  vault: `0x${string}`,
+  fromBlock: bigint,
+): Promise<VaultEvent[]> {
+  const events = [
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'Deposited' }),
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'Withdrawn' }),
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'Transfer' }),
+    // redeem() is inherited from ERC4626 and only emits the standard Withdraw
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'Withdraw' }),
+  ];
+
+  const items = await scanWithCache<VaultEvent>({
+    client,
+    key: `${client.chain?.id}:${vault.toLowerCase()}:vault-events:v2`,
+    fromBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({ address: vault, events, fromBlock: from, toBlock: to, strict: true });
+      // A transaction's logs share a block, so they always land in the same range
+      const withdrawnTxs = new Set(logs.filter((log) => log.eventName === 'Withdrawn').map((log) => log.transactionHash));
+
+      return logs.flatMap((log): VaultEvent[] => {
+        const position = { blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash };
+        if (log.eventName !== 'Withdraw') return [{ ...position, eventName: log.eventName, args: log.args } as VaultEvent];
+
+        // withdraw() emits both events; only redeems need the standard one
+        if (withdrawnTxs.has(log.transactionHash)) return [];
+        const { receiver, assets, shares } = log.args;
+        return [{ ...position, eventName: 'Withdrawn', args: { user: receiver, assets, shares } }];
+      });
+    },
+  });
+  return items.sort(byPosition);
+}
+
+export async function fetchManagerEvents(
+  client: PublicClient,
+  strategyManager: `0x${string}`,
+  fromBlock: bigint,
+): Promise<ManagerEvent[]> {
+  const events = [
+    getAbiItem({ abi: strategyManagerAbi, name: 'Rebalanced' }),
+    getAbiItem({ abi: strategyManagerAbi, name: 'StrategyAllocated' }),
+    getAbiItem({ abi: strategyManagerAbi, name: 'StrategyDeallocated' }),
+  ];
+
+  const items = await scanWithCache<ManagerEvent>({
+    client,
+    key: `${client.chain?.id}:${strategyManager.toLowerCase()}:manager-events:v1`,
+    fromBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({
+        address: strategyManager,
+        events,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      });
+      return logs.map((log) => ({
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        eventName: log.eventName,
+        args: log.args,
+      }) as ManagerEvent);
+    },
+  });
+  return items.sort(byPosition);
+}
+
+export async function fetchStrategyEvents(
+  client: PublicClient,
+  strategy: `0x${string}`,
+  fromBlock: bigint,
+): Promise<StrategyEvent[]> {
+  const events = [
+    getAbiItem({ abi: baseStrategyAbi, name: 'Deposited' }),
+    getAbiItem({ abi: baseStrategyAbi, name: 'Withdrawn' }),
+    getAbiItem({ abi: baseStrategyAbi, name: 'StrategyPaused' }),
+    getAbiItem({ abi: baseStrategyAbi, name: 'StrategyUnpaused' }),
+  ];
+
+  const items = await scanWithCache<StrategyEvent>({
+    client,
+    key: `${client.chain?.id}:${strategy.toLowerCase()}:strategy-events:v1`,
+    fromBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({ address: strategy, events, fromBlock: from, toBlock: to, strict: true });
+      return logs.map((log): StrategyEvent => {
+        const position = { blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash };
+        if (log.eventName === 'Deposited' || log.eventName === 'Withdrawn') {
+          return { ...position, eventName: log.eventName, args: log.args } as StrategyEvent;
+        }
+        return { ...position, eventName: log.eventName };
+      });
+    },
+  });
+  return items.sort(byPosition);
+}
+
+export async function fetchRoleEvents(
+  client: PublicClient,
+  contract: `0x${string}`,
+  fromBlock: bigint,
+): Promise<RoleEvent[]> {
+  // The vault, manager and oracle all inherit the same AccessControl events
+  const events = [
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'RoleGranted' }),
+    getAbiItem({ abi: metaIndexVaultAbi, name: 'RoleRevoked' }),
+  ];
+
+  const items = await scanWithCache<RoleEvent>({
+    client,
+    key: `${client.chain?.id}:${contract.toLowerCase()}:role-events:v1`,
+    fromBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({ address: contract, events, fromBlock: from, toBlock: to, strict: true });
+      return logs.map((log) => ({
+        contract,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        eventName: log.eventName,
+        args: log.args,
+      }) as RoleEvent);
+    },
+  });
+  return items.sort(byPosition);
+}
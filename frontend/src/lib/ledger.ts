@@ -0,0 +1,151 @@
+import { zeroAddress } from 'viem';
+import type { LogPosition, VaultEvent } from './eventIndexer';
+
+// Share prices are expressed as assets per 1e18 share units, the same scale as
+// convertToAssets(1e18).
+export const PRICE_SCALE = 10n ** 18n;
+
+export type LedgerEntryType = 'deposit' | 'withdraw' | 'transferIn' | 'transferOut';
+
+export interface LedgerEntry extends LogPosition {
+  type: LedgerEntryType;
+  shares: bigint;
+  // Assets paid or received; for transfers, the shares valued at the last known price
+  assets: bigint;
+  pricePerShare: bigint;
+  // Cost basis removed by this entry and the P&L it realized (withdrawals only)
+  costBasisDelta: bigint;
+  realizedPnl: bigint;
+  sharesAfter: bigint;
+  costBasisAfter: bigint;
+}
+
+export interface SharePricePoint extends LogPosition {
+  pricePerShare: bigint;
+}
+
+export interface PositionLedger {
+  entries: LedgerEntry[];
+  sharePriceHistory: SharePricePoint[];
+  shares: bigint;
+  costBasis: bigint;
+  realizedPnl: bigint;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const priceOf = (assets: bigint, shares: bigint) => (shares === 0n ? 0n : (assets * PRICE_SCALE) / shares);
+
+/**
+ * Build a user's position ledger from vault logs sorted by block and log index.
+ *
+ * Share movements come from ERC-20 Transfer logs (mint = deposit, burn =
+ * withdraw); the asset side comes from the Deposited/Withdrawn log emitted in
+ * the same transaction. Cost basis uses the average-cost method: a withdrawal
+ * or outgoing transfer removes basis pro rata to the shares leaving, and only
+ * withdrawals realize P&L.
+ */
+export function buildLedger(events: readonly VaultEvent[], user: `0x${string}`): PositionLedger {
+  const flowsByTx = new Map<string, { eventName: 'Deposited' | 'Withdrawn'; assets: bigint; shares: bigint }[]>();
+  const sharePriceHistory: SharePricePoint[] = [];
+
+  for (const event of events) {
+    if (event.eventName === 'Transfer') continue;
+
+    const flows = flowsByTx.get(event.transactionHash) ?? [];
+    flows.push({ eventName: event.eventName, assets: event.args.assets, shares: event.args.shares });
+    flowsByTx.set(event.transactionHash, flows);
+
+    if (event.args.shares > 0n) {
+      sharePriceHistory.push({
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        pricePerShare: priceOf(event.args.assets, event.args.shares),
+      });
+    }
+  }
+
+  // Take (and consume) the matching asset flow so two deposits in one
+  // transaction pair up with their own mints.
+  const takeFlow = (txHash: string, eventName: 'Deposited' | 'Withdrawn', shares: bigint) => {
+    const flows = flowsByTx.get(txHash) ?? [];
+    const index = flows.findIndex((f) => f.eventName === eventName && f.shares === shares);
+    return index === -1 ? undefined : flows.splice(index, 1)[0];
+  };
+
+  const entries: LedgerEntry[] = [];
+  let shares = 0n;
+  let costBasis = 0n;
+  let realizedPnl = 0n;
+  let lastPrice = 0n;
+  let priceIndex = 0;
+
+  for (const event of events) {
+    // Track the latest vault-wide share price up to this log
+    while (
+      priceIndex < sharePriceHistory.length &&
+      (sharePriceHistory[priceIndex].blockNumber < event.blockNumber ||
+        (sharePriceHistory[priceIndex].blockNumber === event.blockNumber &&
+          sharePriceHistory[priceIndex].logIndex <= event.logIndex))
+    ) {
+      lastPrice = sharePriceHistory[priceIndex].pricePerShare;
+      priceIndex++;
+    }
+
+    if (event.eventName !== 'Transfer') continue;
+
+    const { from, to, value } = event.args;
+    const incoming = sameAddress(to, user);
+    const outgoing = sameAddress(from, user);
+    if ((!incoming && !outgoing) || value === 0n || (incoming && outgoing)) continue;
+
+    let type: LedgerEntryType;
+    let assets: bigint;
+    let costBasisDelta: bigint;
+    let entryPnl = 0n;
+
+    if (incoming) {
+      const flow = sameAddress(from, zeroAddress) ? takeFlow(event.transactionHash, 'Deposited', value) : undefined;
+      type = flow ? 'deposit' : 'transferIn';
+      // Deposited is emitted after the mint, so fall back to the last price for transfers
+      assets = flow ? flow.assets : (value * lastPrice) / PRICE_SCALE;
+      costBasisDelta = assets;
+      shares += value;
+      costBasis += assets;
+    } else {
+      const flow = sameAddress(to, zeroAddress) ? takeFlow(event.transactionHash, 'Withdrawn', value) : undefined;
+      type = flow ? 'withdraw' : 'transferOut';
+      const basisRemoved = shares === 0n ? 0n : (costBasis * value) / shares;
+      assets = flow ? flow.assets : (value * lastPrice) / PRICE_SCALE;
+      costBasisDelta = -basisRemoved;
+      if (flow) {
+        entryPnl = assets - basisRemoved;
+        realizedPnl += entryPnl;
+      }
+      shares -= value;
+      costBasis -= basisRemoved;
+    }
+
+    entries.push({
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+      type,
+      shares: value,
+      assets,
+      pricePerShare: priceOf(assets, value),
+      costBasisDelta,
+      realizedPnl: entryPnl,
+      sharesAfter: shares,
+      costBasisAfter: costBasis,
+    });
+  }
+
+  return { entries, sharePriceHistory, shares, costBasis, realizedPnl };
+}
+
+/** Unrealized P&L of the remaining position given its current asset value. */
+export function unrealizedPnl(ledger: PositionLedger, currentValue: bigint): bigint {
+  return currentValue - ledger.costBasis;
+}
@@ -0,0 +1,84 @@
+// IndexedDB cache for scanned event-log ranges. Each entry covers one
+// contiguous block range for one scan key (chain + contract + event set), so a
+// reload only has to fetch blocks produced since the last scan.
+
+const DB_NAME = 'meta-index';
+const DB_VERSION = 1;
+const STORE = 'logRanges';
+
+export interface CachedRange<T> {
+  key: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+  // Hash of toBlock, used to detect a reset or reorged chain (e.g. restarted anvil)
+  toBlockHash: `0x${string}`;
+  items: T[];
+}
+
+// Entries are stored as tagged JSON so bigint fields round-trip unchanged.
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? { __bigint: v.toString() } : v));
+}
+
+function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_, v) =>
+    v && typeof v === 'object' && typeof v.__bigint === 'string' ? BigInt(v.__bigint) : v,
+  ) as T;
+}
+
+let dbPromise: Promise<IDBDatabase | undefined> | undefined;
+
+function openDb(): Promise<IDBDatabase | undefined> {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(undefined);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    // A missing cache only costs a rescan, so failures degrade to no caching
+    request.onerror = () => resolve(undefined);
+  });
+  return dbPromise;
+}
+
+export async function readCachedRange<T>(key: string): Promise<CachedRange<T> | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+    request.onsuccess = () => {
+      const record = request.result as { key: string; data: string } | undefined;
+      resolve(record ? deserialize<CachedRange<T>>(record.data) : undefined);
+    };
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+export async function writeCachedRange<T>(range: CachedRange<T>): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put({ key: range.key, data: serialize(range) });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+export async function deleteCachedRange(key: string): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
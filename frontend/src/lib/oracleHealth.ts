@@ -0,0 +1,168 @@
+import { getAbiItem, zeroAddress, type PublicClient } from 'viem';
+import { aggregatorV3InterfaceAbi, mockERC20Abi, priceOracleAbi } from '../contracts/abis';
+import { revertReason } from './errors';
+import { scanWithCache } from './eventIndexer';
+
+// Health of the price feeds behind StrategyManager.totalValueUSD(). getPrice()
+// reverts on stale or invalid Chainlink data, so every asset is checked up front
+// instead of waiting for a transaction to fail.
+
+export const PRICE_DECIMALS = 8; // IPriceOracle prices are 8-decimal USD
+
+// PriceOracle.STALENESS_THRESHOLD, used when the oracle does not expose it (mocks)
+export const DEFAULT_STALENESS_THRESHOLD = 24 * 60 * 60;
+
+export type FeedStatus = 'healthy' | 'stale' | 'invalid' | 'unavailable';
+
+export interface FeedRound {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: number;
+  answeredInRound: bigint;
+  decimals: number;
+  // Seconds since updatedAt at the latest block
+  age: number;
+}
+
+export interface AssetFeedHealth {
+  asset: `0x${string}`;
+  symbol?: string;
+  // getPrice() result, normalized to 8 decimals
+  price?: bigint;
+  // Chainlink aggregator; undefined for oracles without getPriceFeed (MockPriceOracle)
+  feed?: `0x${string}`;
+  round?: FeedRound;
+  status: FeedStatus;
+  reason?: string;
+}
+
+export interface OracleHealth {
+  oracle: `0x${string}`;
+  // True when the oracle has no Chainlink feeds (MockPriceOracle)
+  isMock: boolean;
+  stalenessThreshold: number;
+  assets: AssetFeedHealth[];
+}
+
+function statusFromRevert(reason: string | undefined): FeedStatus {
+  if (reason === 'StalePrice') return 'stale';
+  if (reason === 'InvalidPrice') return 'invalid';
+  return 'unavailable';
+}
+
+// Assets that ever had a Chainlink feed configured. MockPriceOracle.setPrice
+// emits nothing, so callers also pass the assets they already know about.
+async function fetchFeedAssets(client: PublicClient, oracle: `0x${string}`, fromBlock: bigint) {
+  const events = [
+    getAbiItem({ abi: priceOracleAbi, name: 'PriceFeedAdded' }),
+    getAbiItem({ abi: priceOracleAbi, name: 'PriceFeedUpdated' }),
+  ];
+
+  return scanWithCache<`0x${string}`>({
+    client,
+    key: `${client.chain?.id}:${oracle.toLowerCase()}:feed-assets:v1`,
+    fromBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({ address: oracle, events, fromBlock: from, toBlock: to, strict: true });
+      return logs.map((log) => log.args.asset);
+    },
+  });
+}
+
+async function checkAsset(
+  client: PublicClient,
+  oracle: `0x${string}`,
+  asset: `0x${string}`,
+  now: number,
+  stalenessThreshold: number,
+  isMock: boolean,
+): Promise<AssetFeedHealth> {
+  const symbol = await client
+    .readContract({ address: asset, abi: mockERC20Abi, functionName: 'symbol' })
+    .catch(() => undefined);
+
+  let price: bigint | undefined;
+  let priceError: string | undefined;
+  try {
+    price = await client.readContract({ address: oracle, abi: priceOracleAbi, functionName: 'getPrice', args: [asset] });
+  } catch (error) {
+    priceError = revertReason(error) ?? 'getPrice failed';
+  }
+
+  if (isMock) {
+    return { asset, symbol, price, status: priceError ? statusFromRevert(priceError) : 'healthy', reason: priceError };
+  }
+
+  const feed = await client.readContract({
+    address: oracle,
+    abi: priceOracleAbi,
+    functionName: 'getPriceFeed',
+    args: [asset],
+  });
+
+  let round: FeedRound | undefined;
+  try {
+    const [[roundId, answer, , updatedAt, answeredInRound], decimals] = await Promise.all([
+      client.readContract({ address: feed, abi: aggregatorV3InterfaceAbi, functionName: 'latestRoundData' }),
+      client.readContract({ address: feed, abi: aggregatorV3InterfaceAbi, functionName: 'decimals' }),
+    ]);
+    round = { roundId, answer, updatedAt: Number(updatedAt), answeredInRound, decimals, age: now - Number(updatedAt) };
+  } catch (error) {
+    return { asset, symbol, price, feed, status: 'unavailable', reason: revertReason(error) ?? 'Feed did not respond' };
+  }
+
+  // Same checks as PriceOracle.getPrice, so the status explains its revert
+  if (round.answer <= 0n) return { asset, symbol, price, feed, round, status: 'invalid', reason: 'Non-positive answer' };
+  if (round.answeredInRound < round.roundId) {
+    return { asset, symbol, price, feed, round, status: 'stale', reason: 'Answer carried over from an earlier round' };
+  }
+  if (round.age > stalenessThreshold) {
+    return { asset, symbol, price, feed, round, status: 'stale', reason: `Last update ${round.age}s ago` };
+  }
+  if (priceError) return { asset, symbol, price, feed, round, status: statusFromRevert(priceError), reason: priceError };
+  return { asset, symbol, price, feed, round, status: 'healthy' };
+}
+
+/**
+ * Check every asset with a configured feed. `knownAssets` (e.g. USDC and the
+ * strategies' assets) are checked alongside any asset found in feed events.
+ */
+export async function fetchOracleHealth(
+  client: PublicClient,
+  oracle: `0x${string}`,
+  knownAssets: readonly `0x${string}`[],
+  fromBlock: bigint,
+): Promise<OracleHealth> {
+  // Only the Chainlink-backed PriceOracle exposes the staleness constant
+  const threshold = await client
+    .readContract({ address: oracle, abi: priceOracleAbi, functionName: 'STALENESS_THRESHOLD' })
+    .catch(() => undefined);
+  const isMock = threshold === undefined;
+  const stalenessThreshold = threshold === undefined ? DEFAULT_STALENESS_THRESHOLD : Number(threshold);
+
+  const [head, eventAssets] = await Promise.all([
+    client.getBlock({ blockTag: 'latest' }),
+    isMock ? Promise.resolve([]) : fetchFeedAssets(client, oracle, fromBlock),
+  ]);
+
+  const candidates = [
+    ...new Map(
+      [...knownAssets, ...eventAssets]
+        .filter((asset) => asset !== zeroAddress)
+        .map((asset) => [asset.toLowerCase(), asset]),
+    ).values(),
+  ];
+  const hasFeed = await Promise.all(
+    candidates.map((asset) =>
+      client.readContract({ address: oracle, abi: priceOracleAbi, functionName: 'hasPriceFeed', args: [asset] }),
+    ),
+  );
+
+  const assets = await Promise.all(
+    candidates
+      .filter((_, i) => hasFeed[i])
+      .map((asset) => checkAsset(client, oracle, asset, Number(head.timestamp), stalenessThreshold, isMock)),
+  );
+
+  return { oracle, isMock, stalenessThreshold, assets };
+}
@@ -0,0 +1,42 @@
+import { BPS_DENOMINATOR } from './rebalance';
+
+// What a share balance is backed by. The vault's totalAssets() is only the
+// asset it holds idle; the rest sits in the strategies, so a holder owns
+// shares / totalSupply of the idle balance and of every strategy's
+// totalValue(). The slices ignore ERC-4626's virtual offset, so they can differ
+// from convertToAssets by a few base units.
+
+export interface PortfolioSlice {
+  // undefined for the vault's idle balance
+  strategy?: `0x${string}`;
+  name: string;
+  // The holder's pro-rata amount, in asset units
+  value: bigint;
+  // Basis points of the holder's total
+  weight: bigint;
+}
+
+export interface PortfolioBreakdown {
+  slices: PortfolioSlice[];
+  total: bigint;
+}
+
+/** `shares` split across the vault's idle balance and each strategy, rounded down. */
+export function portfolioBreakdown(
+  shares: bigint,
+  vault: { totalAssets: bigint; totalSupply: bigint },
+  strategies: readonly { address: `0x${string}`; name: string; totalValue: bigint }[],
+): PortfolioBreakdown {
+  const slice = (value: bigint) => (vault.totalSupply === 0n ? 0n : (value * shares) / vault.totalSupply);
+
+  const values = [
+    { name: 'Idle in vault', value: slice(vault.totalAssets) },
+    ...strategies.map((s) => ({ strategy: s.address, name: s.name, value: slice(s.totalValue) })),
+  ];
+  const total = values.reduce((sum, v) => sum + v.value, 0n);
+
+  return {
+    slices: values.map((v) => ({ ...v, weight: total === 0n ? 0n : (v.value * BPS_DENOMINATOR) / total })),
+    total,
+  };
+}
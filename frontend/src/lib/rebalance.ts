@@ -0,0 +1,129 @@
+// TypeScript port of the on-chain RebalanceLib planning helpers.
+// All math is done on bigint with the same integer division as Solidity so the
+// plan shown in the UI matches what StrategyManager.rebalance() will execute.
+
+export const BPS_DENOMINATOR = 10_000n; // 100% = 10000 basis points
+
+export const ACTION_WITHDRAW = 0;
+export const ACTION_DEPOSIT = 1;
+
+export interface AllocationState {
+  strategy: `0x${string}`;
+  targetAllocation: bigint; // basis points
+  currentValue: bigint;
+  currentAllocation: bigint; // basis points
+  deviation: bigint; // signed, basis points
+}
+
+export interface RebalanceAction {
+  strategy: `0x${string}`;
+  action: typeof ACTION_WITHDRAW | typeof ACTION_DEPOSIT;
+  amount: bigint;
+}
+
+export interface RebalancePlan {
+  deposits: RebalanceAction[];
+  withdrawals: RebalanceAction[];
+}
+
+export interface RebalanceTotals {
+  totalDeposits: bigint;
+  totalWithdrawals: bigint;
+}
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+// Solidity 0.8 checked multiplication: reverts instead of wrapping
+function mul(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  if (product > MAX_UINT256) throw new Error('Panic: arithmetic overflow');
+  return product;
+}
+
+/**
+ * Mirrors RebalanceLib.calculateAllocationStates. Current allocations are
+ * rounded down to whole basis points, so they may not sum to 10000.
+ */
+export function calculateAllocationStates(
+  strategies: readonly `0x${string}`[],
+  targetAllocations: readonly bigint[],
+  strategyValues: readonly bigint[],
+  totalValue: bigint,
+): AllocationState[] {
+  if (strategies.length !== targetAllocations.length) throw new Error('InvalidAllocation');
+  if (strategies.length !== strategyValues.length) throw new Error('InvalidAllocation');
+  if (totalValue === 0n) throw new Error('InsufficientTotalValue');
+
+  return strategies.map((strategy, i) => {
+    const currentAllocation = mul(strategyValues[i], BPS_DENOMINATOR) / totalValue;
+    return {
+      strategy,
+      targetAllocation: targetAllocations[i],
+      currentValue: strategyValues[i],
+      currentAllocation,
+      deviation: currentAllocation - targetAllocations[i],
+    };
+  });
+}
+
+export function absDeviation(state: AllocationState): bigint {
+  return state.deviation >= 0n ? state.deviation : -state.deviation;
+}
+
+/**
+ * Mirrors RebalanceLib.needsRebalancing: true if any strategy deviates from its
+ * target by strictly more than the threshold.
+ */
+export function needsRebalancing(states: readonly AllocationState[], deviationThreshold: bigint): boolean {
+  return states.some((state) => absDeviation(state) > deviationThreshold);
+}
+
+/**
+ * Mirrors RebalanceLib.calculateRebalanceActions. Strategies already at their
+ * target value produce no action.
+ */
+export function calculateRebalanceActions(
+  states: readonly AllocationState[],
+  totalValue: bigint,
+): RebalanceAction[] {
+  if (totalValue === 0n) throw new Error('InsufficientTotalValue');
+
+  const actions: RebalanceAction[] = [];
+  for (const state of states) {
+    const targetValue = mul(totalValue, state.targetAllocation) / BPS_DENOMINATOR;
+
+    if (targetValue > state.currentValue) {
+      actions.push({ strategy: state.strategy, action: ACTION_DEPOSIT, amount: targetValue - state.currentValue });
+    } else if (targetValue < state.currentValue) {
+      actions.push({ strategy: state.strategy, action: ACTION_WITHDRAW, amount: state.currentValue - targetValue });
+    }
+  }
+  return actions;
+}
+
+/** Mirrors RebalanceLib.calculateTotals. */
+export function calculateTotals(actions: readonly RebalanceAction[]): RebalanceTotals {
+  let totalDeposits = 0n;
+  let totalWithdrawals = 0n;
+  for (const action of actions) {
+    if (action.action === ACTION_DEPOSIT) totalDeposits += action.amount;
+    else totalWithdrawals += action.amount;
+  }
+  return { totalDeposits, totalWithdrawals };
+}
+
+/**
+ * Mirrors RebalanceLib.separateActions, preserving the original ordering within
+ * each group (withdrawals are executed first on-chain).
+ */
+export function separateActions(actions: readonly RebalanceAction[]): RebalancePlan {
+  return {
+    deposits: actions.filter((a) => a.action === ACTION_DEPOSIT),
+    withdrawals: actions.filter((a) => a.action !== ACTION_DEPOSIT),
+  };
+}
+
+/** Mirrors RebalanceLib.validateAllocations: target allocations must sum to exactly 100%. */
+export function validateAllocations(targetAllocations: readonly bigint[]): boolean {
+  return targetAllocations.reduce((sum, allocation) => sum + allocation, 0n) === BPS_DENOMINATOR;
+}
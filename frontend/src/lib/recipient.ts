@@ -0,0 +1,54 @@
+import { isAddressEqual, parseAbi, type PublicClient } from 'viem';
+
+// Checks for the receiver and owner fields of the vault modals. Tokens sent to
+// a contract that cannot move them are gone, so contract receivers get a
+// warning unless they are a Safe, and the protocol's own contracts, which never
+// sweep stray balances, are rejected outright.
+
+export type RecipientKind =
+  | 'account' // EOA, including EIP-7702 delegated accounts
+  | 'safe' // Safe multisig, answers getThreshold()
+  | 'contract';
+
+export interface RecipientCheck {
+  kind: RecipientKind;
+  // Blocks the transaction
+  error?: string;
+  // Shown, but the transaction can still be sent
+  warning?: string;
+}
+
+// EIP-7702 delegation designator: an EOA that runs another contract's code
+const DELEGATION_PREFIX = '0xef0100';
+
+const safeAbi = parseAbi(['function getThreshold() view returns (uint256)']);
+
+/**
+ * Classify `address` from its code. `protocolContracts` maps labels to the
+ * deployment's addresses; `token` names what is being sent for the messages.
+ */
+export async function inspectRecipient(
+  client: PublicClient,
+  address: `0x${string}`,
+  protocolContracts: Readonly<Record<string, `0x${string}`>>,
+  token: string,
+): Promise<RecipientCheck> {
+  const label = Object.keys(protocolContracts).find((name) => isAddressEqual(protocolContracts[name], address));
+  if (label) {
+    return { kind: 'contract', error: `${token} sent to the ${label} contract cannot be recovered` };
+  }
+
+  const code = await client.getCode({ address });
+  if (!code || code === '0x' || code.startsWith(DELEGATION_PREFIX)) return { kind: 'account' };
+
+  const isSafe = await client
+    .readContract({ address, abi: safeAbi, functionName: 'getThreshold' })
+    .then((threshold) => threshold > 0n)
+    .catch(() => false);
+  if (isSafe) return { kind: 'safe' };
+
+  return {
+    kind: 'contract',
+    warning: `This address is a contract. Make sure it can transfer ${token} out, or they will be stuck.`,
+  };
+}
@@ -0,0 +1,19 @@
+import { keccak256, stringToHex, zeroHash } from 'viem';
+
+// Role ids as defined by the contracts (keccak256 of the role name, admin = 0x00)
+export const DEFAULT_ADMIN_ROLE = zeroHash;
+export const MANAGER_ROLE = keccak256(stringToHex('MANAGER_ROLE'));
+export const GUARDIAN_ROLE = keccak256(stringToHex('GUARDIAN_ROLE'));
+export const ORACLE_MANAGER_ROLE = keccak256(stringToHex('ORACLE_MANAGER_ROLE'));
+
+export const ROLE_NAMES: Record<`0x${string}`, string> = {
+  [DEFAULT_ADMIN_ROLE]: 'DEFAULT_ADMIN_ROLE',
+  [MANAGER_ROLE]: 'MANAGER_ROLE',
+  [GUARDIAN_ROLE]: 'GUARDIAN_ROLE',
+  [ORACLE_MANAGER_ROLE]: 'ORACLE_MANAGER_ROLE',
+};
+
+/** Human-readable role name, falling back to the raw id for unknown roles. */
+export function roleName(role: `0x${string}`): string {
+  return ROLE_NAMES[role] ?? role;
+}
@@ -0,0 +1,38 @@
+import { BPS_DENOMINATOR } from './rebalance';
+import type { StrategyEvent } from './eventIndexer';
+
+export interface StrategyPnl {
+  deposited: bigint;
+  withdrawn: bigint;
+  // Capital the manager still has in the strategy: deposited - withdrawn
+  netInvested: bigint;
+  currentValue: bigint;
+  // Gains and losses that did not come from the manager (yield, donations, slippage)
+  pnl: bigint;
+}
+
+/**
+ * P&L of a strategy since `fromBlock` of its event scan: its current
+ * totalValue() minus the net capital the manager moved in through
+ * Deposited/Withdrawn.
+ */
+export function strategyPnl(events: readonly StrategyEvent[], currentValue: bigint): StrategyPnl {
+  let deposited = 0n;
+  let withdrawn = 0n;
+  for (const event of events) {
+    if (event.eventName === 'Deposited') deposited += event.args.amount;
+    else if (event.eventName === 'Withdrawn') withdrawn += event.args.amount;
+  }
+
+  const netInvested = deposited - withdrawn;
+  return { deposited, withdrawn, netInvested, currentValue, pnl: currentValue - netInvested };
+}
+
+/**
+ * A strategy's share of the portfolio P&L in basis points. Negative when the
+ * strategy moved against the portfolio; undefined when the portfolio is flat.
+ */
+export function pnlShareBps(pnl: bigint, portfolioPnl: bigint): bigint | undefined {
+  if (portfolioPnl === 0n) return undefined;
+  return (pnl * BPS_DENOMINATOR) / portfolioPnl;
+}
@@ -0,0 +1,117 @@
+import type { PublicClient } from 'viem';
+import { baseStrategyAbi, metaIndexVaultAbi } from '../contracts/abis';
+import { PRICE_SCALE } from './ledger';
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export type TimeRange = '1D' | '1W' | '1M' | 'All';
+
+export const RANGE_SECONDS: Record<TimeRange, number | undefined> = {
+  '1D': 24 * 60 * 60,
+  '1W': 7 * 24 * 60 * 60,
+  '1M': 30 * 24 * 60 * 60,
+  All: undefined,
+};
+
+export interface VaultSample {
+  blockNumber: bigint;
+  timestamp: number;
+  // convertToAssets(1e18)
+  pricePerShare: bigint;
+  totalAssets: bigint;
+  // IStrategy.totalValue() per strategy; undefined if it did not exist yet
+  strategyValues: Record<`0x${string}`, bigint | undefined>;
+}
+
+/**
+ * Binary-search the first block at or after a timestamp. Block times are not
+ * assumed to be regular (anvil only mines on demand).
+ */
+export async function findBlockAtTimestamp(
+  client: PublicClient,
+  timestamp: number,
+  low: bigint,
+  high: bigint,
+): Promise<bigint> {
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    const block = await client.getBlock({ blockNumber: mid });
+    if (Number(block.timestamp) < timestamp) {
+      low = mid + 1n;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/** Up to `count` evenly spaced block numbers covering [fromBlock, toBlock]. */
+export function sampleBlocks(fromBlock: bigint, toBlock: bigint, count: number): bigint[] {
+  const span = toBlock - fromBlock;
+  if (span <= 0n) return [toBlock];
+
+  const steps = BigInt(count - 1) < span ? BigInt(count - 1) : span;
+  const blocks: bigint[] = [];
+  for (let i = 0n; i <= steps; i++) {
+    blocks.push(fromBlock + (span * i) / steps);
+  }
+  return blocks;
+}
+
+/**
+ * Read share price, TVL and strategy values at each block through historical
+ * eth_calls. Reads that revert (contract not deployed yet, empty vault) are
+ * skipped rather than failing the whole series.
+ */
+export async function fetchVaultSamples(
+  client: PublicClient,
+  vault: `0x${string}`,
+  strategies: readonly `0x${string}`[],
+  blocks: readonly bigint[],
+): Promise<VaultSample[]> {
+  const samples = await Promise.all(
+    blocks.map(async (blockNumber): Promise<VaultSample | undefined> => {
+      try {
+        const [block, pricePerShare, totalAssets, ...values] = await Promise.all([
+          client.getBlock({ blockNumber }),
+          client.readContract({
+            address: vault,
+            abi: metaIndexVaultAbi,
+            functionName: 'convertToAssets',
+            args: [PRICE_SCALE],
+            blockNumber,
+          }),
+          client.readContract({ address: vault, abi: metaIndexVaultAbi, functionName: 'totalAssets', blockNumber }),
+          ...strategies.map((strategy) =>
+            client
+              .readContract({ address: strategy, abi: baseStrategyAbi, functionName: 'totalValue', blockNumber })
+              .catch(() => undefined),
+          ),
+        ]);
+
+        return {
+          blockNumber,
+          timestamp: Number(block.timestamp),
+          pricePerShare,
+          totalAssets,
+          strategyValues: Object.fromEntries(strategies.map((s, i) => [s, values[i]])),
+        };
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+  return samples.filter((sample): sample is VaultSample => sample !== undefined);
+}
+
+/**
+ * Annualized (compounded) return between two share prices, or undefined when
+ * the window is too short or has no starting price.
+ */
+export function computeApy(start: VaultSample, end: VaultSample): number | undefined {
+  const elapsed = end.timestamp - start.timestamp;
+  if (elapsed <= 0 || start.pricePerShare === 0n) return undefined;
+
+  const growth = Number((end.pricePerShare * PRICE_SCALE) / start.pricePerShare) / Number(PRICE_SCALE);
+  return Math.pow(growth, SECONDS_PER_YEAR / elapsed) - 1;
+}
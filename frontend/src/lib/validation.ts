@@ -0,0 +1,167 @@
+import { isAddress, zeroAddress } from 'viem';
+import { formatAmount, formatBps, tokenAmount } from './amount';
+import { BPS_DENOMINATOR, validateAllocations } from './rebalance';
+import { MAX_SLIPPAGE_TOLERANCE } from './zap';
+
+// Client-side copies of the contracts' input checks, so admin forms can explain
+// a revert before a transaction is sent. Each validator returns an error
+// message, or undefined when the input is acceptable.
+
+export const MAX_DEVIATION_THRESHOLD = 2_000n; // StrategyManager.setDeviationThreshold: max 20%
+
+export interface StrategyAllocation {
+  address: `0x${string}`;
+  allocation: bigint;
+  totalValue?: bigint;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function validateAddress(value: string): string | undefined {
+  if (!isAddress(value, { strict: false })) return 'Not a valid address';
+  if (sameAddress(value, zeroAddress)) return 'Address cannot be zero';
+  return undefined;
+}
+
+/** Mirrors StrategyManager.addStrategy. */
+export function validateAddStrategy(
+  strategy: string,
+  allocation: bigint,
+  current: readonly StrategyAllocation[],
+): string | undefined {
+  const addressError = validateAddress(strategy);
+  if (addressError) return addressError;
+  if (current.some((s) => sameAddress(s.address, strategy))) return 'Strategy already exists';
+  if (allocation > BPS_DENOMINATOR) return 'Allocation cannot exceed 10000 bps';
+
+  const total = current.reduce((sum, s) => sum + s.allocation, 0n) + allocation;
+  if (total > BPS_DENOMINATOR) return `Total allocation would be ${total} bps (max 10000)`;
+  return undefined;
+}
+
+/** Mirrors StrategyManager.updateAllocation. */
+export function validateUpdateAllocation(
+  strategy: string,
+  newAllocation: bigint,
+  current: readonly StrategyAllocation[],
+): string | undefined {
+  const existing = current.find((s) => sameAddress(s.address, strategy));
+  if (!existing) return 'Strategy not found';
+  if (newAllocation > BPS_DENOMINATOR) return 'Allocation cannot exceed 10000 bps';
+
+  const total = current.reduce((sum, s) => sum + s.allocation, 0n) - existing.allocation + newAllocation;
+  if (total > BPS_DENOMINATOR) return `Total allocation would be ${total} bps (max 10000)`;
+  return undefined;
+}
+
+/** Mirrors StrategyManager.removeStrategy. */
+export function validateRemoveStrategy(
+  strategy: string,
+  current: readonly StrategyAllocation[],
+): string | undefined {
+  const existing = current.find((s) => sameAddress(s.address, strategy));
+  if (!existing) return 'Strategy not found';
+  if (existing.totalValue !== undefined && existing.totalValue > 0n) return 'Strategy has funds';
+  return undefined;
+}
+
+/** Mirrors StrategyManager.setDeviationThreshold. */
+export function validateDeviationThreshold(threshold: bigint): string | undefined {
+  if (threshold > MAX_DEVIATION_THRESHOLD) return 'Threshold too high (max 2000 bps)';
+  return undefined;
+}
+
+/**
+ * The contracts accept partial allocations, but RebalanceLib.validateAllocations
+ * only holds once targets sum to 10000 bps. Returns a warning when they do not.
+ */
+export function allocationSumWarning(allocations: readonly bigint[]): string | undefined {
+  if (allocations.length === 0 || validateAllocations(allocations)) return undefined;
+  const total = allocations.reduce((sum, a) => sum + a, 0n);
+  return `Allocations sum to ${total} bps; rebalancing targets assume 10000`;
+}
+
+export interface DepositLimits {
+  balance?: bigint;
+  tvlCap?: bigint;
+  totalAssets?: bigint;
+  minDeposit?: bigint;
+  paused?: boolean;
+  // ERC4626.maxDeposit(receiver)
+  maxDeposit?: bigint;
+  // Asset decimals() for the messages
+  decimals?: number;
+}
+
+/** Mirrors MetaIndexVault.deposit. Limits that have not loaded yet are skipped. */
+export function validateDeposit(amount: bigint | undefined, limits: DepositLimits): string | undefined {
+  if (limits.paused) return 'Deposits are paused';
+  if (amount === undefined) return 'Enter a valid amount';
+  if (amount === 0n) return 'Amount must be greater than zero';
+  if (limits.balance !== undefined && amount > limits.balance) return 'Amount exceeds your USDC balance';
+  const format = (value: bigint) => formatAmount(tokenAmount(value, limits.decimals));
+  if (limits.minDeposit !== undefined && amount < limits.minDeposit) {
+    return `Minimum deposit is ${format(limits.minDeposit)} USDC`;
+  }
+  if (limits.tvlCap !== undefined && limits.totalAssets !== undefined) {
+    const room = limits.tvlCap > limits.totalAssets ? limits.tvlCap - limits.totalAssets : 0n;
+    if (amount > room) return `Vault TVL cap leaves room for ${format(room)} USDC`;
+  }
+  if (limits.maxDeposit !== undefined && amount > limits.maxDeposit) {
+    return `Vault accepts at most ${format(limits.maxDeposit)} USDC for this receiver`;
+  }
+  return undefined;
+}
+
+/**
+ * Mirrors ERC4626 withdraw/redeem against maxWithdraw or maxRedeem. When
+ * exiting for another owner, `delegated` is the owner's share allowance and the
+ * shares the exit burns (previewWithdraw, or the amount itself for redeem).
+ */
+export function validateWithdraw(
+  amount: bigint | undefined,
+  max: bigint,
+  delegated?: { allowance: bigint; shares?: bigint },
+): string | undefined {
+  if (amount === undefined) return 'Enter a valid amount';
+  if (amount === 0n) return 'Amount must be greater than zero';
+  if (delegated?.allowance === 0n) return 'The owner has not approved you to spend their shares';
+  if (delegated?.shares !== undefined && delegated.shares > delegated.allowance) {
+    return 'Amount exceeds the share allowance the owner granted you';
+  }
+  if (amount > max) return 'Amount exceeds what you can withdraw';
+  return undefined;
+}
+
+/** Mirrors ERC20.transfer on the share token. */
+export function validateShareTransfer(to: string, amount: bigint | undefined, balance: bigint): string | undefined {
+  const addressError = validateAddress(to);
+  if (addressError) return addressError;
+  if (amount === undefined) return 'Enter a valid amount';
+  if (amount === 0n) return 'Amount must be greater than zero';
+  if (amount > balance) return 'Amount exceeds your share balance';
+  return undefined;
+}
+
+/** Slippage tolerance for a zap's swap; it becomes amountOutMinimum. */
+export function validateSlippageTolerance(bps: bigint | undefined): string | undefined {
+  if (bps === undefined) return 'Enter a valid slippage tolerance';
+  if (bps > MAX_SLIPPAGE_TOLERANCE) return `Slippage tolerance cannot exceed ${formatBps(MAX_SLIPPAGE_TOLERANCE)}%`;
+  return undefined;
+}
+
+/** A zap's swap input and its quote. The vault's limits apply to the USDC it yields. */
+export function validateZapSwap(
+  token: string,
+  amount: bigint | undefined,
+  balance: bigint | undefined,
+  quote: { amountOut: bigint } | undefined,
+): string | undefined {
+  const addressError = validateAddress(token);
+  if (addressError) return addressError;
+  if (amount === undefined) return 'Enter a valid amount';
+  if (amount === 0n) return 'Amount must be greater than zero';
+  if (balance !== undefined && amount > balance) return 'Amount exceeds your balance';
+  if (quote && quote.amountOut === 0n) return 'The swap router has no rate for this pair';
+  return undefined;
+}
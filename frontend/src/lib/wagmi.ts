@@ -1,18 +1,43 @@
-import { http, createConfig } from 'wagmi';
-import { mainnet, arbitrum, arbitrumSepolia, base, baseSepolia, localhost } from 'wagmi/chains';
-import { injected } from 'wagmi/connectors';
+import { http, createConfig, type CreateConnectorFn } from 'wagmi';
+import { mainnet, arbitrum, arbitrumSepolia, base, baseSepolia, anvil } from 'wagmi/chains';
+import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors';
+import { devWallet } from './devWallet';
 
 // Define the chains we support
-export const chains = [localhost, arbitrumSepolia, arbitrum, baseSepolia, base, mainnet] as const;
+export const chains = [anvil, arbitrumSepolia, arbitrum, baseSepolia, base, mainnet] as const;
+
+export const chainName = (chainId: number) => chains.find((c) => c.id === chainId)?.name ?? `Chain ${chainId}`;
+
+// Helper to get current chain
+export function getActiveChain() {
+  const chainId = parseInt(import.meta.env.VITE_CHAIN_ID || '31337');
+  const chain = chains.find(c => c.id === chainId);
+  return chain || anvil;
+}
+
+const walletConnectProjectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+
+// Extensions announcing themselves over EIP-6963 are added on top of these by
+// multiInjectedProviderDiscovery; injected() covers wallets that only set
+// window.ethereum.
+const connectors: CreateConnectorFn[] = [
+  injected(),
+  coinbaseWallet({ appName: 'Meta Index Protocol' }),
+];
+if (walletConnectProjectId) {
+  connectors.push(walletConnect({ projectId: walletConnectProjectId }));
+}
+if (getActiveChain().id === anvil.id) {
+  connectors.push(devWallet());
+}
 
 // Create wagmi config
 export const config = createConfig({
   chains,
-  connectors: [
-    injected({ target: 'metaMask' }),
-  ],
+  connectors,
+  multiInjectedProviderDiscovery: true,
   transports: {
-    [localhost.id]: http('http://127.0.0.1:8545'),
+    [anvil.id]: http('http://127.0.0.1:8545'),
     [arbitrumSepolia.id]: http(),
     [arbitrum.id]: http(),
     [baseSepolia.id]: http(),
@@ -20,10 +45,3 @@ export const config = createConfig({
     [mainnet.id]: http(),
   },
 });
-
-// Helper to get current chain
-export function getActiveChain() {
-  const chainId = parseInt(import.meta.env.VITE_CHAIN_ID || '31337');
-  const chain = chains.find(c => c.id === chainId);
-  return chain || localhost;
-}
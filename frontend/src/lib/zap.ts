@@ -0,0 +1,96 @@
+import { erc20Abi, isAddressEqual, parseEventLogs, type Log } from 'viem';
+import { BPS_DENOMINATOR } from './rebalance';
+
+// Zaps: deposits from, and withdrawals into, a token the vault does not accept,
+// swapped through the deployment's ISwapRouter with exactInputSingle. Quotes
+// come from the router and are checked against the oracle's prices; the
+// user's slippage tolerance becomes the swap's amountOutMinimum.
+
+export interface SwapQuote {
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  amountIn: bigint;
+  // What the router will pay out, after its own slippage
+  amountOut: bigint;
+  // amountIn valued at oracle prices; undefined when either token has no feed
+  oracleAmountOut?: bigint;
+  // How much worse the router is than the oracle, in bps (negative: better)
+  priceImpactBps?: bigint;
+}
+
+export type ZapDirection = 'in' | 'out';
+
+export type ZapStepName =
+  | 'approve-swap' // tokenIn allowance for the router
+  | 'swap'
+  | 'approve-vault' // USDC allowance for the vault
+  | 'deposit'
+  | 'withdraw';
+
+export type ZapStepStatus = 'pending' | 'active' | 'done' | 'skipped' | 'failed';
+
+export interface ZapStep {
+  name: ZapStepName;
+  status: ZapStepStatus;
+  hash?: `0x${string}`;
+}
+
+export const ZAP_STEPS: Record<ZapDirection, readonly ZapStepName[]> = {
+  in: ['approve-swap', 'swap', 'approve-vault', 'deposit'],
+  out: ['withdraw', 'approve-swap', 'swap'],
+};
+
+export const DEFAULT_SLIPPAGE_TOLERANCE = 50n; // 0.5%
+export const MAX_SLIPPAGE_TOLERANCE = 5_000n; // 50%
+// Router quotes this far below the oracle get a warning
+export const PRICE_IMPACT_WARNING = 300n; // 3%
+
+// Swaps are sent right after they are quoted, so a short deadline is enough
+export const SWAP_DEADLINE_SECONDS = 20 * 60;
+// exactInputSingle needs a fee tier; MockSwapRouter ignores it
+export const DEFAULT_POOL_FEE = 3000;
+
+/** The swap's amountOutMinimum: `amountOut` less `toleranceBps`. */
+export function minimumAmountOut(amountOut: bigint, toleranceBps: bigint): bigint {
+  return (amountOut * (BPS_DENOMINATOR - toleranceBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * `amountIn` of a token priced `priceIn` converted to a token priced
+ * `priceOut`. Both prices share the oracle's decimals, so only the tokens'
+ * own decimals need rescaling.
+ */
+export function oracleAmountOut(
+  amountIn: bigint,
+  tokenIn: { decimals: number; price: bigint },
+  tokenOut: { decimals: number; price: bigint },
+): bigint {
+  if (tokenOut.price === 0n) return 0n;
+  return (amountIn * tokenIn.price * 10n ** BigInt(tokenOut.decimals)) / (tokenOut.price * 10n ** BigInt(tokenIn.decimals));
+}
+
+/** Router shortfall against the oracle in bps; undefined without an oracle quote. */
+export function priceImpactBps(amountOut: bigint, oracleAmount: bigint | undefined): bigint | undefined {
+  if (oracleAmount === undefined || oracleAmount === 0n) return undefined;
+  return ((oracleAmount - amountOut) * BPS_DENOMINATOR) / oracleAmount;
+}
+
+/**
+ * Scale a minimum output quoted for `quotedIn` to the `actualIn` really
+ * swapped, e.g. when a zap-out's withdrawal pays slightly less than previewed.
+ * The tolerance stays relative to the price the user accepted.
+ */
+export function scaleMinimumOut(minimumOut: bigint, quotedIn: bigint, actualIn: bigint): bigint {
+  return quotedIn === 0n ? 0n : (minimumOut * actualIn) / quotedIn;
+}
+
+/** Total of `token` transferred to `to` in a receipt's logs, e.g. a swap's output. */
+export function transferredAmount(logs: readonly Log[], token: `0x${string}`, to: `0x${string}`): bigint {
+  return parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: [...logs] })
+    .filter((log) => isAddressEqual(log.address, token) && isAddressEqual(log.args.to, to))
+    .reduce((sum, log) => sum + log.args.value, 0n);
+}
+
+export function zapSteps(direction: ZapDirection): ZapStep[] {
+  return ZAP_STEPS[direction].map((name) => ({ name, status: 'pending' }));
+}
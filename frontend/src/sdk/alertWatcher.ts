@@ -0,0 +1,111 @@
+import { getAbiItem } from 'viem';
+import { baseStrategyAbi, metaIndexVaultAbi, priceOracleAbi, strategyManagerAbi } from '../contracts/abis';
+import {
+  AlertThrottle,
+  DEFAULT_ALERT_RULES,
+  eventAlerts,
+  stateAlerts,
+  type Alert,
+  type AlertEvent,
+  type AlertRule,
+} from '../lib/alerts';
+import { byPosition, DEFAULT_CHUNK_SIZE } from '../lib/eventIndexer';
+import type { MetaIndexClient, ProtocolSnapshot } from './client';
+
+// Polls the protocol for alert events and threshold breaches. Each poll scans
+// the blocks since the previous one, so nothing is missed between polls, and
+// evaluates the threshold rules on the snapshot it was given or read.
+
+export interface AlertWatcherOptions {
+  rules?: readonly AlertRule[];
+  // Shared across polls; pass one to tune dedup and rate limits
+  throttle?: AlertThrottle;
+  // First block of the first poll; defaults to the block of that poll's snapshot
+  fromBlock?: bigint;
+  chunkSize?: bigint;
+}
+
+const VAULT_EVENTS = [
+  getAbiItem({ abi: metaIndexVaultAbi, name: 'TVLCapUpdated' }),
+  getAbiItem({ abi: metaIndexVaultAbi, name: 'StrategyManagerUpdated' }),
+  getAbiItem({ abi: metaIndexVaultAbi, name: 'Paused' }),
+  getAbiItem({ abi: metaIndexVaultAbi, name: 'Unpaused' }),
+];
+
+const MANAGER_EVENTS = [
+  getAbiItem({ abi: strategyManagerAbi, name: 'StrategyAdded' }),
+  getAbiItem({ abi: strategyManagerAbi, name: 'StrategyRemoved' }),
+  getAbiItem({ abi: strategyManagerAbi, name: 'AllocationUpdated' }),
+  getAbiItem({ abi: strategyManagerAbi, name: 'Rebalanced' }),
+];
+
+const ORACLE_EVENTS = [getAbiItem({ abi: priceOracleAbi, name: 'PriceFeedUpdated' })];
+
+const STRATEGY_EVENTS = [getAbiItem({ abi: baseStrategyAbi, name: 'StrategyPaused' })];
+
+export class AlertWatcher {
+  readonly rules: readonly AlertRule[];
+  readonly throttle: AlertThrottle;
+
+  private readonly sdk: MetaIndexClient;
+  private readonly chunkSize: bigint;
+  private nextBlock?: bigint;
+
+  constructor(sdk: MetaIndexClient, options: AlertWatcherOptions = {}) {
+    this.sdk = sdk;
+    this.rules = options.rules ?? DEFAULT_ALERT_RULES;
+    this.throttle = options.throttle ?? new AlertThrottle();
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.nextBlock = options.fromBlock;
+  }
+
+  /** Alert events in [fromBlock, toBlock] from the vault, manager, oracle and `strategies`, in log order. */
+  async fetchEvents(fromBlock: bigint, toBlock: bigint, strategies: readonly `0x${string}`[]): Promise<AlertEvent[]> {
+    const { publicClient, contracts } = this.sdk;
+    const oracle = await this.sdk.getPriceOracle();
+    const sources = [
+      { address: contracts.vault.address, events: VAULT_EVENTS },
+      { address: contracts.strategyManager.address, events: MANAGER_EVENTS },
+      { address: oracle, events: ORACLE_EVENTS },
+      ...strategies.map((address) => ({ address, events: STRATEGY_EVENTS })),
+    ];
+
+    const items: AlertEvent[] = [];
+    for (let start = fromBlock; start <= toBlock; start += this.chunkSize) {
+      const end = start + this.chunkSize - 1n < toBlock ? start + this.chunkSize - 1n : toBlock;
+      const chunks = await Promise.all(
+        sources.map(({ address, events }) =>
+          publicClient.getLogs({ address, events, fromBlock: start, toBlock: end, strict: true }),
+        ),
+      );
+      for (const log of chunks.flat()) {
+        const position = { blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash };
+        items.push(
+          log.eventName === 'StrategyPaused'
+            ? { ...position, contract: log.address, eventName: log.eventName }
+            : ({ ...position, contract: log.address, eventName: log.eventName, args: log.args } as AlertEvent),
+        );
+      }
+    }
+    return items.sort(byPosition);
+  }
+
+  /**
+   * Alerts for the events since the previous poll and for the threshold rules
+   * at `snapshot` (read when omitted), after dedup and rate limiting.
+   */
+  async poll(snapshot?: ProtocolSnapshot): Promise<Alert[]> {
+    const current = snapshot ?? (await this.sdk.getSnapshot());
+    const fromBlock = this.nextBlock ?? current.blockNumber;
+    const strategies = current.strategies.map((s) => s.address);
+
+    const events = fromBlock <= current.blockNumber ? await this.fetchEvents(fromBlock, current.blockNumber, strategies) : [];
+    this.nextBlock = current.blockNumber + 1n;
+
+    const alerts = [
+      ...events.flatMap((event) => eventAlerts(this.rules, event, current.vault.assetDecimals)),
+      ...stateAlerts(this.rules, current),
+    ];
+    return alerts.filter((alert) => this.throttle.admit(alert));
+  }
+}
@@ -0,0 +1,1045 @@
+import {
+  erc20Abi,
+  zeroAddress,
+  type Account,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type WaitForCallsStatusReturnType,
+  type WalletClient,
+} from 'viem';
+import type { ContractAddresses } from '../contracts/addresses';
+import type { Deployment } from '../contracts/deployments';
+import { mockSwapRouterAbi } from '../contracts/abis';
+import { createRegistry, strategyContract, type ContractRegistry } from '../contracts/registry';
+import { loadRoleReport, type RoleReport } from '../lib/accessControl';
+import { fetchManagerEvents, fetchVaultEvents, type ManagerEvent, type VaultEvent } from '../lib/eventIndexer';
+import { fetchOracleHealth, type OracleHealth } from '../lib/oracleHealth';
+import {
+  calculateAllocationStates,
+  calculateRebalanceActions,
+  needsRebalancing,
+  separateActions,
+  type AllocationState,
+  type RebalancePlan,
+} from '../lib/rebalance';
+import { DEFAULT_ADMIN_ROLE, GUARDIAN_ROLE, MANAGER_ROLE } from '../lib/roles';
+import type { StrategyAllocation } from '../lib/validation';
+import {
+  DEFAULT_POOL_FEE,
+  SWAP_DEADLINE_SECONDS,
+  oracleAmountOut,
+  priceImpactBps,
+  type SwapQuote,
+} from '../lib/zap';
+
+// Framework-agnostic access to the protocol on top of viem clients, shared by
+// the React hooks and the node scripts. Amounts are raw bigint units; writes
+// are simulated first so reverts throw before anything is signed.
+
+export interface MetaIndexClientOptions {
+  publicClient: PublicClient;
+  // Only needed for writes; its account signs every transaction
+  walletClient?: WalletClient;
+  contracts: ContractAddresses;
+  // Block the deployment started at; event scans begin here instead of genesis
+  startBlock?: bigint;
+}
+
+export interface VaultState {
+  asset: `0x${string}`;
+  totalAssets: bigint;
+  totalSupply: bigint;
+  tvlCap: bigint;
+  minDeposit: bigint;
+  paused: boolean;
+  // Share token decimals
+  decimals: number;
+  assetDecimals: number;
+}
+
+// The vault's own ERC-20, as wallet_watchAsset needs it
+export interface ShareToken {
+  address: `0x${string}`;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Any ERC-20 a zap swaps from or into
+export interface TokenInfo {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+export interface VaultPosition {
+  shares: bigint;
+  // convertToAssets(shares)
+  assets: bigint;
+  maxWithdraw: bigint;
+  maxRedeem: bigint;
+}
+
+export interface RebalanceStatus {
+  states: readonly AllocationState[];
+  deviationThreshold: bigint;
+  minRebalanceAmount: bigint;
+  // Sum of getAllocationStates() values, the portfolio value rebalance() plans with
+  totalValue: bigint;
+  plan: RebalancePlan;
+  needsRebalancing: boolean;
+  meetsMinimum: boolean;
+}
+
+export interface StrategyDetails {
+  address: `0x${string}`;
+  name: string;
+  // BaseStrategy.isActive: false while paused (deposits blocked)
+  isActive: boolean;
+  asset: `0x${string}`;
+  vault: `0x${string}`;
+  strategyManager: `0x${string}`;
+  totalValue: bigint;
+  // Target allocation in basis points
+  allocation: bigint;
+  // Whether the strategy manager still tracks it
+  isRegistered: boolean;
+}
+
+export interface StrategySnapshot {
+  address: `0x${string}`;
+  name: string;
+  isActive: boolean;
+  // Target allocation in basis points
+  allocation: bigint;
+  totalValue: bigint;
+}
+
+export interface AccountSnapshot extends VaultPosition {
+  address: `0x${string}`;
+  assetBalance: bigint;
+  // Asset allowance granted to the vault
+  allowance: bigint;
+  maxDeposit: bigint;
+}
+
+// Everything the dashboard shows, read at one block so the numbers agree
+export interface ProtocolSnapshot {
+  blockNumber: bigint;
+  vault: VaultState;
+  strategies: StrategySnapshot[];
+  rebalance: RebalanceStatus;
+  account?: AccountSnapshot;
+}
+
+// Governance parameters, as raw on-chain values
+export interface ProtocolSettings {
+  tvlCap: bigint;
+  paused: boolean;
+  strategyManager: `0x${string}`;
+  deviationThreshold: bigint;
+  minRebalanceAmount: bigint;
+  priceOracle: `0x${string}`;
+}
+
+// hasRole on the vault and strategy manager for one account
+export interface AccountRoles {
+  vaultAdmin: boolean;
+  vaultManager: boolean;
+  guardian: boolean;
+  managerAdmin: boolean;
+  strategyManager: boolean;
+}
+
+// Vault and manager events since the deployment, in log order
+export interface ProtocolActivity {
+  vaultEvents: VaultEvent[];
+  managerEvents: ManagerEvent[];
+}
+
+// Gas and nonce settings for callers that manage their own transactions (keeper)
+export interface TransactionOverrides {
+  gas?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  nonce?: number;
+}
+
+// Thrown by waitForTransaction and waitForCalls once the chain has a failed result,
+// so callers can tell a revert, which is safe to re-send, from a timeout
+export class TransactionRevertedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+function rebalanceStatus(
+  states: readonly AllocationState[],
+  deviationThreshold: bigint,
+  minRebalanceAmount: bigint,
+): RebalanceStatus {
+  const totalValue = states.reduce((sum, s) => sum + s.currentValue, 0n);
+  const plan =
+    totalValue === 0n
+      ? { deposits: [], withdrawals: [] }
+      : separateActions(calculateRebalanceActions(states, totalValue));
+
+  return {
+    states,
+    deviationThreshold,
+    minRebalanceAmount,
+    totalValue,
+    plan,
+    needsRebalancing: needsRebalancing(states, deviationThreshold),
+    meetsMinimum: totalValue >= minRebalanceAmount,
+  };
+}
+
+export class MetaIndexClient {
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  readonly contracts: ContractRegistry;
+  readonly startBlock: bigint;
+
+  private mockSwapRouter?: Promise<boolean>;
+
+  constructor(options: MetaIndexClientOptions) {
+    this.publicClient = options.publicClient;
+    this.walletClient = options.walletClient;
+    this.contracts = createRegistry(options.contracts);
+    this.startBlock = options.startBlock ?? 0n;
+  }
+
+  static fromDeployment(deployment: Deployment, clients: Pick<MetaIndexClientOptions, 'publicClient' | 'walletClient'>) {
+    return new MetaIndexClient({
+      ...clients,
+      contracts: deployment,
+      startBlock: BigInt(deployment.startBlock ?? 0),
+    });
+  }
+
+  private get signer(): { walletClient: WalletClient; account: Account } {
+    const walletClient = this.walletClient;
+    if (!walletClient?.account) {
+      throw new Error('MetaIndexClient needs a wallet client with an account to send transactions');
+    }
+    return { walletClient, account: walletClient.account };
+  }
+
+  /** Address transactions are sent from; throws without a wallet account. */
+  get signerAddress(): `0x${string}` {
+    return this.signer.account.address;
+  }
+
+  // ============ Snapshot ============
+
+  /**
+   * Vault, strategy and (optionally) account state at a single block, in two
+   * rounds of multicalls regardless of the number of strategies. Allocation
+   * states are derived with the RebalanceLib port exactly as
+   * StrategyManager.getAllocationStates() computes them.
+   */
+  async getSnapshot(account?: `0x${string}`, blockNumber?: bigint): Promise<ProtocolSnapshot> {
+    const { vault, strategyManager, usdc } = this.contracts;
+    const block = blockNumber ?? (await this.publicClient.getBlockNumber());
+    const owner = account ?? zeroAddress;
+    // Chains without a Multicall3 deployment (anvil) run it from its creation code
+    const options = { allowFailure: false, blockNumber: block, deployless: !this.publicClient.chain?.contracts?.multicall3 } as const;
+
+    const [
+      asset,
+      totalAssets,
+      totalSupply,
+      tvlCap,
+      minDeposit,
+      paused,
+      decimals,
+      assetDecimals,
+      strategies,
+      deviationThreshold,
+      minRebalanceAmount,
+      shares,
+      maxWithdraw,
+      maxRedeem,
+      maxDeposit,
+      assetBalance,
+      allowance,
+    ] = await this.publicClient.multicall({
+      ...options,
+      contracts: [
+        { ...vault, functionName: 'asset' },
+        { ...vault, functionName: 'totalAssets' },
+        { ...vault, functionName: 'totalSupply' },
+        { ...vault, functionName: 'tvlCap' },
+        { ...vault, functionName: 'minDeposit' },
+        { ...vault, functionName: 'paused' },
+        { ...vault, functionName: 'decimals' },
+        { ...usdc, functionName: 'decimals' },
+        { ...strategyManager, functionName: 'getStrategies' },
+        { ...strategyManager, functionName: 'deviationThreshold' },
+        { ...strategyManager, functionName: 'minRebalanceAmount' },
+        { ...vault, functionName: 'balanceOf', args: [owner] },
+        { ...vault, functionName: 'maxWithdraw', args: [owner] },
+        { ...vault, functionName: 'maxRedeem', args: [owner] },
+        { ...vault, functionName: 'maxDeposit', args: [owner] },
+        { ...usdc, functionName: 'balanceOf', args: [owner] },
+        { ...usdc, functionName: 'allowance', args: [owner, vault.address] },
+      ],
+    });
+
+    // Second round: everything that depends on the strategy list or the share
+    // balance, one typed multicall per call shape, sent in parallel
+    const [[assets], allocations, totalValues, names, activeFlags] = await Promise.all([
+      this.publicClient.multicall({ ...options, contracts: [{ ...vault, functionName: 'convertToAssets', args: [shares] }] }),
+      this.publicClient.multicall({
+        ...options,
+        contracts: strategies.map((address) => ({ ...strategyManager, functionName: 'getAllocation', args: [address] }) as const),
+      }),
+      this.publicClient.multicall({
+        ...options,
+        contracts: strategies.map((address) => ({ ...strategyContract(address), functionName: 'totalValue' }) as const),
+      }),
+      this.publicClient.multicall({
+        ...options,
+        contracts: strategies.map((address) => ({ ...strategyContract(address), functionName: 'name' }) as const),
+      }),
+      this.publicClient.multicall({
+        ...options,
+        contracts: strategies.map((address) => ({ ...strategyContract(address), functionName: 'isActive' }) as const),
+      }),
+    ]);
+
+    const strategySnapshots = strategies.map((address, i) => ({
+      address,
+      allocation: allocations[i],
+      totalValue: totalValues[i],
+      name: names[i],
+      isActive: activeFlags[i],
+    }));
+
+    const totalValue = strategySnapshots.reduce((sum, s) => sum + s.totalValue, 0n);
+    const states =
+      strategySnapshots.length === 0 || totalValue === 0n
+        ? []
+        : calculateAllocationStates(
+            strategies,
+            strategySnapshots.map((s) => s.allocation),
+            strategySnapshots.map((s) => s.totalValue),
+            totalValue,
+          );
+
+    return {
+      blockNumber: block,
+      vault: { asset, totalAssets, totalSupply, tvlCap, minDeposit, paused, decimals, assetDecimals },
+      strategies: strategySnapshots,
+      rebalance: rebalanceStatus(states, deviationThreshold, minRebalanceAmount),
+      account: account && {
+        address: account,
+        shares,
+        assets,
+        maxWithdraw,
+        maxRedeem,
+        maxDeposit,
+        assetBalance,
+        allowance,
+      },
+    };
+  }
+
+  // ============ Vault ============
+
+  async getVaultState(): Promise<VaultState> {
+    const { vault, usdc } = this.contracts;
+    const [asset, totalAssets, totalSupply, tvlCap, minDeposit, paused, decimals, assetDecimals] = await Promise.all([
+      this.publicClient.readContract({ ...vault, functionName: 'asset' }),
+      this.publicClient.readContract({ ...vault, functionName: 'totalAssets' }),
+      this.publicClient.readContract({ ...vault, functionName: 'totalSupply' }),
+      this.publicClient.readContract({ ...vault, functionName: 'tvlCap' }),
+      this.publicClient.readContract({ ...vault, functionName: 'minDeposit' }),
+      this.publicClient.readContract({ ...vault, functionName: 'paused' }),
+      this.publicClient.readContract({ ...vault, functionName: 'decimals' }),
+      this.publicClient.readContract({ ...usdc, functionName: 'decimals' }),
+    ]);
+    return { asset, totalAssets, totalSupply, tvlCap, minDeposit, paused, decimals, assetDecimals };
+  }
+
+  async getPosition(owner: `0x${string}`): Promise<VaultPosition> {
+    const { vault } = this.contracts;
+    const [shares, maxWithdraw, maxRedeem] = await Promise.all([
+      this.publicClient.readContract({ ...vault, functionName: 'balanceOf', args: [owner] }),
+      this.publicClient.readContract({ ...vault, functionName: 'maxWithdraw', args: [owner] }),
+      this.publicClient.readContract({ ...vault, functionName: 'maxRedeem', args: [owner] }),
+    ]);
+    const assets = await this.publicClient.readContract({ ...vault, functionName: 'convertToAssets', args: [shares] });
+    return { shares, assets, maxWithdraw, maxRedeem };
+  }
+
+  maxDeposit(receiver: `0x${string}`) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'maxDeposit', args: [receiver] });
+  }
+
+  previewDeposit(assets: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'previewDeposit', args: [assets] });
+  }
+
+  previewWithdraw(assets: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'previewWithdraw', args: [assets] });
+  }
+
+  previewRedeem(shares: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'previewRedeem', args: [shares] });
+  }
+
+  convertToAssets(shares: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'convertToAssets', args: [shares] });
+  }
+
+  async deposit(assets: bigint, receiver: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'deposit',
+      args: [assets, receiver],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async withdraw(assets: bigint, receiver: `0x${string}`, owner: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'withdraw',
+      args: [assets, receiver, owner],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async redeem(shares: bigint, receiver: `0x${string}`, owner: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'redeem',
+      args: [shares, receiver, owner],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Share token ============
+
+  async getShareToken(): Promise<ShareToken> {
+    const { vault } = this.contracts;
+    const [name, symbol, decimals] = await Promise.all([
+      this.publicClient.readContract({ ...vault, functionName: 'name' }),
+      this.publicClient.readContract({ ...vault, functionName: 'symbol' }),
+      this.publicClient.readContract({ ...vault, functionName: 'decimals' }),
+    ]);
+    return { address: vault.address, name, symbol, decimals };
+  }
+
+  // Shares `spender` may move on behalf of `owner`
+  getShareAllowance(owner: `0x${string}`, spender: `0x${string}`) {
+    return this.publicClient.readContract({ ...this.contracts.vault, functionName: 'allowance', args: [owner, spender] });
+  }
+
+  async transferShares(to: `0x${string}`, shares: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'transfer',
+      args: [to, shares],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // Zero revokes
+  async approveShares(spender: `0x${string}`, shares: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'approve',
+      args: [spender, shares],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Underlying asset ============
+
+  getAssetBalance(owner: `0x${string}`) {
+    return this.publicClient.readContract({ ...this.contracts.usdc, functionName: 'balanceOf', args: [owner] });
+  }
+
+  // Allowance granted to the vault
+  getAllowance(owner: `0x${string}`) {
+    return this.publicClient.readContract({
+      ...this.contracts.usdc,
+      functionName: 'allowance',
+      args: [owner, this.contracts.vault.address],
+    });
+  }
+
+  async approve(assets: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.usdc,
+      account,
+      functionName: 'approve',
+      args: [this.contracts.vault.address, assets],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  /** Whether the wallet can send approve + deposit as one atomic EIP-5792 batch. */
+  async supportsAtomicBatch(): Promise<boolean> {
+    const { walletClient, account } = this.signer;
+    const capabilities = await walletClient
+      .getCapabilities({ account, chainId: await this.publicClient.getChainId() })
+      .catch(() => undefined);
+    const status = capabilities?.atomic?.status;
+    return status === 'supported' || status === 'ready';
+  }
+
+  /** Approve and deposit in one wallet_sendCalls batch; returns the batch id. */
+  async depositBatch(assets: bigint, receiver: `0x${string}`): Promise<string> {
+    const { walletClient, account } = this.signer;
+    const { usdc, vault } = this.contracts;
+    const { id } = await walletClient.sendCalls({
+      account,
+      chain: walletClient.chain,
+      forceAtomic: true,
+      calls: [
+        { to: usdc.address, abi: usdc.abi, functionName: 'approve', args: [vault.address, assets] },
+        { to: vault.address, abi: vault.abi, functionName: 'deposit', args: [assets, receiver] },
+      ],
+    });
+    return id;
+  }
+
+  // ============ Strategies ============
+
+  async getStrategies(): Promise<readonly `0x${string}`[]> {
+    return this.publicClient.readContract({ ...this.contracts.strategyManager, functionName: 'getStrategies' });
+  }
+
+  // Reads taking `blockNumber` default to the latest block
+  getTotalValue(blockNumber?: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.strategyManager, functionName: 'totalValue', blockNumber });
+  }
+
+  // Reverts (StalePrice, InvalidPrice, ...) when a price feed is unhealthy
+  getTotalValueUSD() {
+    return this.publicClient.readContract({ ...this.contracts.strategyManager, functionName: 'totalValueUSD' });
+  }
+
+  // StrategyManager.needsRebalancing(), evaluated on-chain
+  needsRebalancing(blockNumber?: bigint) {
+    return this.publicClient.readContract({ ...this.contracts.strategyManager, functionName: 'needsRebalancing', blockNumber });
+  }
+
+  // Target allocation in basis points
+  getAllocation(strategy: `0x${string}`) {
+    return this.publicClient.readContract({
+      ...this.contracts.strategyManager,
+      functionName: 'getAllocation',
+      args: [strategy],
+    });
+  }
+
+  /** Target allocation and current totalValue() of every strategy, or of `strategies` when given. */
+  async getStrategyAllocations(strategies?: readonly `0x${string}`[]): Promise<StrategyAllocation[]> {
+    const addresses = strategies ?? (await this.getStrategies());
+    return Promise.all(
+      addresses.map(async (address) => {
+        const [allocation, totalValue] = await Promise.all([
+          this.getAllocation(address),
+          this.publicClient.readContract({ ...strategyContract(address), functionName: 'totalValue' }),
+        ]);
+        return { address, allocation, totalValue };
+      }),
+    );
+  }
+
+  /** Everything IStrategy exposes about a strategy, plus how the manager sees it. */
+  async getStrategyDetails(strategy: `0x${string}`): Promise<StrategyDetails> {
+    const contract = strategyContract(strategy);
+    const [name, isActive, asset, vault, strategyManager, totalValue, allocation, isRegistered] = await Promise.all([
+      this.publicClient.readContract({ ...contract, functionName: 'name' }),
+      this.publicClient.readContract({ ...contract, functionName: 'isActive' }),
+      this.publicClient.readContract({ ...contract, functionName: 'asset' }),
+      this.publicClient.readContract({ ...contract, functionName: 'vault' }),
+      this.publicClient.readContract({ ...contract, functionName: 'strategyManager' }),
+      this.publicClient.readContract({ ...contract, functionName: 'totalValue' }),
+      this.getAllocation(strategy),
+      this.publicClient.readContract({
+        ...this.contracts.strategyManager,
+        functionName: 'isStrategyActive',
+        args: [strategy],
+      }),
+    ]);
+    return { address: strategy, name, isActive, asset, vault, strategyManager, totalValue, allocation, isRegistered };
+  }
+
+  // Strategies only accept pause()/unpause() from the manager, which requires MANAGER_ROLE
+  async pauseStrategy(strategy: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'pauseStrategy',
+      args: [strategy],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async unpauseStrategy(strategy: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'unpauseStrategy',
+      args: [strategy],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  getAllocationStates(blockNumber?: bigint): Promise<readonly AllocationState[]> {
+    return this.publicClient.readContract({
+      ...this.contracts.strategyManager,
+      functionName: 'getAllocationStates',
+      blockNumber,
+    });
+  }
+
+  /** Allocation states plus the plan rebalance() would execute, computed with the TS RebalanceLib port. */
+  async getRebalanceStatus(blockNumber?: bigint): Promise<RebalanceStatus> {
+    const { strategyManager } = this.contracts;
+    const [states, deviationThreshold, minRebalanceAmount] = await Promise.all([
+      this.getAllocationStates(blockNumber),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'deviationThreshold', blockNumber }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'minRebalanceAmount', blockNumber }),
+    ]);
+
+    return rebalanceStatus(states, deviationThreshold, minRebalanceAmount);
+  }
+
+  async isManager(account: `0x${string}`): Promise<boolean> {
+    const { strategyManager } = this.contracts;
+    const role = await this.publicClient.readContract({ ...strategyManager, functionName: 'MANAGER_ROLE' });
+    return this.publicClient.readContract({ ...strategyManager, functionName: 'hasRole', args: [role, account] });
+  }
+
+  getLastRebalanceTimestamp(blockNumber?: bigint) {
+    return this.publicClient.readContract({
+      ...this.contracts.strategyManager,
+      functionName: 'lastRebalanceTimestamp',
+      blockNumber,
+    });
+  }
+
+  /** Dry-run rebalance() as the wallet account; throws the decoded revert when it would fail. */
+  async simulateRebalance(overrides: TransactionOverrides = {}) {
+    const { account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      ...overrides,
+      account,
+      functionName: 'rebalance',
+    });
+    return request;
+  }
+
+  estimateRebalanceGas() {
+    return this.publicClient.estimateContractGas({
+      ...this.contracts.strategyManager,
+      account: this.signer.account,
+      functionName: 'rebalance',
+    });
+  }
+
+  async rebalance(overrides: TransactionOverrides = {}): Promise<Hash> {
+    const request = await this.simulateRebalance(overrides);
+    return this.signer.walletClient.writeContract(request);
+  }
+
+  // ============ Oracle ============
+
+  // The oracle the strategy manager prices with, which may differ from the deployment's
+  getPriceOracle() {
+    return this.publicClient.readContract({ ...this.contracts.strategyManager, functionName: 'priceOracle' });
+  }
+
+  /** 8-decimal USD price of `asset`; reverts when its feed is stale or invalid. */
+  async getPrice(asset: `0x${string}`) {
+    const oracle = await this.getPriceOracle();
+    return this.publicClient.readContract({
+      address: oracle,
+      abi: this.contracts.priceOracle.abi,
+      functionName: 'getPrice',
+      args: [asset],
+    });
+  }
+
+  /** Feed health for the vault asset, every strategy asset and `extraAssets`. */
+  async getOracleHealth(extraAssets: readonly `0x${string}`[] = []): Promise<OracleHealth> {
+    const [oracle, strategies] = await Promise.all([this.getPriceOracle(), this.getStrategies()]);
+    const strategyAssets = await Promise.all(
+      strategies.map((strategy) =>
+        this.publicClient.readContract({ ...strategyContract(strategy), functionName: 'asset' }),
+      ),
+    );
+    return fetchOracleHealth(
+      this.publicClient,
+      oracle,
+      [this.contracts.usdc.address, ...strategyAssets, ...extraAssets],
+      this.startBlock,
+    );
+  }
+
+  // ============ Governance ============
+
+  async getProtocolSettings(): Promise<ProtocolSettings> {
+    const { vault, strategyManager } = this.contracts;
+    const [tvlCap, paused, manager, deviationThreshold, minRebalanceAmount, priceOracle] = await Promise.all([
+      this.publicClient.readContract({ ...vault, functionName: 'tvlCap' }),
+      this.publicClient.readContract({ ...vault, functionName: 'paused' }),
+      this.publicClient.readContract({ ...vault, functionName: 'strategyManager' }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'deviationThreshold' }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'minRebalanceAmount' }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'priceOracle' }),
+    ]);
+    return { tvlCap, paused, strategyManager: manager, deviationThreshold, minRebalanceAmount, priceOracle };
+  }
+
+  async getAccountRoles(account: `0x${string}`): Promise<AccountRoles> {
+    const { vault, strategyManager } = this.contracts;
+    const [vaultAdmin, vaultManager, guardian, managerAdmin, manager] = await Promise.all([
+      this.publicClient.readContract({ ...vault, functionName: 'hasRole', args: [DEFAULT_ADMIN_ROLE, account] }),
+      this.publicClient.readContract({ ...vault, functionName: 'hasRole', args: [MANAGER_ROLE, account] }),
+      this.publicClient.readContract({ ...vault, functionName: 'hasRole', args: [GUARDIAN_ROLE, account] }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'hasRole', args: [DEFAULT_ADMIN_ROLE, account] }),
+      this.publicClient.readContract({ ...strategyManager, functionName: 'hasRole', args: [MANAGER_ROLE, account] }),
+    ]);
+    return { vaultAdmin, vaultManager, guardian, managerAdmin, strategyManager: manager };
+  }
+
+  /** Role membership across the vault, manager and oracle, rebuilt from logs. */
+  getRoleReport(): Promise<RoleReport> {
+    const { vault, strategyManager, priceOracle } = this.contracts;
+    return loadRoleReport(
+      this.publicClient,
+      [
+        { name: 'MetaIndexVault', address: vault.address },
+        { name: 'StrategyManager', address: strategyManager.address },
+        { name: 'PriceOracle', address: priceOracle.address },
+      ],
+      { vault: vault.address, strategyManager: strategyManager.address },
+      this.startBlock,
+    );
+  }
+
+  // Strategy manager, DEFAULT_ADMIN_ROLE
+  async addStrategy(strategy: `0x${string}`, allocation: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'addStrategy',
+      args: [strategy, allocation],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async removeStrategy(strategy: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'removeStrategy',
+      args: [strategy],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async updateAllocation(strategy: `0x${string}`, allocation: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'updateAllocation',
+      args: [strategy, allocation],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async setDeviationThreshold(threshold: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'setDeviationThreshold',
+      args: [threshold],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async setMinRebalanceAmount(amount: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'setMinRebalanceAmount',
+      args: [amount],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async setPriceOracle(oracle: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.strategyManager,
+      account,
+      functionName: 'setPriceOracle',
+      args: [oracle],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // Vault, DEFAULT_ADMIN_ROLE
+  async updateTVLCap(cap: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'updateTVLCap',
+      args: [cap],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async setStrategyManager(manager: `0x${string}`): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'setStrategyManager',
+      args: [manager],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // Vault, GUARDIAN_ROLE
+  async pauseVault(): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'pause',
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async unpauseVault(): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.vault,
+      account,
+      functionName: 'unpause',
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ History ============
+
+  /** Vault and manager events since startBlock; repeat scans resume from the IndexedDB cache. */
+  async getProtocolActivity(): Promise<ProtocolActivity> {
+    const [vaultEvents, managerEvents] = await Promise.all([
+      fetchVaultEvents(this.publicClient, this.contracts.vault.address, this.startBlock),
+      fetchManagerEvents(this.publicClient, this.contracts.strategyManager.address, this.startBlock),
+    ]);
+    return { vaultEvents, managerEvents };
+  }
+
+  /** Unix timestamps (seconds) of `blockNumbers`, keyed by block number. */
+  async getBlockTimestamps(blockNumbers: readonly bigint[]): Promise<Map<bigint, number>> {
+    const blocks = await Promise.all(
+      [...new Set(blockNumbers)].map((blockNumber) => this.publicClient.getBlock({ blockNumber })),
+    );
+    return new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+  }
+
+  // ============ Zaps ============
+
+  async getTokenInfo(token: `0x${string}`): Promise<TokenInfo> {
+    const [symbol, decimals] = await Promise.all([
+      this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+      this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+    return { address: token, symbol, decimals };
+  }
+
+  getTokenBalance(token: `0x${string}`, owner: `0x${string}`) {
+    return this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+  }
+
+  getTokenAllowance(token: `0x${string}`, owner: `0x${string}`, spender: `0x${string}`) {
+    return this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, spender],
+    });
+  }
+
+  async approveToken(token: `0x${string}`, spender: `0x${string}`, amount: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      address: token,
+      abi: erc20Abi,
+      account,
+      functionName: 'approve',
+      args: [spender, amount],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  /**
+   * Router output for swapping `amountIn`, from ISwapRouter.exactInputSingle
+   * simulated as `account` (the wallet account by default), next to the same
+   * amount valued at oracle prices. The simulation needs the account's balance
+   * and router allowance; until it succeeds MockSwapRouter is quoted from its
+   * rate table, where a missing rate quotes zero, and any other router throws.
+   * A missing feed leaves the oracle side undefined.
+   */
+  async quoteSwap(
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint,
+    account: `0x${string}` | undefined = this.walletClient?.account?.address,
+  ): Promise<SwapQuote> {
+    const [amountOut, infoIn, infoOut, prices] = await Promise.all([
+      this.simulateSwapOutput(tokenIn, tokenOut, amountIn, account),
+      this.getTokenInfo(tokenIn),
+      this.getTokenInfo(tokenOut),
+      Promise.all([this.getPrice(tokenIn), this.getPrice(tokenOut)]).catch(() => undefined),
+    ]);
+
+    const oracleAmount =
+      prices &&
+      oracleAmountOut(amountIn, { decimals: infoIn.decimals, price: prices[0] }, { decimals: infoOut.decimals, price: prices[1] });
+
+    return {
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut,
+      oracleAmountOut: oracleAmount,
+      priceImpactBps: priceImpactBps(amountOut, oracleAmount),
+    };
+  }
+
+  /**
+   * ISwapRouter.exactInputSingle, reverting below `amountOutMinimum`. The
+   * deadline is measured from the latest block, not the local clock, so it
+   * holds on chains whose time has been moved.
+   */
+  async swapExactInput(
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint,
+    amountOutMinimum: bigint,
+    recipient: `0x${string}`,
+  ): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.publicClient.simulateContract({
+      ...this.contracts.swapRouter,
+      account,
+      functionName: 'exactInputSingle',
+      args: [await this.exactInputSingleParams(tokenIn, tokenOut, amountIn, amountOutMinimum, recipient)],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  private async exactInputSingleParams(
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint,
+    amountOutMinimum: bigint,
+    recipient: `0x${string}`,
+  ) {
+    const { timestamp } = await this.publicClient.getBlock();
+    return {
+      tokenIn,
+      tokenOut,
+      fee: DEFAULT_POOL_FEE,
+      recipient,
+      deadline: timestamp + BigInt(SWAP_DEADLINE_SECONDS),
+      amountIn,
+      amountOutMinimum,
+      sqrtPriceLimitX96: 0n,
+    };
+  }
+
+  private async simulateSwapOutput(
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint,
+    account: `0x${string}` | undefined,
+  ): Promise<bigint> {
+    let failure: unknown = new Error('Quoting a swap needs an account to simulate it from');
+    if (account) {
+      try {
+        const { result } = await this.publicClient.simulateContract({
+          ...this.contracts.swapRouter,
+          account,
+          functionName: 'exactInputSingle',
+          args: [await this.exactInputSingleParams(tokenIn, tokenOut, amountIn, 0n, account)],
+        });
+        return result;
+      } catch (error) {
+        failure = error;
+      }
+    }
+    if (!(await this.isMockSwapRouter())) throw failure;
+
+    // Same arithmetic as MockSwapRouter.exactInputSingle
+    const router = { address: this.contracts.swapRouter.address, abi: mockSwapRouterAbi } as const;
+    const [rate, slippage] = await Promise.all([
+      this.publicClient.readContract({ ...router, functionName: 'exchangeRates', args: [tokenIn, tokenOut] }),
+      this.publicClient.readContract({ ...router, functionName: 'slippage' }),
+    ]);
+    return (((amountIn * rate) / 10n ** 18n) * (10_000n - slippage)) / 10_000n;
+  }
+
+  // MockSwapRouter answers slippage(); ISwapRouter has no such getter
+  private isMockSwapRouter(): Promise<boolean> {
+    this.mockSwapRouter ??= this.publicClient
+      .readContract({ address: this.contracts.swapRouter.address, abi: mockSwapRouterAbi, functionName: 'slippage' })
+      .then(
+        () => true,
+        () => false,
+      );
+    return this.mockSwapRouter;
+  }
+
+  // ============ Transactions ============
+
+  /** Wait for a transaction sent by this client; throws if it reverted. */
+  async waitForTransaction(hash: Hash): Promise<TransactionReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') throw new TransactionRevertedError(`Transaction ${hash} reverted`);
+    return receipt;
+  }
+
+  /** Wait for a batch sent with depositBatch; throws if it failed or reverted. */
+  async waitForCalls(id: string): Promise<WaitForCallsStatusReturnType> {
+    const result = await this.signer.walletClient.waitForCallsStatus({ id });
+    if (result.status !== 'success') throw new TransactionRevertedError(`Batch ${id} failed`);
+    return result;
+  }
+}
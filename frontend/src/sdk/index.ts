@@ -0,0 +1,96 @@
+// Public surface of the headless SDK. Nothing here depends on React, wagmi or
+// Vite, so node scripts and services can import it directly.
+
+export {
+  MetaIndexClient,
+  TransactionRevertedError,
+  type AccountRoles,
+  type AccountSnapshot,
+  type MetaIndexClientOptions,
+  type ProtocolActivity,
+  type ProtocolSettings,
+  type ProtocolSnapshot,
+  type RebalanceStatus,
+  type ShareToken,
+  type StrategyDetails,
+  type StrategySnapshot,
+  type TokenInfo,
+  type TransactionOverrides,
+  type VaultPosition,
+  type VaultState,
+} from './client';
+export { LocalPlayground, type RouterSettings } from './playground';
+export {
+  parseDeployment,
+  DeploymentValidationError,
+  type Deployment,
+  type DeploymentFixtureField,
+} from '../contracts/deployments';
+export { createRegistry, strategyContract, type ContractRegistry } from '../contracts/registry';
+export { decodeContractError, revertReason } from '../lib/errors';
+export {
+  compareAmounts,
+  formatAmount,
+  formatBps,
+  formatUsd,
+  parseAmount,
+  percentBps,
+  tokenAmount,
+  type FormatAmountOptions,
+  type TokenAmount,
+} from '../lib/amount';
+export {
+  minimumAmountOut,
+  oracleAmountOut,
+  priceImpactBps,
+  scaleMinimumOut,
+  transferredAmount,
+  type SwapQuote,
+} from '../lib/zap';
+export {
+  createZapFlow,
+  runZap,
+  type ZapFlow,
+  type ZapInParams,
+  type ZapOutParams,
+} from './zapFlow';
+export { portfolioBreakdown, type PortfolioBreakdown, type PortfolioSlice } from '../lib/portfolio';
+export { PRICE_DECIMALS, type AssetFeedHealth, type FeedStatus, type OracleHealth } from '../lib/oracleHealth';
+export {
+  BPS_DENOMINATOR,
+  calculateAllocationStates,
+  calculateRebalanceActions,
+  calculateTotals,
+  needsRebalancing,
+  separateActions,
+  validateAllocations,
+  type AllocationState,
+  type RebalanceAction,
+  type RebalancePlan,
+  type RebalanceTotals,
+} from '../lib/rebalance';
+export {
+  RebalanceKeeper,
+  formatKeeperMetrics,
+  type KeeperLogger,
+  type KeeperLogLevel,
+  type KeeperMetrics,
+  type KeeperOptions,
+  type KeeperOutcome,
+  type SkipReason,
+} from './keeper';
+export { AlertWatcher, type AlertWatcherOptions } from './alertWatcher';
+export {
+  AlertConfigError,
+  AlertThrottle,
+  DEFAULT_ALERT_RULES,
+  eventAlerts,
+  parseAlertRules,
+  stateAlerts,
+  type Alert,
+  type AlertEvent,
+  type AlertEventName,
+  type AlertRule,
+  type AlertSeverity,
+  type AlertThrottleOptions,
+} from '../lib/alerts';
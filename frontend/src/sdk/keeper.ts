@@ -0,0 +1,325 @@
+import type { Hash } from 'viem';
+import { decodeContractError } from '../lib/errors';
+import { absDeviation } from '../lib/rebalance';
+import type { MetaIndexClient } from './client';
+
+// Rebalance keeper: evaluated once per block, it calls StrategyManager.rebalance()
+// when the on-chain checks pass, the cooldown since lastRebalanceTimestamp has
+// elapsed and the simulation succeeds. Only one transaction is in flight at a
+// time; a stuck one is re-sent with the same nonce and bumped fees.
+
+export interface KeeperOptions {
+  // Evaluate and simulate, but never send
+  dryRun: boolean;
+  // Minimum seconds between rebalances, measured against lastRebalanceTimestamp
+  cooldown: number;
+  // Gas limit cap; rebalances estimated above it are skipped
+  maxGas: bigint;
+  // Fee cap in wei; skipped while the network asks for more
+  maxFeePerGas?: bigint;
+  // Blocks to wait for an in-flight rebalance before replacing it
+  replaceAfterBlocks: number;
+}
+
+export type KeeperLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type KeeperLogger = (level: KeeperLogLevel, event: string, fields?: Record<string, unknown>) => void;
+
+export type SkipReason =
+  | 'not-needed'
+  | 'below-minimum'
+  | 'cooldown'
+  | 'simulation-failed'
+  | 'gas-cap'
+  | 'fee-cap';
+
+export type KeeperOutcome =
+  | { action: 'skipped'; reason: SkipReason }
+  | { action: 'would-rebalance'; gas: bigint }
+  | { action: 'submitted'; hash: Hash; nonce: number }
+  | { action: 'pending'; hash: Hash }
+  | { action: 'confirmed'; hash: Hash }
+  | { action: 'reverted'; hash: Hash }
+  | { action: 'dropped'; hash: Hash };
+
+export interface KeeperMetrics {
+  ticks: number;
+  errors: number;
+  skips: Partial<Record<SkipReason, number>>;
+  submitted: number;
+  replaced: number;
+  confirmed: number;
+  reverted: number;
+  dropped: number;
+  lastBlock: bigint;
+  totalValue: bigint;
+  maxDeviation: bigint;
+  needsRebalancing: boolean;
+  lastRebalanceTimestamp: bigint;
+  inFlight: boolean;
+}
+
+interface InFlight {
+  hash: Hash;
+  // Earlier transactions with the same nonce; any of them may be the one mined
+  replaced: Hash[];
+  nonce: number;
+  sentAtBlock: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Nodes accept a replacement only if it raises both fees by at least 10%;
+// 25% leaves room for fees that rose while the original was pending
+const REPLACEMENT_BUMP_PERCENT = 125n;
+// Headroom over the gas estimate, still bounded by maxGas
+const GAS_LIMIT_PERCENT = 120n;
+
+export class RebalanceKeeper {
+  readonly metrics: KeeperMetrics = {
+    ticks: 0,
+    errors: 0,
+    skips: {},
+    submitted: 0,
+    replaced: 0,
+    confirmed: 0,
+    reverted: 0,
+    dropped: 0,
+    lastBlock: 0n,
+    totalValue: 0n,
+    maxDeviation: 0n,
+    needsRebalancing: false,
+    lastRebalanceTimestamp: 0n,
+    inFlight: false,
+  };
+
+  private readonly sdk: MetaIndexClient;
+  private readonly options: KeeperOptions;
+  private readonly log: KeeperLogger;
+  private inFlight?: InFlight;
+
+  constructor(sdk: MetaIndexClient, options: KeeperOptions, log: KeeperLogger = () => {}) {
+    this.sdk = sdk;
+    this.options = options;
+    this.log = log;
+  }
+
+  /** Evaluate the keeper at `blockNumber`. Errors are logged and counted, then rethrown. */
+  async tick(blockNumber: bigint): Promise<KeeperOutcome> {
+    this.metrics.ticks++;
+    this.metrics.lastBlock = blockNumber;
+    try {
+      return this.inFlight ? await this.checkInFlight(this.inFlight, blockNumber) : await this.evaluate(blockNumber);
+    } catch (error) {
+      this.metrics.errors++;
+      this.log('error', 'tick-failed', { block: blockNumber, error: decodeContractError(error) });
+      throw error;
+    }
+  }
+
+  private skip(reason: SkipReason, fields: Record<string, unknown> = {}): KeeperOutcome {
+    this.metrics.skips[reason] = (this.metrics.skips[reason] ?? 0) + 1;
+    this.log(reason === 'not-needed' ? 'debug' : 'info', 'skipped', { reason, ...fields });
+    return { action: 'skipped', reason };
+  }
+
+  private async evaluate(blockNumber: bigint): Promise<KeeperOutcome> {
+    const { publicClient } = this.sdk;
+    // Every check reads the block being evaluated, so they agree with each other
+    const [needsRebalancing, totalValue, status, lastRebalance, block] = await Promise.all([
+      this.sdk.needsRebalancing(blockNumber),
+      this.sdk.getTotalValue(blockNumber),
+      this.sdk.getRebalanceStatus(blockNumber),
+      this.sdk.getLastRebalanceTimestamp(blockNumber),
+      publicClient.getBlock({ blockNumber }),
+    ]);
+
+    this.metrics.needsRebalancing = needsRebalancing;
+    this.metrics.totalValue = totalValue;
+    this.metrics.lastRebalanceTimestamp = lastRebalance;
+    this.metrics.maxDeviation = status.states.reduce((max, s) => (absDeviation(s) > max ? absDeviation(s) : max), 0n);
+
+    if (!needsRebalancing) return this.skip('not-needed', { block: blockNumber });
+    if (totalValue < status.minRebalanceAmount) {
+      return this.skip('below-minimum', { totalValue, minRebalanceAmount: status.minRebalanceAmount });
+    }
+
+    const elapsed = Number(block.timestamp - lastRebalance);
+    if (elapsed < this.options.cooldown) {
+      return this.skip('cooldown', { elapsed, cooldown: this.options.cooldown });
+    }
+
+    try {
+      await this.sdk.simulateRebalance();
+    } catch (error) {
+      return this.skip('simulation-failed', { error: decodeContractError(error) });
+    }
+
+    const gas = await this.sdk.estimateRebalanceGas();
+    if (gas > this.options.maxGas) return this.skip('gas-cap', { gas, maxGas: this.options.maxGas });
+
+    const fees = await publicClient.estimateFeesPerGas();
+    if (this.options.maxFeePerGas !== undefined && fees.maxFeePerGas > this.options.maxFeePerGas) {
+      return this.skip('fee-cap', { maxFeePerGas: fees.maxFeePerGas, cap: this.options.maxFeePerGas });
+    }
+
+    const plan = {
+      withdrawals: status.plan.withdrawals.map((a) => ({ strategy: a.strategy, amount: a.amount })),
+      deposits: status.plan.deposits.map((a) => ({ strategy: a.strategy, amount: a.amount })),
+    };
+
+    if (this.options.dryRun) {
+      this.log('info', 'would-rebalance', { block: blockNumber, totalValue, gas, plan });
+      return { action: 'would-rebalance', gas };
+    }
+
+    const nonce = await publicClient.getTransactionCount({ address: this.sdk.signerAddress, blockTag: 'pending' });
+    return this.send(
+      {
+        nonce,
+        replaced: [],
+        sentAtBlock: blockNumber,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      },
+      gas,
+      { totalValue, plan },
+    );
+  }
+
+  private async send(tx: Omit<InFlight, 'hash'>, gas: bigint, fields: Record<string, unknown> = {}) {
+    const limit = (gas * GAS_LIMIT_PERCENT) / 100n;
+    const hash = await this.sdk.rebalance({
+      gas: limit > this.options.maxGas ? this.options.maxGas : limit,
+      nonce: tx.nonce,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    });
+
+    this.inFlight = { ...tx, hash };
+    this.metrics.inFlight = true;
+    this.metrics.submitted++;
+    this.log('info', 'rebalance-submitted', { hash, nonce: tx.nonce, maxFeePerGas: tx.maxFeePerGas, ...fields });
+    return { action: 'submitted' as const, hash, nonce: tx.nonce };
+  }
+
+  private clearInFlight() {
+    this.inFlight = undefined;
+    this.metrics.inFlight = false;
+  }
+
+  private async checkInFlight(tx: InFlight, blockNumber: bigint): Promise<KeeperOutcome> {
+    const { publicClient } = this.sdk;
+    // Read the nonce before the receipts, at the ticked block: if it has moved
+    // past ours, whichever transaction took it is mined by the time the
+    // receipts are looked up, so ours is never counted as dropped
+    const confirmedNonce = await publicClient.getTransactionCount({ address: this.sdk.signerAddress, blockNumber });
+    const receipts = await Promise.all(
+      [tx.hash, ...tx.replaced].map((hash) => publicClient.getTransactionReceipt({ hash }).catch(() => undefined)),
+    );
+    const receipt = receipts.find((r) => r !== undefined);
+
+    if (receipt) {
+      const hash = receipt.transactionHash;
+      this.clearInFlight();
+      if (receipt.status === 'success') {
+        this.metrics.confirmed++;
+        this.log('info', 'rebalance-confirmed', { hash, block: receipt.blockNumber, gasUsed: receipt.gasUsed });
+        return { action: 'confirmed', hash };
+      }
+      this.metrics.reverted++;
+      this.log('error', 'rebalance-reverted', { hash, block: receipt.blockNumber });
+      return { action: 'reverted', hash };
+    }
+
+    // Another transaction from the same account took the nonce (e.g. sent by hand)
+    if (confirmedNonce > tx.nonce) {
+      this.clearInFlight();
+      this.metrics.dropped++;
+      this.log('warn', 'rebalance-dropped', { hash: tx.hash, nonce: tx.nonce });
+      return { action: 'dropped', hash: tx.hash };
+    }
+
+    if (blockNumber - tx.sentAtBlock < BigInt(this.options.replaceAfterBlocks)) {
+      return { action: 'pending', hash: tx.hash };
+    }
+
+    // Re-send with the same nonce so it replaces the stuck transaction
+    const maxFeePerGas = (tx.maxFeePerGas * REPLACEMENT_BUMP_PERCENT) / 100n;
+    const maxPriorityFeePerGas = (tx.maxPriorityFeePerGas * REPLACEMENT_BUMP_PERCENT) / 100n;
+    if (this.options.maxFeePerGas !== undefined && maxFeePerGas > this.options.maxFeePerGas) {
+      this.log('warn', 'rebalance-stuck', { hash: tx.hash, nonce: tx.nonce, sentAtBlock: tx.sentAtBlock });
+      return { action: 'pending', hash: tx.hash };
+    }
+
+    try {
+      const gas = await this.sdk.estimateRebalanceGas();
+      this.metrics.replaced++;
+      return await this.send(
+        {
+          nonce: tx.nonce,
+          replaced: [...tx.replaced, tx.hash],
+          sentAtBlock: blockNumber,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        },
+        gas,
+        { replaces: tx.hash },
+      );
+    } catch (error) {
+      // Usually the original landed between the receipt check and the replacement
+      this.log('warn', 'replacement-failed', { hash: tx.hash, error: decodeContractError(error) });
+      return { action: 'pending', hash: tx.hash };
+    }
+  }
+}
+
+const line = (name: string, value: number | bigint | boolean, labels?: Record<string, string>) => {
+  const labelText = labels
+    ? `{${Object.entries(labels)
+        .map(([key, v]) => `${key}="${v}"`)
+        .join(',')}}`
+    : '';
+  return `${name}${labelText} ${typeof value === 'boolean' ? Number(value) : value.toString()}`;
+};
+
+/** Prometheus text exposition of the keeper metrics. */
+export function formatKeeperMetrics(metrics: KeeperMetrics): string {
+  const lines = [
+    '# HELP keeper_ticks_total Blocks evaluated by the keeper.',
+    '# TYPE keeper_ticks_total counter',
+    line('keeper_ticks_total', metrics.ticks),
+    '# HELP keeper_errors_total Ticks that failed with an error.',
+    '# TYPE keeper_errors_total counter',
+    line('keeper_errors_total', metrics.errors),
+    '# HELP keeper_skips_total Ticks that did not rebalance, by reason.',
+    '# TYPE keeper_skips_total counter',
+    ...Object.entries(metrics.skips).map(([reason, count]) => line('keeper_skips_total', count ?? 0, { reason })),
+    '# HELP keeper_rebalances_total Rebalance transactions by outcome.',
+    '# TYPE keeper_rebalances_total counter',
+    line('keeper_rebalances_total', metrics.submitted, { result: 'submitted' }),
+    line('keeper_rebalances_total', metrics.replaced, { result: 'replaced' }),
+    line('keeper_rebalances_total', metrics.confirmed, { result: 'confirmed' }),
+    line('keeper_rebalances_total', metrics.reverted, { result: 'reverted' }),
+    line('keeper_rebalances_total', metrics.dropped, { result: 'dropped' }),
+    '# HELP keeper_last_block Last block the keeper evaluated.',
+    '# TYPE keeper_last_block gauge',
+    line('keeper_last_block', metrics.lastBlock),
+    '# HELP keeper_total_value StrategyManager.totalValue() in raw asset units.',
+    '# TYPE keeper_total_value gauge',
+    line('keeper_total_value', metrics.totalValue),
+    '# HELP keeper_max_deviation_bps Largest allocation deviation in basis points.',
+    '# TYPE keeper_max_deviation_bps gauge',
+    line('keeper_max_deviation_bps', metrics.maxDeviation),
+    '# HELP keeper_needs_rebalancing StrategyManager.needsRebalancing() at the last evaluation.',
+    '# TYPE keeper_needs_rebalancing gauge',
+    line('keeper_needs_rebalancing', metrics.needsRebalancing),
+    '# HELP keeper_last_rebalance_timestamp_seconds StrategyManager.lastRebalanceTimestamp().',
+    '# TYPE keeper_last_rebalance_timestamp_seconds gauge',
+    line('keeper_last_rebalance_timestamp_seconds', metrics.lastRebalanceTimestamp),
+    '# HELP keeper_in_flight Whether a rebalance transaction is awaiting its receipt.',
+    '# TYPE keeper_in_flight gauge',
+    line('keeper_in_flight', metrics.inFlight),
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,156 @@
+import { createTestClient, custom, type Account, type Hash, type TestClient, type WalletClient } from 'viem';
+import { foundry } from 'viem/chains';
+import { mockERC20Abi, mockPriceOracleAbi, mockSwapRouterAbi } from '../contracts/abis';
+import { strategyContract } from '../contracts/registry';
+import type { MetaIndexClient } from './client';
+
+// Scenario controls for a local anvil deployment of Deploy.s.sol: the mocks'
+// setters have no access control, and anvil's evm_* methods move the clock.
+// MockStrategy.totalValue() is its USDC balance, so minting to or burning from
+// a strategy is how gains and losses are simulated.
+
+export interface RouterSettings {
+  // tokenOut per tokenIn, scaled by 1e18
+  rate: bigint;
+  // Basis points
+  slippage: bigint;
+}
+
+// MockStrategy.name(); other strategies don't value themselves by balance
+const MOCK_STRATEGY_NAME = 'Mock Strategy';
+
+export class LocalPlayground {
+  private readonly sdk: MetaIndexClient;
+  private readonly testClient: TestClient<'anvil'>;
+
+  constructor(sdk: MetaIndexClient) {
+    if (sdk.publicClient.chain?.id !== foundry.id) {
+      throw new Error(`The playground only runs on anvil (chain ${foundry.id})`);
+    }
+    this.sdk = sdk;
+    // evm_* go to the node, never through a wallet
+    this.testClient = createTestClient({ mode: 'anvil', chain: foundry, transport: custom(sdk.publicClient) });
+  }
+
+  private get signer(): { walletClient: WalletClient; account: Account } {
+    const walletClient = this.sdk.walletClient;
+    if (!walletClient?.account) {
+      throw new Error('LocalPlayground needs a wallet client with an account to send transactions');
+    }
+    return { walletClient, account: walletClient.account };
+  }
+
+  // ============ Faucet ============
+
+  /** Mint test USDC (MockERC20) to `to`. */
+  async mintAsset(to: `0x${string}`, amount: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.sdk.publicClient.simulateContract({
+      address: this.sdk.contracts.usdc.address,
+      abi: mockERC20Abi,
+      account,
+      functionName: 'mint',
+      args: [to, amount],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Strategies ============
+
+  async isMockStrategy(strategy: `0x${string}`): Promise<boolean> {
+    const name = await this.sdk.publicClient.readContract({ ...strategyContract(strategy), functionName: 'name' });
+    return name === MOCK_STRATEGY_NAME;
+  }
+
+  /**
+   * Simulated yield: a positive `delta` mints USDC into the strategy, a
+   * negative one burns it, moving totalValue() by exactly `delta`.
+   */
+  async adjustStrategyValue(strategy: `0x${string}`, delta: bigint): Promise<Hash> {
+    if (delta === 0n) throw new Error('Adjustment must not be zero');
+    if (!(await this.isMockStrategy(strategy))) {
+      throw new Error(`${strategy} is not a MockStrategy; its value does not follow its balance`);
+    }
+
+    const { walletClient, account } = this.signer;
+    const { request } = await this.sdk.publicClient.simulateContract({
+      address: this.sdk.contracts.usdc.address,
+      abi: mockERC20Abi,
+      account,
+      functionName: delta > 0n ? 'mint' : 'burn',
+      args: [strategy, delta > 0n ? delta : -delta],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Oracle ============
+
+  /** MockPriceOracle.setPrice on the manager's oracle; `price` has PRICE_DECIMALS. */
+  async setPrice(asset: `0x${string}`, price: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.sdk.publicClient.simulateContract({
+      address: await this.sdk.getPriceOracle(),
+      abi: mockPriceOracleAbi,
+      account,
+      functionName: 'setPrice',
+      args: [asset, price],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Swap router ============
+
+  // The registry types the router as ISwapRouter; the setters are MockSwapRouter's
+  private get swapRouter() {
+    return { address: this.sdk.contracts.swapRouter.address, abi: mockSwapRouterAbi } as const;
+  }
+
+  async getRouterSettings(tokenIn: `0x${string}`, tokenOut: `0x${string}`): Promise<RouterSettings> {
+    const { swapRouter } = this;
+    const [rate, slippage] = await Promise.all([
+      this.sdk.publicClient.readContract({ ...swapRouter, functionName: 'exchangeRates', args: [tokenIn, tokenOut] }),
+      this.sdk.publicClient.readContract({ ...swapRouter, functionName: 'slippage' }),
+    ]);
+    return { rate, slippage };
+  }
+
+  // `rate` is tokenOut per tokenIn, scaled by 1e18
+  async setExchangeRate(tokenIn: `0x${string}`, tokenOut: `0x${string}`, rate: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.sdk.publicClient.simulateContract({
+      ...this.swapRouter,
+      account,
+      functionName: 'setExchangeRate',
+      args: [tokenIn, tokenOut, rate],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  async setSlippage(bps: bigint): Promise<Hash> {
+    const { walletClient, account } = this.signer;
+    const { request } = await this.sdk.publicClient.simulateContract({
+      ...this.swapRouter,
+      account,
+      functionName: 'setSlippage',
+      args: [bps],
+    });
+    return walletClient.writeContract(request);
+  }
+
+  // ============ Time ============
+
+  /** Timestamp of the latest block, in seconds. */
+  async getChainTime(): Promise<bigint> {
+    return (await this.sdk.publicClient.getBlock()).timestamp;
+  }
+
+  /** Move the clock forward and mine a block so block.timestamp reflects it. */
+  async increaseTime(seconds: number): Promise<void> {
+    await this.testClient.increaseTime({ seconds });
+    await this.testClient.mine({ blocks: 1 });
+  }
+
+  async mine(blocks: number): Promise<void> {
+    await this.testClient.mine({ blocks });
+  }
+}
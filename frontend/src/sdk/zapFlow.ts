@@ -0,0 +1,137 @@
+import type { Hash, TransactionReceipt } from 'viem';
+import { scaleMinimumOut, transferredAmount, zapSteps, type ZapDirection, type ZapStep, type ZapStepName } from '../lib/zap';
+import { TransactionRevertedError, type MetaIndexClient } from './client';
+
+// Drives a zap through the steps of ZAP_STEPS, skipping approvals the current
+// allowance already covers. A step keeps its hash when waiting on it fails,
+// so a retry waits on the same transaction instead of sending it again; only
+// a revert clears the hash.
+
+export interface ZapInParams {
+  direction: 'in';
+  token: `0x${string}`;
+  amountIn: bigint;
+  // USDC the swap must return
+  minimumOut: bigint;
+  receiver: `0x${string}`;
+}
+
+export interface ZapOutParams {
+  direction: 'out';
+  token: `0x${string}`;
+  shares: bigint;
+  // previewRedeem(shares), the USDC amount minimumOut was quoted for
+  quotedIn: bigint;
+  // Output token the swap must return for quotedIn
+  minimumOut: bigint;
+  receiver: `0x${string}`;
+}
+
+export interface ZapFlow {
+  direction: ZapDirection;
+  params: ZapInParams | ZapOutParams;
+  steps: ZapStep[];
+  // USDC withdrawn (zap-out) or swapped into (zap-in), once known
+  usdcAmount?: bigint;
+  // Set when a step failed; retrying continues from that step
+  error?: string;
+}
+
+export function createZapFlow(params: ZapInParams | ZapOutParams): ZapFlow {
+  return { direction: params.direction, params, steps: zapSteps(params.direction) };
+}
+
+const setStep = (flow: ZapFlow, name: ZapStepName, update: Partial<ZapStep>): ZapFlow => ({
+  ...flow,
+  steps: flow.steps.map((step) => (step.name === name ? { ...step, ...update } : step)),
+});
+
+// Send one step's transaction; undefined when its approval is already covered
+async function sendStep(sdk: MetaIndexClient, flow: ZapFlow, name: ZapStepName, owner: `0x${string}`): Promise<Hash | undefined> {
+  const { params, usdcAmount } = flow;
+  const { usdc, vault, swapRouter } = sdk.contracts;
+  const approve = async (token: `0x${string}`, spender: `0x${string}`, amount: bigint) => {
+    const allowance = await sdk.getTokenAllowance(token, owner, spender);
+    return allowance >= amount ? undefined : sdk.approveToken(token, spender, amount);
+  };
+
+  if (params.direction === 'in') {
+    switch (name) {
+      case 'approve-swap':
+        return approve(params.token, swapRouter.address, params.amountIn);
+      case 'swap':
+        return sdk.swapExactInput(params.token, usdc.address, params.amountIn, params.minimumOut, owner);
+      case 'approve-vault':
+        return approve(usdc.address, vault.address, usdcAmount!);
+      case 'deposit':
+        return sdk.deposit(usdcAmount!, params.receiver);
+    }
+  } else {
+    switch (name) {
+      case 'withdraw':
+        return sdk.redeem(params.shares, owner, owner);
+      case 'approve-swap':
+        return approve(usdc.address, swapRouter.address, usdcAmount!);
+      case 'swap': {
+        const minimumOut = scaleMinimumOut(params.minimumOut, params.quotedIn, usdcAmount!);
+        return sdk.swapExactInput(usdc.address, params.token, usdcAmount!, minimumOut, params.receiver);
+      }
+    }
+  }
+  throw new Error(`Unknown zap step ${name}`);
+}
+
+// The USDC amount a confirmed step made known, if any
+function stepUsdcAmount(sdk: MetaIndexClient, flow: ZapFlow, name: ZapStepName, receipt: TransactionReceipt, owner: `0x${string}`) {
+  const received = flow.direction === 'in' ? name === 'swap' : name === 'withdraw';
+  return received ? transferredAmount(receipt.logs, sdk.contracts.usdc.address, owner) : undefined;
+}
+
+/**
+ * Run `initial` from its first unfinished step until every step settles.
+ * `onChange` sees each transition; when a step throws it is marked failed
+ * and the error is rethrown, so calling again with the last flow retries it.
+ */
+export async function runZap(
+  sdk: MetaIndexClient,
+  initial: ZapFlow,
+  owner: `0x${string}`,
+  onChange: (flow: ZapFlow) => void,
+): Promise<ZapFlow> {
+  let flow: ZapFlow = { ...initial, error: undefined };
+  const update = (next: ZapFlow) => {
+    flow = next;
+    onChange(flow);
+  };
+
+  for (const step of initial.steps) {
+    if (step.status === 'done' || step.status === 'skipped') continue;
+    try {
+      update(setStep(flow, step.name, { status: 'active' }));
+      let hash = step.hash;
+      if (!hash) {
+        hash = await sendStep(sdk, flow, step.name, owner);
+        if (!hash) {
+          update(setStep(flow, step.name, { status: 'skipped' }));
+          continue;
+        }
+        update(setStep(flow, step.name, { hash }));
+      }
+
+      let receipt: TransactionReceipt;
+      try {
+        receipt = await sdk.waitForTransaction(hash);
+      } catch (error) {
+        if (error instanceof TransactionRevertedError) flow = setStep(flow, step.name, { hash: undefined });
+        throw error;
+      }
+
+      const usdcAmount = stepUsdcAmount(sdk, flow, step.name, receipt, owner);
+      update({ ...setStep(flow, step.name, { status: 'done' }), ...(usdcAmount !== undefined && { usdcAmount }) });
+    } catch (error) {
+      update(setStep(flow, step.name, { status: 'failed' }));
+      throw error;
+    }
+  }
+  return flow;
+}
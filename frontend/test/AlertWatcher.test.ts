@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { parseUnits, type Hex } from 'viem';
+import { AlertWatcher, parseAlertRules } from '../src/sdk';
+import { publicClient, sdk, strategy1, testClient, walletClient } from './helpers/anvil';
+
+describe('AlertWatcher', () => {
+  let snapshot: Hex;
+  let watcher: AlertWatcher;
+
+  const vault = sdk.contracts.vault;
+  const send = async (hash: Promise<Hex>) => sdk.waitForTransaction(await hash);
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+
+    // Start right after the current head so only this test's events are seen
+    watcher = new AlertWatcher(sdk, { fromBlock: (await publicClient.getBlockNumber()) + 1n });
+  });
+
+  after(async () => {
+    await testClient.revert({ id: snapshot });
+  });
+
+  it('alerts on vault and strategy events since the last poll', async () => {
+    await send(walletClient.writeContract({ ...vault, functionName: 'pause' }));
+    await send(walletClient.writeContract({ ...vault, functionName: 'updateTVLCap', args: [parseUnits('20000', 6)] }));
+    await send(sdk.pauseStrategy(strategy1));
+
+    const alerts = await watcher.poll();
+    const rules = alerts.map((alert) => alert.rule);
+    assert.deepEqual(rules.slice(0, 3), ['vault-paused', 'configuration', 'strategy-paused']);
+    assert.match(alerts[1].message, /to 20,000 USDC/);
+
+    await send(walletClient.writeContract({ ...vault, functionName: 'unpause' }));
+    await send(sdk.unpauseStrategy(strategy1));
+    const next = await watcher.poll();
+    assert.deepEqual(
+      next.filter((alert) => alert.transactionHash).map((alert) => alert.rule),
+      ['operations'],
+    );
+  });
+
+  it('alerts once per dedup window while a threshold holds', async () => {
+    const capped = new AlertWatcher(sdk, {
+      rules: parseAlertRules([{ id: 'cap', type: 'tvl-near-cap', thresholdBps: 0, severity: 'warning' }]),
+    });
+
+    assert.deepEqual((await capped.poll()).map((alert) => alert.rule), ['cap']);
+    assert.deepEqual(await capped.poll(), []);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AlertConfigError,
+  AlertThrottle,
+  DEFAULT_ALERT_RULES,
+  eventAlerts,
+  parseAlertRules,
+  stateAlerts,
+  type Alert,
+  type AlertEvent,
+} from '../src/lib/alerts';
+import type { ProtocolSnapshot } from '../src/sdk';
+
+// Alert rules, evaluation and throttling; no anvil node needed.
+
+const VAULT = '0x00000000000000000000000000000000000000a1';
+const STRATEGY_A = '0x00000000000000000000000000000000000000b1';
+const STRATEGY_B = '0x00000000000000000000000000000000000000b2';
+const TX = `0x${'11'.repeat(32)}` as const;
+
+const event = (fields: Partial<AlertEvent> & Pick<AlertEvent, 'eventName'>): AlertEvent =>
+  ({ blockNumber: 7n, logIndex: 0, transactionHash: TX, contract: VAULT, ...fields }) as AlertEvent;
+
+const snapshot = (totalAssets: bigint, tvlCap: bigint, deviations: bigint[]) =>
+  ({
+    blockNumber: 9n,
+    vault: { totalAssets, tvlCap, assetDecimals: 6 },
+    strategies: [
+      { address: STRATEGY_A, name: 'DeFi' },
+      { address: STRATEGY_B, name: 'Yield' },
+    ],
+    rebalance: {
+      deviationThreshold: 500n,
+      states: deviations.map((deviation, i) => ({ strategy: [STRATEGY_A, STRATEGY_B][i], deviation })),
+    },
+  }) as unknown as ProtocolSnapshot;
+
+const alert = (key: string): Alert => ({ key, rule: 'r', severity: 'info', title: 't', message: 'm', blockNumber: 1n });
+
+describe('alert rules', () => {
+  it('parses rules from JSON with numeric thresholds', () => {
+    const rules = parseAlertRules([
+      { id: 'pause', type: 'event', events: ['Paused'], severity: 'critical', addresses: [VAULT] },
+      { id: 'cap', type: 'tvl-near-cap', thresholdBps: 9500, severity: 'warning' },
+      { id: 'drift', type: 'drift', severity: 'info' },
+    ]);
+    assert.deepEqual(rules[1], { id: 'cap', type: 'tvl-near-cap', thresholdBps: 9500n, severity: 'warning' });
+    assert.equal(rules[2].type === 'drift' && rules[2].thresholdBps, undefined);
+  });
+
+  it('lists every issue in invalid rules', () => {
+    assert.throws(
+      () =>
+        parseAlertRules([
+          { id: 'a', type: 'event', events: ['Deposited'], severity: 'loud' },
+          { id: 'a', type: 'tvl-near-cap', thresholdBps: 20000, severity: 'info' },
+          { id: 'b', type: 'weather', severity: 'info' },
+        ]),
+      (error: unknown) =>
+        error instanceof AlertConfigError &&
+        /unknown event "Deposited"/.test(error.message) &&
+        /severity must be one of/.test(error.message) &&
+        /"a" is used twice/.test(error.message) &&
+        /thresholdBps must be an integer/.test(error.message) &&
+        /type must be one of/.test(error.message),
+    );
+  });
+});
+
+describe('alert evaluation', () => {
+  it('raises one alert per matching event rule', () => {
+    const [paused] = eventAlerts(DEFAULT_ALERT_RULES, event({ eventName: 'Paused', args: { account: VAULT } }), 6);
+    assert.equal(paused.rule, 'vault-paused');
+    assert.equal(paused.severity, 'critical');
+    assert.equal(paused.key, `vault-paused:${TX}:0`);
+
+    const [cap] = eventAlerts(
+      DEFAULT_ALERT_RULES,
+      event({ eventName: 'TVLCapUpdated', args: { oldCap: 10_000_000_000n, newCap: 50_000_000_000n } }),
+      6,
+    );
+    assert.match(cap.message, /10,000 USDC to 50,000 USDC/);
+  });
+
+  it('filters events by the addresses they involve', () => {
+    const rules = parseAlertRules([
+      { id: 'a-only', type: 'event', events: ['StrategyPaused', 'AllocationUpdated'], severity: 'warning', addresses: [STRATEGY_A] },
+    ]);
+    assert.equal(eventAlerts(rules, event({ eventName: 'StrategyPaused', contract: STRATEGY_A }), 6).length, 1);
+    assert.equal(eventAlerts(rules, event({ eventName: 'StrategyPaused', contract: STRATEGY_B }), 6).length, 0);
+    const updated = event({
+      eventName: 'AllocationUpdated',
+      contract: VAULT,
+      args: { strategy: STRATEGY_A, oldAllocation: 6000n, newAllocation: 5000n },
+    });
+    assert.equal(eventAlerts(rules, updated, 6).length, 1);
+  });
+
+  it('fires threshold rules on TVL near the cap and drift above the threshold', () => {
+    const calm = stateAlerts(DEFAULT_ALERT_RULES, snapshot(8_000n, 10_000n, [300n, -300n]));
+    assert.deepEqual(calm, []);
+
+    const breached = stateAlerts(DEFAULT_ALERT_RULES, snapshot(9_500n, 10_000n, [200n, -700n]));
+    assert.deepEqual(breached.map((a) => a.rule), ['tvl-near-cap', 'drift']);
+    assert.match(breached[0].message, /\(95.00%\)/);
+    assert.match(breached[1].message, /^Yield is 7.00% from its target/);
+
+    // No cap configured
+    assert.deepEqual(stateAlerts(DEFAULT_ALERT_RULES, snapshot(9_500n, 0n, [])), []);
+  });
+});
+
+describe('alert throttle', () => {
+  it('drops repeats of a key within the dedup window', () => {
+    let now = 0;
+    const throttle = new AlertThrottle({ dedupWindowMs: 1_000 }, () => now);
+    assert.equal(throttle.admit(alert('a')), true);
+    now = 999;
+    assert.equal(throttle.admit(alert('a')), false);
+    now = 1_000;
+    assert.equal(throttle.admit(alert('a')), true);
+  });
+
+  it('rate limits across keys in a sliding window', () => {
+    let now = 0;
+    const throttle = new AlertThrottle({ maxPerWindow: 2, rateWindowMs: 1_000 }, () => now);
+    assert.equal(throttle.admit(alert('a')), true);
+    assert.equal(throttle.admit(alert('b')), true);
+    assert.equal(throttle.admit(alert('c')), false);
+    assert.equal(throttle.dropped, 1);
+    now = 1_000;
+    assert.equal(throttle.admit(alert('c')), true);
+  });
+});
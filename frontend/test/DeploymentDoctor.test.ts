@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { runDeploymentChecks } from '../src/lib/deploymentDoctor';
+import { deployment, publicClient } from './helpers/anvil';
+
+// Anvil account #1, which Deploy.s.sol grants nothing
+const OTHER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const failures = (report: Awaited<ReturnType<typeof runDeploymentChecks>>) =>
+  report.checks.filter((check) => check.status === 'fail').map((check) => check.name);
+
+describe('deployment doctor', () => {
+  it('passes a fresh Deploy.s.sol deployment', async () => {
+    const report = await runDeploymentChecks(publicClient, deployment);
+
+    assert.deepEqual(failures(report), []);
+    assert.equal(report.passed, true);
+    // MockPriceOracle has no roles to check
+    assert.ok(report.checks.filter((check) => check.status === 'skip').every((check) => check.group === 'roles'));
+  });
+
+  it('fails a deployment file whose addresses are mixed up', async () => {
+    const report = await runDeploymentChecks(publicClient, { ...deployment, strategy1: deployment.usdc, deployer: OTHER });
+    const failed = failures(report);
+
+    assert.equal(report.passed, false);
+    assert.ok(failed.includes('strategy1 is registered with the manager'));
+    assert.ok(failed.includes(`strategy ${deployment.usdc} vault()`));
+    assert.ok(failed.includes('vault grants DEFAULT_ADMIN_ROLE to the deployer'));
+    assert.ok(!failed.includes('manager.vault() is the vault'));
+  });
+
+  it('skips the fixture checks for a file without the dev fixture', async () => {
+    const { strategy2 } = deployment;
+    const contracts = { ...deployment, deployer: undefined, strategy1: undefined, strategy2: undefined };
+    const report = await runDeploymentChecks(publicClient, contracts);
+    const skipped = report.checks.filter((check) => check.status === 'skip').map((check) => check.name);
+
+    assert.equal(report.passed, true);
+    assert.ok(skipped.includes('vault grants DEFAULT_ADMIN_ROLE to the deployer'));
+    assert.ok(!report.checks.some((check) => check.name.endsWith('is registered with the manager')));
+    // Registered strategies are still checked from getStrategies()
+    assert.ok(report.checks.some((check) => check.name === `strategy ${strategy2} vault()`));
+  });
+
+  it('fails addresses without code', async () => {
+    const report = await runDeploymentChecks(publicClient, { ...deployment, swapRouter: OTHER });
+
+    assert.deepEqual(failures(report), ['swapRouter has code']);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { PublicClient } from 'viem';
+import { scanWithCache } from '../src/lib/eventIndexer';
+
+// Without IndexedDB (node) the scan runs uncached against a fake head block
+const client = {
+  getBlock: async () => ({ number: 99n, hash: `0x${'ab'.repeat(32)}` }),
+} as unknown as PublicClient;
+
+describe('scanWithCache', () => {
+  it('halves the chunk on a failing range and grows it back after successes', async () => {
+    const ranges: [bigint, bigint][] = [];
+    const items = await scanWithCache({
+      client,
+      key: 'test',
+      fromBlock: 0n,
+      chunkSize: 40n,
+      fetchRange: async (from, to) => {
+        // The RPC rejects ranges over 10 blocks until block 20
+        if (from < 20n && to - from >= 10n) throw new Error('range too large');
+        ranges.push([from, to]);
+        return [from];
+      },
+    });
+
+    assert.deepEqual(ranges, [
+      [0n, 9n],
+      [10n, 19n],
+      [20n, 39n],
+      [40n, 79n],
+      [80n, 99n],
+    ]);
+    assert.deepEqual(items, [0n, 10n, 20n, 40n, 80n]);
+  });
+
+  it('gives up once a single block fails', async () => {
+    await assert.rejects(
+      scanWithCache({
+        client,
+        key: 'test',
+        fromBlock: 0n,
+        chunkSize: 4n,
+        fetchRange: async () => {
+          throw new Error('getLogs failed');
+        },
+      }),
+      /getLogs failed/,
+    );
+  });
+});
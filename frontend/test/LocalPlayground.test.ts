@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { parseUnits, type Hex } from 'viem';
+import { LocalPlayground } from '../src/sdk';
+import { deployment, sdk, strategy1, testClient } from './helpers/anvil';
+
+describe('LocalPlayground', () => {
+  let snapshot: Hex;
+  const playground = new LocalPlayground(sdk);
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+  });
+
+  after(async () => {
+    await testClient.revert({ id: snapshot });
+  });
+
+  it('mints test USDC to any address', async () => {
+    // Anvil account #1
+    const other = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const amount = parseUnits('500', 6);
+    const before = await sdk.getAssetBalance(other);
+
+    await sdk.waitForTransaction(await playground.mintAsset(other, amount));
+    assert.equal(await sdk.getAssetBalance(other), before + amount);
+  });
+
+  it('moves a mock strategy value up and down', async () => {
+    const strategy = strategy1;
+    const amount = parseUnits('250', 6);
+    const { totalValue } = await sdk.getStrategyDetails(strategy);
+
+    await sdk.waitForTransaction(await playground.adjustStrategyValue(strategy, amount));
+    assert.equal((await sdk.getStrategyDetails(strategy)).totalValue, totalValue + amount);
+
+    await sdk.waitForTransaction(await playground.adjustStrategyValue(strategy, -amount));
+    assert.equal((await sdk.getStrategyDetails(strategy)).totalValue, totalValue);
+
+    await assert.rejects(playground.adjustStrategyValue(deployment.vault, amount));
+  });
+
+  it('sets mock oracle prices and router settings', async () => {
+    await sdk.waitForTransaction(await playground.setPrice(deployment.usdc, 99_000_000n));
+    assert.equal(await sdk.getPrice(deployment.usdc), 99_000_000n);
+
+    const rate = parseUnits('1.5', 18);
+    await sdk.waitForTransaction(await playground.setExchangeRate(deployment.usdc, deployment.vault, rate));
+    await sdk.waitForTransaction(await playground.setSlippage(50n));
+    assert.deepEqual(await playground.getRouterSettings(deployment.usdc, deployment.vault), { rate, slippage: 50n });
+  });
+
+  it('advances time and mines blocks', async () => {
+    const time = await playground.getChainTime();
+    const block = await sdk.publicClient.getBlockNumber();
+
+    await playground.increaseTime(86_400);
+    assert.ok((await playground.getChainTime()) >= time + 86_400n);
+
+    await playground.mine(5);
+    assert.equal(await sdk.publicClient.getBlockNumber(), block + 6n);
+  });
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { parseUnits, type Hex } from 'viem';
+import { BPS_DENOMINATOR, MetaIndexClient, portfolioBreakdown } from '../src/sdk';
+import { account, deployment, publicClient, sdk, strategy1, strategy2, testClient } from './helpers/anvil';
+
+// Each suite runs inside an evm_snapshot that is reverted afterwards, so the
+// deployment is left as it was.
+
+describe('MetaIndexClient', () => {
+  let snapshot: Hex;
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+  });
+
+  after(async () => {
+    await testClient.revert({ id: snapshot });
+  });
+
+  it('reads the vault configuration', async () => {
+    const state = await sdk.getVaultState();
+    assert.equal(state.asset, deployment.usdc);
+    assert.equal(state.paused, false);
+    assert.ok(state.tvlCap > 0n);
+    assert.ok(state.minDeposit > 0n);
+  });
+
+  it('enumerates strategies with allocations summing to 100%', async () => {
+    const strategies = await sdk.getStrategyAllocations();
+    assert.deepEqual(
+      strategies.map((s) => s.address),
+      [strategy1, strategy2],
+    );
+    assert.equal(
+      strategies.reduce((sum, s) => sum + s.allocation, 0n),
+      BPS_DENOMINATOR,
+    );
+  });
+
+  it('deposits and redeems the exact share balance', async () => {
+    const amount = parseUnits('100', 6);
+    const balanceBefore = await sdk.getAssetBalance(account.address);
+
+    await sdk.waitForTransaction(await sdk.approve(amount));
+    assert.equal(await sdk.getAllowance(account.address), amount);
+
+    const expectedShares = await sdk.previewDeposit(amount);
+    await sdk.waitForTransaction(await sdk.deposit(amount, account.address));
+
+    const position = await sdk.getPosition(account.address);
+    assert.equal(position.shares, expectedShares);
+    assert.equal(position.maxRedeem, position.shares);
+    assert.equal(await sdk.getAssetBalance(account.address), balanceBefore - amount);
+
+    await sdk.waitForTransaction(await sdk.redeem(position.maxRedeem, account.address, account.address));
+    assert.equal((await sdk.getPosition(account.address)).shares, 0n);
+  });
+
+  it('transfers and approves vault shares', async () => {
+    // Anvil account #1
+    const other = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const amount = parseUnits('100', 6);
+    await sdk.waitForTransaction(await sdk.approve(amount));
+    await sdk.waitForTransaction(await sdk.deposit(amount, account.address));
+
+    const token = await sdk.getShareToken();
+    assert.equal(token.address, deployment.vault);
+    assert.equal(token.decimals, (await sdk.getVaultState()).decimals);
+
+    const { shares } = await sdk.getPosition(account.address);
+    await sdk.waitForTransaction(await sdk.transferShares(other, shares / 2n));
+    assert.equal((await sdk.getPosition(other)).shares, shares / 2n);
+
+    await sdk.waitForTransaction(await sdk.approveShares(other, 1n));
+    assert.equal(await sdk.getShareAllowance(account.address, other), 1n);
+    await sdk.waitForTransaction(await sdk.approveShares(other, 0n));
+    assert.equal(await sdk.getShareAllowance(account.address, other), 0n);
+
+    await assert.rejects(sdk.transferShares(other, shares), /ERC20InsufficientBalance/);
+  });
+
+  it('splits a position across idle assets and strategies', async () => {
+    const { vault, strategies } = await sdk.getSnapshot(account.address);
+    // The whole supply is backed by exactly the idle balance plus every strategy
+    const breakdown = portfolioBreakdown(vault.totalSupply, vault, strategies);
+    assert.deepEqual(
+      breakdown.slices.map((s) => s.value),
+      [vault.totalAssets, ...strategies.map((s) => s.totalValue)],
+    );
+    assert.equal(portfolioBreakdown(0n, vault, strategies).total, 0n);
+  });
+
+  it('surfaces reverts from the simulation', async () => {
+    const { minDeposit } = await sdk.getVaultState();
+    await assert.rejects(sdk.deposit(minDeposit - 1n, account.address), /BelowMinimumDeposit/);
+  });
+
+  it('refuses writes without a wallet client', async () => {
+    const readOnly = MetaIndexClient.fromDeployment(deployment, { publicClient });
+    await assert.rejects(readOnly.approve(1n), /wallet client/);
+  });
+
+  it('reads the deployer roles and applies governance writes', async () => {
+    const roles = await sdk.getAccountRoles(account.address);
+    assert.equal(roles.vaultAdmin, true);
+    assert.equal(roles.managerAdmin, true);
+
+    const settings = await sdk.getProtocolSettings();
+    assert.equal(settings.strategyManager, deployment.strategyManager);
+
+    await sdk.waitForTransaction(await sdk.updateTVLCap(settings.tvlCap + 1n));
+    assert.equal((await sdk.getProtocolSettings()).tvlCap, settings.tvlCap + 1n);
+  });
+
+  it('plans rebalances that match the on-chain check', async () => {
+    const status = await sdk.getRebalanceStatus();
+    assert.equal(status.states.length, 2);
+    assert.equal(status.needsRebalancing, await sdk.needsRebalancing());
+    assert.equal(
+      status.totalValue,
+      status.states.reduce((sum, s) => sum + s.currentValue, 0n),
+    );
+    if (status.totalValue === 0n) {
+      assert.deepEqual(status.plan, { deposits: [], withdrawals: [] });
+    }
+  });
+
+  it('reads a snapshot that matches the individual reads at its block', async () => {
+    const snapshot = await sdk.getSnapshot(account.address);
+    assert.equal(snapshot.blockNumber, await publicClient.getBlockNumber());
+    assert.deepEqual(snapshot.vault, await sdk.getVaultState());
+    assert.deepEqual(snapshot.rebalance, await sdk.getRebalanceStatus());
+    assert.deepEqual(
+      snapshot.strategies.map(({ address, allocation, totalValue }) => ({ address, allocation, totalValue })),
+      await sdk.getStrategyAllocations(),
+    );
+
+    const position = await sdk.getPosition(account.address);
+    assert.equal(snapshot.account?.shares, position.shares);
+    assert.equal(snapshot.account?.assets, position.assets);
+    assert.equal(snapshot.account?.assetBalance, await sdk.getAssetBalance(account.address));
+    assert.equal(snapshot.account?.maxDeposit, await sdk.maxDeposit(account.address));
+
+    assert.equal((await sdk.getSnapshot()).account, undefined);
+  });
+
+  it('reads oracle prices and feed health', async () => {
+    assert.equal(await sdk.getPrice(deployment.usdc), 100_000_000n);
+
+    const health = await sdk.getOracleHealth();
+    assert.equal(health.isMock, true);
+    const usdc = health.assets.find((a) => a.asset === deployment.usdc);
+    assert.equal(usdc?.status, 'healthy');
+  });
+});
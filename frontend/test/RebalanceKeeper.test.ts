@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { parseUnits, type Hex } from 'viem';
+import { RebalanceKeeper, formatKeeperMetrics, type KeeperOptions } from '../src/sdk';
+import { publicClient, sdk, sdkFor, strategy1, testClient, walletClient } from './helpers/anvil';
+
+// Drives the keeper end to end: MockStrategy.totalValue() is its USDC balance,
+// so minting to one strategy pushes the portfolio off target.
+
+const OPTIONS: KeeperOptions = {
+  dryRun: false,
+  cooldown: 3600,
+  maxGas: 3_000_000n,
+  replaceAfterBlocks: 5,
+};
+
+async function mintToStrategy(strategy: `0x${string}`, amount: bigint) {
+  const hash = await walletClient.writeContract({
+    ...sdk.contracts.usdc,
+    functionName: 'mint',
+    args: [strategy, amount],
+  });
+  await sdk.waitForTransaction(hash);
+}
+
+async function skipCooldown() {
+  await testClient.increaseTime({ seconds: OPTIONS.cooldown + 60 });
+  await testClient.mine({ blocks: 1 });
+}
+
+const tick = async (keeper: RebalanceKeeper) => keeper.tick(await publicClient.getBlockNumber());
+
+// Anvil account #1, which Deploy.s.sol grants nothing
+const outsider = sdkFor('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+describe('RebalanceKeeper', () => {
+  let snapshot: Hex;
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+  });
+
+  after(async () => {
+    await testClient.revert({ id: snapshot });
+  });
+
+  it('skips while the portfolio is on target', async () => {
+    const keeper = new RebalanceKeeper(sdk, OPTIONS);
+    assert.deepEqual(await tick(keeper), { action: 'skipped', reason: 'not-needed' });
+  });
+
+  it('waits for the cooldown since the last rebalance', async () => {
+    await mintToStrategy(strategy1, parseUnits('1000', 6));
+    assert.equal(await sdk.needsRebalancing(), true);
+
+    // Relative to the deployment, however long anvil has been running
+    const [lastRebalance, block] = await Promise.all([sdk.getLastRebalanceTimestamp(), publicClient.getBlock()]);
+    const cooldown = Number(block.timestamp - lastRebalance) + 60;
+
+    const keeper = new RebalanceKeeper(sdk, { ...OPTIONS, cooldown });
+    assert.deepEqual(await tick(keeper), { action: 'skipped', reason: 'cooldown' });
+  });
+
+  it('skips when the simulation reverts', async () => {
+    await skipCooldown();
+
+    // rebalance() reverts for an account without MANAGER_ROLE
+    const keeper = new RebalanceKeeper(outsider, OPTIONS);
+    assert.deepEqual(await tick(keeper), { action: 'skipped', reason: 'simulation-failed' });
+  });
+
+  it('respects the gas cap', async () => {
+    const keeper = new RebalanceKeeper(sdk, { ...OPTIONS, maxGas: 21_000n });
+    assert.deepEqual(await tick(keeper), { action: 'skipped', reason: 'gas-cap' });
+  });
+
+  it('only simulates in dry-run mode', async () => {
+    const keeper = new RebalanceKeeper(sdk, { ...OPTIONS, dryRun: true });
+    const outcome = await tick(keeper);
+    assert.equal(outcome.action, 'would-rebalance');
+    assert.equal(await sdk.needsRebalancing(), true);
+  });
+
+  it('rebalances and waits for the receipt', async () => {
+    const keeper = new RebalanceKeeper(sdk, OPTIONS);
+
+    const submitted = await tick(keeper);
+    assert.equal(submitted.action, 'submitted');
+
+    // Anvil automines, so the next tick finds the receipt
+    await testClient.mine({ blocks: 1 });
+    const confirmed = await tick(keeper);
+    assert.equal(confirmed.action, 'confirmed');
+
+    assert.equal(await sdk.needsRebalancing(), false);
+    const [first, second] = await sdk.getStrategyAllocations();
+    assert.equal(first.totalValue, parseUnits('600', 6));
+    assert.equal(second.totalValue, parseUnits('400', 6));
+
+    assert.deepEqual(await tick(keeper), { action: 'skipped', reason: 'not-needed' });
+    assert.match(formatKeeperMetrics(keeper.metrics), /keeper_rebalances_total\{result="confirmed"\} 1/);
+  });
+});
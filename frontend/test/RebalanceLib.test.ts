@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import type { Address, Hex, StateOverride } from 'viem';
+import { rebalanceLibAbi } from '../src/contracts/abis';
+import { revertReason } from '../src/lib/errors';
+import {
+  BPS_DENOMINATOR,
+  calculateAllocationStates,
+  calculateRebalanceActions,
+  calculateTotals,
+  needsRebalancing,
+  separateActions,
+  validateAllocations,
+  type AllocationState,
+} from '../src/lib/rebalance';
+import { publicClient } from './helpers/anvil';
+
+// Differential tests: the TypeScript port in src/lib/rebalance.ts against the
+// compiled RebalanceLib, executed with eth_call on anvil. The library's runtime
+// code is injected with a state override, so only `forge build` is needed, not
+// a deployment. Inputs are random but seeded; set SEED (and CASES) to reproduce.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ARTIFACT = path.resolve(__dirname, '../../out/RebalanceLib.sol/RebalanceLib.json');
+const LIBRARY: Address = '0x0000000000000000000000000000000000001234';
+const SEED = Number(process.env.SEED ?? Date.now() % 2 ** 31);
+const CASES = Number(process.env.CASES ?? 100);
+
+if (!fs.existsSync(ARTIFACT)) throw new Error(`${ARTIFACT} not found; run forge build first`);
+const runtimeCode = JSON.parse(fs.readFileSync(ARTIFACT, 'utf-8')).deployedBytecode.object as Hex;
+const stateOverride: StateOverride = [{ address: LIBRARY, code: runtimeCode }];
+const library = { address: LIBRARY, abi: rebalanceLibAbi, stateOverride };
+
+type Outcome<T> = { ok: T } | { error: string };
+
+// Errors compare by name: custom errors, and Solidity panics as "Panic"
+async function outcome<T>(run: () => T | Promise<T>, onChain: boolean): Promise<Outcome<T>> {
+  try {
+    return { ok: await run() };
+  } catch (error) {
+    if (onChain) return { error: revertReason(error) ?? String(error) };
+    return { error: error instanceof Error ? error.message.split(':')[0] : String(error) };
+  }
+}
+
+// mulberry32: small, seedable and good enough for input generation
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const bits = (count: number) => {
+    let value = 0n;
+    for (let i = 0; i < count; i += 32) value = (value << 32n) | BigInt(int(2 ** 32));
+    return value & ((1n << BigInt(count)) - 1n);
+  };
+  return { int, bits };
+}
+
+interface Case {
+  strategies: `0x${string}`[];
+  targets: bigint[];
+  values: bigint[];
+  totalValue: bigint;
+  threshold: bigint;
+}
+
+function randomCase(random: ReturnType<typeof createRandom>): Case {
+  const count = 1 + random.int(6);
+  // Digits only, so checksummed and lowercase forms are equal
+  const strategies = Array.from({ length: count }, (_, i) => `0x${(i + 1).toString().padStart(40, '0')}` as const);
+
+  // Usually a full 10000 bps split, sometimes arbitrary (invalid) targets
+  let targets: bigint[];
+  if (random.int(4) > 0) {
+    const cuts = Array.from({ length: count - 1 }, () => random.int(10_001)).sort((a, b) => a - b);
+    targets = [...cuts, 10_000].map((cut, i) => BigInt(cut - (i === 0 ? 0 : cuts[i - 1])));
+  } else {
+    targets = strategies.map(() => BigInt(random.int(12_000)));
+  }
+
+  const values = strategies.map(() => {
+    switch (random.int(10)) {
+      case 0:
+        return 0n;
+      case 1:
+        return random.bits(20);
+      case 2:
+        return random.bits(200); // large but safe
+      case 3:
+        return random.int(5) === 0 ? random.bits(256) : random.bits(64); // rarely overflows value * 10000
+      default:
+        return random.bits(48); // realistic 6-decimal amounts
+    }
+  });
+
+  // Clamped so that it still encodes as a uint256
+  const sum = values.reduce((a, b) => a + b, 0n);
+  const maxUint256 = 2n ** 256n - 1n;
+  const mode = random.int(10);
+  const unclamped = mode === 0 ? 0n : mode === 1 ? sum + random.bits(40) : mode === 2 ? sum / 2n : sum;
+  const totalValue = unclamped > maxUint256 ? maxUint256 : unclamped;
+
+  // Occasionally mismatch the array lengths
+  if (random.int(25) === 0) targets.pop();
+
+  return { strategies, targets, values, totalValue, threshold: BigInt(random.int(2_001)) };
+}
+
+describe(`RebalanceLib port (seed ${SEED})`, () => {
+  it('matches the constants', async () => {
+    const onChain = await publicClient.readContract({ ...library, functionName: 'BPS_DENOMINATOR' });
+    assert.equal(onChain, BPS_DENOMINATOR);
+  });
+
+  it(`agrees with the on-chain library on ${CASES} random portfolios`, async () => {
+    const random = createRandom(SEED);
+
+    for (let i = 0; i < CASES; i++) {
+      const input = randomCase(random);
+      const label = `case ${i}: ${JSON.stringify(input, (_, v) => (typeof v === 'bigint' ? v.toString() : v))}`;
+
+      const [localStates, chainStates] = await Promise.all([
+        outcome(() => calculateAllocationStates(input.strategies, input.targets, input.values, input.totalValue), false),
+        outcome(
+          () =>
+            publicClient.readContract({
+              ...library,
+              functionName: 'calculateAllocationStates',
+              args: [input.strategies, input.targets, input.values, input.totalValue],
+            }),
+          true,
+        ),
+      ]);
+      assert.deepEqual(localStates, chainStates, `calculateAllocationStates, ${label}`);
+
+      const [localValid, chainValid] = await Promise.all([
+        validateAllocations(input.targets),
+        publicClient.readContract({ ...library, functionName: 'validateAllocations', args: [input.targets] }),
+      ]);
+      assert.equal(localValid, chainValid, `validateAllocations, ${label}`);
+
+      if (!('ok' in localStates)) continue;
+      const states: readonly AllocationState[] = localStates.ok;
+      // viem only infers struct arguments from object literal types, not interfaces
+      const stateArgs = states.map((state) => ({ ...state }));
+
+      const [localNeeds, chainNeeds] = await Promise.all([
+        needsRebalancing(states, input.threshold),
+        publicClient.readContract({ ...library, functionName: 'needsRebalancing', args: [stateArgs, input.threshold] }),
+      ]);
+      assert.equal(localNeeds, chainNeeds, `needsRebalancing, ${label}`);
+
+      const [localActions, chainActions] = await Promise.all([
+        outcome(() => calculateRebalanceActions(states, input.totalValue), false),
+        outcome(
+          () =>
+            publicClient.readContract({
+              ...library,
+              functionName: 'calculateRebalanceActions',
+              args: [stateArgs, input.totalValue],
+            }),
+          true,
+        ),
+      ]);
+      assert.deepEqual(localActions, chainActions, `calculateRebalanceActions, ${label}`);
+      if (!('ok' in localActions)) continue;
+      const actions = localActions.ok;
+      const actionArgs = actions.map((action) => ({ ...action }));
+
+      const [totalDeposits, totalWithdrawals] = await publicClient.readContract({
+        ...library,
+        functionName: 'calculateTotals',
+        args: [actionArgs],
+      });
+      assert.deepEqual(calculateTotals(actions), { totalDeposits, totalWithdrawals }, `calculateTotals, ${label}`);
+
+      const [deposits, withdrawals] = await publicClient.readContract({
+        ...library,
+        functionName: 'separateActions',
+        args: [actionArgs],
+      });
+      assert.deepEqual(separateActions(actions), { deposits, withdrawals }, `separateActions, ${label}`);
+    }
+  });
+});
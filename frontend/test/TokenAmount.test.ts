@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  compareAmounts,
+  formatAmount,
+  formatBps,
+  formatUsd,
+  parseAmount,
+  percentBps,
+  toInputValue,
+} from '../src/lib/amount';
+
+// Pure bigint helpers; no anvil node needed.
+
+describe('parseAmount', () => {
+  it('accepts plain decimals up to the token precision', () => {
+    assert.equal(parseAmount('1', 6), 1_000_000n);
+    assert.equal(parseAmount('1.5', 6), 1_500_000n);
+    assert.equal(parseAmount('.25', 6), 250_000n);
+    assert.equal(parseAmount('1.', 6), 1_000_000n);
+    assert.equal(parseAmount('0.000001', 6), 1n);
+  });
+
+  it('rejects anything parseUnits would round or misread', () => {
+    for (const input of ['', '.', '-1', '+1', '1e6', '1,000', ' 1', '1 ', '0.0000001', '1.2.3', 'abc']) {
+      assert.equal(parseAmount(input, 6), undefined, input);
+    }
+    assert.equal(parseAmount('1.5', 0), undefined);
+  });
+
+  it('keeps every digit of balances beyond 2^53', () => {
+    assert.equal(parseAmount('123456789012345678.123456789012345678', 18), 123456789012345678123456789012345678n);
+  });
+});
+
+describe('formatAmount', () => {
+  it('groups and trims trailing zeros', () => {
+    assert.equal(formatAmount({ value: 1_234_567_890_000n, decimals: 6 }, { locale: 'en-US' }), '1,234,567.89');
+    assert.equal(formatAmount({ value: 0n, decimals: 6 }, { locale: 'en-US' }), '0');
+  });
+
+  it('rounds half away from zero at maximumFractionDigits', () => {
+    const options = { maximumFractionDigits: 2, locale: 'en-US' };
+    assert.equal(formatAmount({ value: 1_005_000n, decimals: 6 }, options), '1.01');
+    assert.equal(formatAmount({ value: -1_005_000n, decimals: 6 }, options), '-1.01');
+    assert.equal(formatAmount({ value: 999_999n, decimals: 6 }, options), '1');
+    assert.equal(formatAmount({ value: -1n, decimals: 6 }, options), '0');
+  });
+
+  it('pads to minimumFractionDigits', () => {
+    assert.equal(formatAmount({ value: 1_000_000n, decimals: 6 }, { minimumFractionDigits: 2, locale: 'en-US' }), '1.00');
+  });
+
+  it('does not lose precision on large 18-decimal balances', () => {
+    const value = 9_007_199_254_740_993n * 10n ** 18n + 1n;
+    assert.equal(toInputValue({ value, decimals: 18 }), '9007199254740993.000000000000000001');
+  });
+
+  it('shows a dash while loading', () => {
+    assert.equal(formatAmount(undefined), '—');
+    assert.equal(formatUsd(undefined), '—');
+  });
+});
+
+describe('formatUsd', () => {
+  it('puts the sign before the dollar', () => {
+    assert.equal(formatUsd({ value: -2_500_000n, decimals: 6 }, { locale: 'en-US' }), '-$2.5');
+    assert.equal(formatUsd({ value: 123_456_789n, decimals: 8 }, { locale: 'en-US' }), '$1.23');
+  });
+});
+
+describe('compareAmounts', () => {
+  it('compares across decimals', () => {
+    assert.equal(compareAmounts({ value: 1_000_000n, decimals: 6 }, { value: 10n ** 18n, decimals: 18 }), 0);
+    assert.equal(compareAmounts({ value: 1n, decimals: 18 }, { value: 0n, decimals: 6 }), 1);
+    assert.equal(compareAmounts({ value: 999_999n, decimals: 6 }, { value: 10n ** 18n, decimals: 18 }), -1);
+  });
+});
+
+describe('percentBps', () => {
+  it('is undefined for a zero denominator', () => {
+    assert.equal(percentBps({ value: 5n, decimals: 6 }, { value: 0n, decimals: 6 }), undefined);
+  });
+
+  it('rounds down and rescales', () => {
+    assert.equal(percentBps({ value: 1n, decimals: 6 }, { value: 3n, decimals: 6 }), 3333n);
+    assert.equal(percentBps({ value: 50n * 10n ** 8n, decimals: 8 }, { value: 100n * 10n ** 6n, decimals: 6 }), 5000n);
+    assert.equal(formatBps(3333n), '33.33');
+    assert.equal(formatBps(-125n, 1), '-1.3');
+  });
+});
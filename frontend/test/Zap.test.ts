@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { parseUnits, type Hex } from 'viem';
+import { mockERC20Abi } from '../src/contracts/abis/MockERC20';
+import { LocalPlayground, minimumAmountOut, transferredAmount } from '../src/sdk';
+import { account, deployMockToken, deployment, publicClient, sdk, testClient, walletClient } from './helpers/anvil';
+
+// Zap deposits and withdrawals against MockSwapRouter, with a fresh 18-decimal
+// token priced at $2000 and router rates 1% worse than the oracle.
+
+describe('zaps', () => {
+  let snapshot: Hex;
+  let weth: `0x${string}`;
+  const playground = new LocalPlayground(sdk);
+  const { usdc, swapRouter } = deployment;
+
+  const mint = async (token: `0x${string}`, to: `0x${string}`, amount: bigint) => {
+    const hash = await walletClient.writeContract({ address: token, abi: mockERC20Abi, functionName: 'mint', args: [to, amount] });
+    await publicClient.waitForTransactionReceipt({ hash });
+  };
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+    weth = await deployMockToken('Wrapped Ether', 'WETH', 18);
+
+    await sdk.waitForTransaction(await playground.setPrice(weth, 2_000n * 10n ** 8n));
+    // 1 WETH -> 1980 USDC and 1 USDC -> 0.000505 WETH, both in raw units scaled by 1e18
+    await sdk.waitForTransaction(await playground.setExchangeRate(weth, usdc, 1_980n * 10n ** 6n));
+    await sdk.waitForTransaction(await playground.setExchangeRate(usdc, weth, 505n * 10n ** 24n));
+    await sdk.waitForTransaction(await playground.setSlippage(0n));
+
+    // Router liquidity on both sides, and WETH for the zapper
+    await mint(weth, swapRouter, parseUnits('100', 18));
+    await mint(usdc, swapRouter, parseUnits('1000000', 6));
+    await mint(weth, account.address, parseUnits('10', 18));
+  });
+
+  after(async () => {
+    await testClient.revert({ id: snapshot });
+  });
+
+  it('quotes the router against the oracle', async () => {
+    const quote = await sdk.quoteSwap(weth, usdc, parseUnits('1', 18));
+
+    assert.equal(quote.amountOut, parseUnits('1980', 6));
+    assert.equal(quote.oracleAmountOut, parseUnits('2000', 6));
+    assert.equal(quote.priceImpactBps, 100n);
+  });
+
+  it('swaps into USDC and deposits what the swap returned', async () => {
+    const amountIn = parseUnits('1', 18);
+    const quote = await sdk.quoteSwap(weth, usdc, amountIn);
+    const { shares: sharesBefore } = await sdk.getPosition(account.address);
+
+    await sdk.waitForTransaction(await sdk.approveToken(weth, swapRouter, amountIn));
+    const receipt = await sdk.waitForTransaction(
+      await sdk.swapExactInput(weth, usdc, amountIn, minimumAmountOut(quote.amountOut, 50n), account.address),
+    );
+    const received = transferredAmount(receipt.logs, usdc, account.address);
+    assert.equal(received, quote.amountOut);
+
+    const expectedShares = await sdk.previewDeposit(received);
+    await sdk.waitForTransaction(await sdk.approve(received));
+    await sdk.waitForTransaction(await sdk.deposit(received, account.address));
+    assert.equal((await sdk.getPosition(account.address)).shares, sharesBefore + expectedShares);
+  });
+
+  it('redeems shares and swaps the USDC out', async () => {
+    const { shares } = await sdk.getPosition(account.address);
+    const redeemed = shares / 2n;
+    const wethBefore = await sdk.getTokenBalance(weth, account.address);
+
+    const receipt = await sdk.waitForTransaction(await sdk.redeem(redeemed, account.address, account.address));
+    const usdcOut = transferredAmount(receipt.logs, usdc, account.address);
+    const quote = await sdk.quoteSwap(usdc, weth, usdcOut);
+
+    await sdk.waitForTransaction(await sdk.approveToken(usdc, swapRouter, usdcOut));
+    await sdk.waitForTransaction(
+      await sdk.swapExactInput(usdc, weth, usdcOut, minimumAmountOut(quote.amountOut, 50n), account.address),
+    );
+    assert.equal(await sdk.getTokenBalance(weth, account.address), wethBefore + quote.amountOut);
+  });
+
+  it('reverts when the router pays less than amountOutMinimum', async () => {
+    const amountIn = parseUnits('1', 18);
+    const quote = await sdk.quoteSwap(weth, usdc, amountIn);
+    await sdk.waitForTransaction(await sdk.approveToken(weth, swapRouter, amountIn));
+
+    // The router slips 2% after the quote; a 0.5% tolerance rejects the swap
+    await sdk.waitForTransaction(await playground.setSlippage(200n));
+    await assert.rejects(
+      sdk.swapExactInput(weth, usdc, amountIn, minimumAmountOut(quote.amountOut, 50n), account.address),
+      /InsufficientOutput/,
+    );
+    await sdk.waitForTransaction(await playground.setSlippage(0n));
+  });
+
+  it('leaves the oracle side empty for tokens without a price feed', async () => {
+    const unpriced = await deployMockToken('Unpriced', 'UNP', 8);
+    const quote = await sdk.quoteSwap(unpriced, usdc, parseUnits('1', 8));
+
+    assert.equal(quote.amountOut, 0n);
+    assert.equal(quote.oracleAmountOut, undefined);
+    assert.equal(quote.priceImpactBps, undefined);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, type Log, type TransactionReceipt } from 'viem';
+import { createZapFlow, runZap, TransactionRevertedError, type MetaIndexClient, type ZapFlow } from '../src/sdk';
+
+// The zap state machine against a stub client, so receipt waits can fail on
+// demand; no anvil node needed.
+
+const USDC = '0x0000000000000000000000000000000000000001';
+const WETH = '0x0000000000000000000000000000000000000002';
+const VAULT = '0x0000000000000000000000000000000000000003';
+const ROUTER = '0x0000000000000000000000000000000000000004';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+
+const transferLog = (to: `0x${string}`, value: bigint) =>
+  ({
+    address: USDC,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from: VAULT, to } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  }) as unknown as Log;
+
+// Records every transaction it sends; `waits` decides how each receipt wait ends
+function stubClient(waits: (() => Promise<void>)[]) {
+  const sent: string[] = [];
+  const send = (name: string) => async () => {
+    sent.push(name);
+    return `0x${sent.length.toString(16).padStart(64, '0')}` as `0x${string}`;
+  };
+  const sdk = {
+    contracts: { usdc: { address: USDC }, vault: { address: VAULT }, swapRouter: { address: ROUTER } },
+    getTokenAllowance: async () => 0n,
+    approveToken: send('approve'),
+    redeem: send('redeem'),
+    swapExactInput: send('swap'),
+    deposit: send('deposit'),
+    waitForTransaction: async () => {
+      await waits.shift()?.();
+      return { status: 'success', logs: [transferLog(ALICE, 1_000n)] } as unknown as TransactionReceipt;
+    },
+  } as unknown as MetaIndexClient;
+  return { sdk, sent };
+}
+
+const zapOut = () =>
+  createZapFlow({ direction: 'out', token: WETH, shares: 10n, quotedIn: 1_000n, minimumOut: 5n, receiver: ALICE });
+
+// Run until the flow settles or throws, returning the last flow it reported
+async function run(sdk: MetaIndexClient, flow: ZapFlow) {
+  let latest = flow;
+  const error = await runZap(sdk, flow, ALICE, (next) => (latest = next)).then(
+    () => undefined,
+    (error: unknown) => error,
+  );
+  return { flow: latest, error };
+}
+
+describe('zap flow', () => {
+  it('runs every step and records the USDC the withdrawal paid', async () => {
+    const { sdk, sent } = stubClient([]);
+    const { flow, error } = await run(sdk, zapOut());
+
+    assert.equal(error, undefined);
+    assert.deepEqual(sent, ['redeem', 'approve', 'swap']);
+    assert.equal(flow.usdcAmount, 1_000n);
+    assert.ok(flow.steps.every((step) => step.status === 'done'));
+  });
+
+  it('waits on the sent transaction again after the receipt wait fails', async () => {
+    const { sdk, sent } = stubClient([() => Promise.reject(new Error('Timed out while waiting for transaction'))]);
+
+    const failed = await run(sdk, zapOut());
+    assert.match(String(failed.error), /Timed out/);
+    assert.deepEqual(sent, ['redeem']);
+    const [withdraw] = failed.flow.steps;
+    assert.equal(withdraw.status, 'failed');
+    assert.ok(withdraw.hash);
+
+    const resumed = await run(sdk, failed.flow);
+    assert.equal(resumed.error, undefined);
+    // The redeem is not sent a second time
+    assert.deepEqual(sent, ['redeem', 'approve', 'swap']);
+    assert.equal(resumed.flow.steps[0].hash, withdraw.hash);
+    assert.equal(resumed.flow.usdcAmount, 1_000n);
+  });
+
+  it('sends a reverted step again on retry', async () => {
+    const { sdk, sent } = stubClient([() => Promise.reject(new TransactionRevertedError('Transaction reverted'))]);
+
+    const failed = await run(sdk, zapOut());
+    assert.ok(failed.error instanceof TransactionRevertedError);
+    assert.equal(failed.flow.steps[0].hash, undefined);
+
+    await run(sdk, failed.flow);
+    assert.deepEqual(sent, ['redeem', 'redeem', 'approve', 'swap']);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeAbiParameters, erc20Abi, encodeEventTopics, type Log } from 'viem';
+import {
+  minimumAmountOut,
+  oracleAmountOut,
+  priceImpactBps,
+  scaleMinimumOut,
+  transferredAmount,
+} from '../src/lib/zap';
+
+// Pure zap arithmetic; no anvil node needed.
+
+const USDC = '0x0000000000000000000000000000000000000001';
+const WETH = '0x0000000000000000000000000000000000000002';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const ROUTER = '0x00000000000000000000000000000000000000b2';
+
+const transferLog = (token: `0x${string}`, from: `0x${string}`, to: `0x${string}`, value: bigint) =>
+  ({
+    address: token,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from, to } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  }) as unknown as Log;
+
+describe('zap quotes', () => {
+  it('turns the slippage tolerance into amountOutMinimum', () => {
+    assert.equal(minimumAmountOut(1_000_000n, 50n), 995_000n);
+    assert.equal(minimumAmountOut(1_000_000n, 0n), 1_000_000n);
+    assert.equal(minimumAmountOut(3n, 5_000n), 1n);
+  });
+
+  it('converts between tokens with different decimals at oracle prices', () => {
+    // 1 WETH at $3000 -> 3000 USDC at $1, both priced with 8 decimals
+    const weth = { decimals: 18, price: 3_000n * 10n ** 8n };
+    const usdc = { decimals: 6, price: 10n ** 8n };
+    assert.equal(oracleAmountOut(10n ** 18n, weth, usdc), 3_000_000_000n);
+    assert.equal(oracleAmountOut(3_000_000_000n, usdc, weth), 10n ** 18n);
+    assert.equal(oracleAmountOut(1n, weth, { decimals: 6, price: 0n }), 0n);
+  });
+
+  it('measures the router against the oracle', () => {
+    assert.equal(priceImpactBps(970n, 1_000n), 300n);
+    assert.equal(priceImpactBps(1_010n, 1_000n), -100n);
+    assert.equal(priceImpactBps(970n, undefined), undefined);
+    assert.equal(priceImpactBps(970n, 0n), undefined);
+  });
+
+  it('scales a minimum to the amount actually swapped', () => {
+    assert.equal(scaleMinimumOut(990n, 1_000n, 500n), 495n);
+    assert.equal(scaleMinimumOut(990n, 0n, 500n), 0n);
+  });
+
+  it('sums the transfers of one token to one address', () => {
+    const logs = [
+      transferLog(USDC, ROUTER, ALICE, 700n),
+      transferLog(USDC, ROUTER, ALICE, 300n),
+      transferLog(WETH, ROUTER, ALICE, 5n),
+      transferLog(USDC, ALICE, ROUTER, 42n),
+    ];
+    assert.equal(transferredAmount(logs, USDC, ALICE), 1_000n);
+    assert.equal(transferredAmount(logs, WETH, ALICE), 5n);
+    assert.equal(transferredAmount(logs, USDC, ROUTER), 42n);
+  });
+});
@@ -0,0 +1,63 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createPublicClient, createTestClient, createWalletClient, http, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import { mockERC20Abi } from '../../src/contracts/abis/MockERC20';
+import { MetaIndexClient, parseDeployment, type DeploymentFixtureField } from '../../src/sdk';
+
+// Clients for a local anvil node deployed with script/Deploy.s.sol:
+//
+//   anvil
+//   forge script script/Deploy.s.sol --rpc-url http://localhost:8545 --broadcast
+//   npm run test:sdk
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+// Anvil account #0, the deployer in Deploy.s.sol
+const PRIVATE_KEY = (process.env.PRIVATE_KEY ??
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80') as Hex;
+
+export const deployment = parseDeployment(
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../../deployments/latest.json'), 'utf-8')),
+  'deployments/latest.json',
+);
+
+// Deploy.s.sol always writes the optional fixture fields
+function fixtureAddress(field: DeploymentFixtureField): `0x${string}` {
+  const address = deployment[field];
+  if (!address) throw new Error(`deployments/latest.json has no ${field}; redeploy with script/Deploy.s.sol`);
+  return address;
+}
+
+export const strategy1 = fixtureAddress('strategy1');
+export const strategy2 = fixtureAddress('strategy2');
+
+export const account = privateKeyToAccount(PRIVATE_KEY);
+export const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+export const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+export const testClient = createTestClient({ mode: 'anvil', chain: foundry, transport: http(RPC_URL) });
+
+export const sdk = MetaIndexClient.fromDeployment(deployment, { publicClient, walletClient });
+
+/** SDK client signing as another account, e.g. one of anvil's that holds no roles. */
+export function sdkFor(privateKey: Hex): MetaIndexClient {
+  const other = createWalletClient({ account: privateKeyToAccount(privateKey), chain: foundry, transport: http(RPC_URL) });
+  return MetaIndexClient.fromDeployment(deployment, { publicClient, walletClient: other });
+}
+
+/** Deploy a fresh MockERC20 from the forge artifacts, e.g. a token to zap from. */
+export async function deployMockToken(name: string, symbol: string, decimals: number): Promise<`0x${string}`> {
+  const artifact = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, '../../../out/MockERC20.sol/MockERC20.json'), 'utf-8'),
+  );
+  const hash = await walletClient.deployContract({
+    abi: mockERC20Abi,
+    bytecode: artifact.bytecode.object as Hex,
+    args: [name, symbol, decimals],
+  });
+  const { contractAddress } = await publicClient.waitForTransactionReceipt({ hash });
+  return contractAddress!;
+}
@@ -33,6 +33,9 @@ contract Deploy is Script {
     // Deployer
     address public deployer;
 
+    // First block of the deployment (frontend event scans start here)
+    uint256 public deployBlock;
+
     // Configuration constants
     uint256 constant INITIAL_MINT = 1_000_000e6; // 1M USDC for testing
     uint256 constant STRATEGY1_ALLOCATION = 6000; // 60%
@@ -42,6 +45,7 @@ contract Deploy is Script {
         // Get deployer from private key
         uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
         deployer = vm.addr(deployerPrivateKey);
+        deployBlock = block.number;
 
         console.log("Deploying contracts with address:", deployer);
         console.log("Deployer balance:", deployer.balance);
@@ -108,6 +112,14 @@ contract Deploy is Script {
         );
         console.log("   Granted GUARDIAN_ROLE to deployer");
 
+        // Grant the manager's MANAGER_ROLE to deployer for testing (strategy
+        // pause controls, rebalance button and keeper); the vault holds it too
+        StrategyManager(strategyManager).grantRole(
+            StrategyManager(strategyManager).MANAGER_ROLE(),
+            deployer
+        );
+        console.log("   Granted StrategyManager MANAGER_ROLE to deployer");
+
         // 7. Deploy mock strategies
         console.log("\n7. Deploying mock strategies...");
 
@@ -164,6 +176,8 @@ contract Deploy is Script {
     function saveDeploymentAddresses() internal {
         string memory deploymentData = string.concat(
             "{\n",
+            '  "chainId": ', vm.toString(block.chainid), ',\n',
+            '  "startBlock": ', vm.toString(deployBlock), ',\n',
             '  "deployer": "', vm.toString(deployer), '",\n',
             '  "usdc": "', vm.toString(usdc), '",\n',
             '  "vault": "', vm.toString(vault), '",\n',
@@ -175,6 +189,11 @@ contract Deploy is Script {
             "}"
         );
 
+        // Per-chain file consumed by the frontend registry (npm run update-addresses)
+        string memory chainFile = string.concat("deployments/", vm.toString(block.chainid), ".json");
+        vm.writeFile(chainFile, deploymentData);
+        console.log("Deployment addresses saved to:", chainFile);
+
         vm.writeFile("deployments/latest.json", deploymentData);
         console.log("Deployment addresses saved to: deployments/latest.json");
     }
@@ -7,6 +7,7 @@ import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {IStrategyManager} from "./interfaces/IStrategyManager.sol";
 import {IStrategy} from "./interfaces/IStrategy.sol";
+import {BaseStrategy} from "./strategies/BaseStrategy.sol";
 import {IPriceOracle} from "./interfaces/IPriceOracle.sol";
 import {RebalanceLib} from "./libraries/RebalanceLib.sol";
 
@@ -196,6 +197,26 @@ contract StrategyManager is IStrategyManager, AccessControl, ReentrancyGuard {
         emit StrategyDeallocated(strategy, amount);
     }
 
+    /**
+     * @notice Pause a strategy (blocks new deposits, withdrawals still allowed)
+     * @dev BaseStrategy.pause() is onlyManager, so this is the only way to reach it.
+     *      Pausing is a BaseStrategy feature, not part of IStrategy.
+     * @param strategy Strategy address
+     */
+    function pauseStrategy(address strategy) external onlyRole(MANAGER_ROLE) {
+        if (!strategyExists[strategy]) revert StrategyNotFound();
+        BaseStrategy(strategy).pause();
+    }
+
+    /**
+     * @notice Unpause a strategy
+     * @param strategy Strategy address
+     */
+    function unpauseStrategy(address strategy) external onlyRole(MANAGER_ROLE) {
+        if (!strategyExists[strategy]) revert StrategyNotFound();
+        BaseStrategy(strategy).unpause();
+    }
+
     // ============ VIEW FUNCTIONS ============
 
     /**
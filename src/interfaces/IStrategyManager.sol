@@ -82,6 +82,18 @@ interface IStrategyManager {
      */
     function deallocateFromStrategy(address strategy, uint256 amount, address recipient) external;
 
+    /**
+     * @notice Pause a strategy
+     * @param strategy Strategy address
+     */
+    function pauseStrategy(address strategy) external;
+
+    /**
+     * @notice Unpause a strategy
+     * @param strategy Strategy address
+     */
+    function unpauseStrategy(address strategy) external;
+
     /**
      * @notice Get total value across all strategies
      * @return Total value
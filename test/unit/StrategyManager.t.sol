@@ -4,6 +4,7 @@ pragma solidity 0.8.24;
 import {Test} from "forge-std/Test.sol";
 import {StrategyManager} from "../../src/StrategyManager.sol";
 import {IStrategyManager} from "../../src/interfaces/IStrategyManager.sol";
+import {BaseStrategy} from "../../src/strategies/BaseStrategy.sol";
 import {MockStrategy} from "../../src/strategies/MockStrategy.sol";
 import {MockERC20} from "../../src/mocks/MockERC20.sol";
 
@@ -268,6 +269,52 @@ contract StrategyManagerTest is Test {
         manager.deallocateFromStrategy(address(strategy1), 100e6, address(0));
     }
 
+    // ============ PAUSE STRATEGY TESTS ============
+
+    function test_pauseStrategy_success() public {
+        manager.addStrategy(address(strategy1), 10000);
+
+        vm.prank(vault);
+        manager.pauseStrategy(address(strategy1));
+
+        assertFalse(strategy1.isActive());
+    }
+
+    function test_unpauseStrategy_success() public {
+        manager.addStrategy(address(strategy1), 10000);
+
+        vm.startPrank(vault);
+        manager.pauseStrategy(address(strategy1));
+        manager.unpauseStrategy(address(strategy1));
+        vm.stopPrank();
+
+        assertTrue(strategy1.isActive());
+    }
+
+    function test_pauseStrategy_revertsNotFound() public {
+        vm.prank(vault);
+        vm.expectRevert(IStrategyManager.StrategyNotFound.selector);
+        manager.pauseStrategy(address(strategy1));
+    }
+
+    function test_pauseStrategy_revertsNonManager() public {
+        manager.addStrategy(address(strategy1), 10000);
+
+        vm.prank(user);
+        vm.expectRevert();
+        manager.pauseStrategy(address(strategy1));
+    }
+
+    function test_pauseStrategy_emitsEvent() public {
+        manager.addStrategy(address(strategy1), 10000);
+
+        vm.expectEmit(true, true, true, true, address(strategy1));
+        emit BaseStrategy.StrategyPaused();
+
+        vm.prank(vault);
+        manager.pauseStrategy(address(strategy1));
+    }
+
     // ============ VIEW FUNCTIONS ============
 
     function test_getStrategies() public {